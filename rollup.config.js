@@ -35,7 +35,7 @@ module.exports = [
       production && terser()
     ],
     external: [
-      '@hiveio/hive-js',
+      /^@hiveio\/hive-js/,
       'ipfs-only-hash',
       'buffer',
       'events',
@@ -69,7 +69,7 @@ module.exports = [
       production && terser()
     ],
     external: [
-      '@hiveio/hive-js',
+      /^@hiveio\/hive-js/,
       'ipfs-only-hash',
       'buffer'
     ]
@@ -152,6 +152,36 @@ module.exports = [
     external: []
   },
 
+  // Testing utilities (spk-js/testing) for Node.js
+  {
+    input: 'src/testing/index.ts',
+    output: [
+      {
+        file: 'dist/testing.cjs.js',
+        format: 'cjs',
+        sourcemap: true,
+        exports: 'named'
+      },
+      {
+        file: 'dist/testing.esm.js',
+        format: 'es',
+        sourcemap: true
+      }
+    ],
+    plugins: [
+      nodeResolve({
+        preferBuiltins: true
+      }),
+      commonjs(),
+      typescript({
+        tsconfig: './tsconfig.json',
+        declaration: false,
+        declarationMap: false
+      })
+    ],
+    external: ['buffer']
+  },
+
   // TypeScript declarations
   {
     input: 'src/index.ts',
@@ -160,5 +190,13 @@ module.exports = [
       format: 'es'
     },
     plugins: [dts.default()]
+  },
+  {
+    input: 'src/testing/index.ts',
+    output: {
+      file: 'dist/testing.d.ts',
+      format: 'es'
+    },
+    plugins: [dts.default()]
   }
 ];
\ No newline at end of file
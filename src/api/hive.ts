@@ -1,7 +1,15 @@
 /**
  * Hive blockchain API client
+ * JSON-RPC client with node rotation and retries that shares the SDK's
+ * transport, logger and retry policy
  */
 
+import { NetworkError, TimeoutError, HTTPStatusError, HiveRPCError } from '../core/errors';
+import { RetryPolicy, RetryPolicyOptions, parseRetryAfter } from '../core/retry';
+import { NETWORKS, DEFAULT_NETWORK } from '../core/network';
+import { Transport, defaultTransport } from '../core/transport';
+import { Logger, silentLogger } from '../core/logger';
+
 export interface HiveAccount {
   name: string;
   memo_key: string;
@@ -9,70 +17,307 @@ export interface HiveAccount {
   [key: string]: any;
 }
 
-export class HiveAPI {
-  private static nodes = [
-    'https://api.hive.blog',
-    'https://api.deathwing.me',
-    'https://hive-api.arcange.eu',
-    'https://api.openhive.network'
-  ];
+export interface DynamicGlobalProperties {
+  head_block_number: number;
+  head_block_id: string;
+  time: string;
+  last_irreversible_block_num: number;
+  [key: string]: any;
+}
+
+export interface HiveTransaction {
+  ref_block_num: number;
+  ref_block_prefix: number;
+  expiration: string;
+  operations: Array<[string, any]>;
+  extensions: any[];
+  signatures?: string[];
+  [key: string]: any;
+}
+
+export interface HiveBlock {
+  previous: string;
+  timestamp: string;
+  witness: string;
+  transactions: HiveTransaction[];
+  transaction_ids: string[];
+  block_id?: string;
+  [key: string]: any;
+}
+
+export interface AccountHistoryOperation {
+  trx_id: string;
+  block: number;
+  trx_in_block: number;
+  op_in_trx: number;
+  timestamp: string;
+  op: [string, any];
+  [key: string]: any;
+}
+
+/** [index, operation] pairs as returned by get_account_history */
+export type AccountHistoryEntry = [number, AccountHistoryOperation];
+
+export interface BroadcastResult {
+  id: string;
+  block_num: number;
+  trx_num: number;
+  expired: boolean;
+}
+
+export interface RCAccount {
+  account: string;
+  rc_manabar: {
+    current_mana: string | number;
+    last_update_time: number;
+  };
+  max_rc: string | number;
+  [key: string]: any;
+}
+
+export interface RCMana {
+  current: number;
+  max: number;
+  /** 0-100 */
+  percent: number;
+}
+
+export interface HiveClientOptions {
+  /** Hive API nodes, tried in order and rotated on failure */
+  nodes?: string[];
+  transport?: Transport;
+  logger?: Logger;
+  retry?: RetryPolicyOptions;
+  /** Request timeout in ms (default 15000) */
+  timeout?: number;
+}
+
+export interface HiveCallOptions {
+  /** Whether repeating the call is safe (default true) */
+  idempotent?: boolean;
+  /** Retry failed calls per the retry policy (default true) */
+  retry?: boolean;
+  /** Request timeout in ms, overrides the client's */
+  timeout?: number;
+}
 
-  private static currentNodeIndex = 0;
+/** Resource credits regenerate fully in five days */
+const RC_REGENERATION_SECONDS = 5 * 24 * 60 * 60;
+
+export class HiveClient {
+  public nodes: string[];
+  public retryPolicy: RetryPolicy;
+  public transport: Transport;
+  public logger: Logger;
+  public timeout: number;
+  private currentNodeIndex = 0;
+  private requestId = 0;
+
+  constructor(options: HiveClientOptions = {}) {
+    this.nodes = [...(options.nodes || NETWORKS[DEFAULT_NETWORK].hiveNodes)];
+    this.transport = options.transport || defaultTransport;
+    this.logger = options.logger || silentLogger;
+    this.timeout = options.timeout ?? 15000;
+    // Every retry moves to the next node, so the first retries are quick
+    this.retryPolicy = new RetryPolicy({
+      maxRetries: 3,
+      baseDelay: 250,
+      maxDelay: 5000,
+      deadline: 20000,
+      ...options.retry,
+    });
+  }
 
   /**
-   * Get accounts from Hive blockchain
+   * Node that the next call goes to
    */
-  static async getAccounts(usernames: string[]): Promise<HiveAccount[]> {
-    if (!usernames || usernames.length === 0) {
-      return [];
+  get node(): string {
+    return this.nodes[this.currentNodeIndex];
+  }
+
+  /**
+   * Call a JSON-RPC method, rotating nodes and retrying per the retry policy.
+   * RPC errors are the chain's answer and are thrown as HiveRPCError without
+   * retrying.
+   */
+  async call<T = any>(method: string, params: any, options: HiveCallOptions = {}): Promise<T> {
+    const attempt = async (): Promise<T> => {
+      const node = this.node;
+      try {
+        return await this.send<T>(node, method, params, options.timeout ?? this.timeout);
+      } catch (error) {
+        if (error instanceof HiveRPCError) {
+          throw error;
+        }
+        this.currentNodeIndex = (this.currentNodeIndex + 1) % this.nodes.length;
+        this.logger.debug('Hive RPC call failed', { operation: 'hive.call', method, node, error });
+        throw error;
+      }
+    };
+
+    if (options.retry === false) {
+      return attempt();
     }
+    // Hive reads are POSTs but safe to repeat
+    return this.retryPolicy.execute(attempt, { idempotent: options.idempotent ?? true });
+  }
 
-    const node = this.nodes[this.currentNodeIndex];
-    
+  private async send<T>(node: string, method: string, params: any, timeout: number): Promise<T> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), timeout);
+    let response: Response;
     try {
-      const response = await fetch(`${node}/api/accounts`, {
+      response = await this.transport(node, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
           jsonrpc: '2.0',
-          method: 'condenser_api.get_accounts',
-          params: [usernames],
-          id: 1
-        })
+          method,
+          params,
+          id: ++this.requestId,
+        }),
+        signal: controller.signal,
       });
-
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        throw new TimeoutError(node, timeout, error);
       }
+      throw new NetworkError(error?.message || String(error), node, error);
+    } finally {
+      clearTimeout(timeoutId);
+    }
 
-      const data = await response.json();
-      
-      if (data.error) {
-        throw new Error(data.error.message || 'API error');
-      }
+    if (!response.ok) {
+      const error = new HTTPStatusError(
+        response.status,
+        response.statusText,
+        node,
+        `HTTP error! status: ${response.status}`
+      );
+      error.retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
+      throw error;
+    }
 
-      return data.result || [];
-    } catch (error) {
-      // Try next node on failure
-      this.currentNodeIndex = (this.currentNodeIndex + 1) % this.nodes.length;
-      
-      // If we've tried all nodes, throw the error
-      if (this.currentNodeIndex === 0) {
-        throw error;
-      }
-      
-      // Retry with next node
-      return this.getAccounts(usernames);
+    const data = await response.json();
+
+    if (data.error) {
+      throw new HiveRPCError(method, data.error, node);
+    }
+
+    return data.result;
+  }
+
+  /**
+   * Get accounts from Hive blockchain
+   */
+  async getAccounts(usernames: string[]): Promise<HiveAccount[]> {
+    if (!usernames || usernames.length === 0) {
+      return [];
     }
+    return (await this.call<HiveAccount[]>('condenser_api.get_accounts', [usernames])) || [];
   }
 
   /**
    * Get a single account
    */
-  static async getAccount(username: string): Promise<HiveAccount | null> {
+  async getAccount(username: string): Promise<HiveAccount | null> {
     const accounts = await this.getAccounts([username]);
     return accounts.length > 0 ? accounts[0] : null;
   }
-}
\ No newline at end of file
+
+  async getDynamicGlobalProperties(): Promise<DynamicGlobalProperties> {
+    return this.call('condenser_api.get_dynamic_global_properties', []);
+  }
+
+  async getBlock(blockNum: number): Promise<HiveBlock | null> {
+    return this.call('condenser_api.get_block', [blockNum]);
+  }
+
+  async getTransaction(
+    id: string,
+    options?: HiveCallOptions
+  ): Promise<HiveTransaction & { block_num: number; transaction_id: string }> {
+    return this.call('condenser_api.get_transaction', [id], options);
+  }
+
+  /**
+   * Get an account's operations, newest last. `start` -1 starts from the latest
+   * operation; `filter` is the [low, high] operation bitmask.
+   */
+  async getAccountHistory(
+    account: string,
+    start = -1,
+    limit = 100,
+    filter?: [number | string, number | string]
+  ): Promise<AccountHistoryEntry[]> {
+    const params: any[] = [account, start, limit];
+    if (filter) {
+      params.push(...filter);
+    }
+    return (await this.call<AccountHistoryEntry[]>('condenser_api.get_account_history', params)) || [];
+  }
+
+  /**
+   * Broadcast a signed transaction without waiting for it to be included
+   */
+  async broadcastTransaction(transaction: HiveTransaction): Promise<void> {
+    await this.call('condenser_api.broadcast_transaction', [transaction], { idempotent: false });
+  }
+
+  /**
+   * Broadcast a signed transaction and wait for the block it was included in
+   */
+  async broadcastTransactionSynchronous(transaction: HiveTransaction): Promise<BroadcastResult> {
+    return this.call('condenser_api.broadcast_transaction_synchronous', [transaction], { idempotent: false });
+  }
+
+  async findRCAccounts(accounts: string[]): Promise<RCAccount[]> {
+    const result = await this.call<{ rc_accounts: RCAccount[] }>('rc_api.find_rc_accounts', { accounts });
+    return result?.rc_accounts || [];
+  }
+
+  /**
+   * Current resource credits of an account, including regeneration since
+   * the manabar was last updated
+   */
+  async getRCMana(account: string, now = Date.now()): Promise<RCMana> {
+    const [rc] = await this.findRCAccounts([account]);
+    if (!rc) {
+      return { current: 0, max: 0, percent: 0 };
+    }
+
+    const max = Number(rc.max_rc);
+    const elapsed = Math.max(0, now / 1000 - rc.rc_manabar.last_update_time);
+    const current = Math.min(
+      max,
+      Number(rc.rc_manabar.current_mana) + (max * elapsed) / RC_REGENERATION_SECONDS
+    );
+    return { current, max, percent: max > 0 ? (current / max) * 100 : 0 };
+  }
+}
+
+/**
+ * Static access to a shared HiveClient, kept for existing callers.
+ * Prefer `spk.account.hive`, which uses the account's transport and logger.
+ */
+export class HiveAPI {
+  static client = new HiveClient();
+
+  static get retryPolicy(): RetryPolicy {
+    return this.client.retryPolicy;
+  }
+
+  static set retryPolicy(policy: RetryPolicy) {
+    this.client.retryPolicy = policy;
+  }
+
+  static async getAccounts(usernames: string[]): Promise<HiveAccount[]> {
+    return this.client.getAccounts(usernames);
+  }
+
+  static async getAccount(username: string): Promise<HiveAccount | null> {
+    return this.client.getAccount(username);
+  }
+}
@@ -1,2 +1,14 @@
-export { HiveAPI } from './hive';
-export type { HiveAccount } from './hive';
\ No newline at end of file
+export { HiveAPI, HiveClient } from './hive';
+export type {
+  HiveAccount,
+  HiveClientOptions,
+  HiveCallOptions,
+  DynamicGlobalProperties,
+  HiveBlock,
+  HiveTransaction,
+  AccountHistoryEntry,
+  AccountHistoryOperation,
+  BroadcastResult,
+  RCAccount,
+  RCMana,
+} from './hive';
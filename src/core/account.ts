@@ -2,6 +2,44 @@ import { SPKAPI, AuthHeaders } from './api';
 import { mergeConfig, SPKConfig } from './config';
 import { KeychainAdapter } from './keychain-adapter';
 import { ProtocolManager } from './protocol';
+import { NodeSyncGuard } from './node-sync';
+import { NetworkProfile } from './network';
+import { Logger, silentLogger, withLogContext } from './logger';
+import { SPKAccountData, FileContract } from './models';
+import { SPKError, SignerUnavailableError, SignerRejectedError, toSPKError } from './errors';
+import { AccountSubscription, AccountSubscriptionOptions } from './subscription';
+import { TransactionTracker } from './confirmation';
+import { ActivityHistory, ActivityQuery, ActivityPage } from './history';
+import { HiveClient } from '../api/hive';
+import { DryRunOptions, DryRunResult, DryRun, NoDryRun, customJsonOperation } from './dry-run';
+import { calculatePendingRewards, PendingRewards } from '../tokens/rewards';
+
+/**
+ * Account fields copied from the /@username payload onto SPKAccount
+ */
+const ACCOUNT_DATA_FIELDS = [
+  'balance',
+  'spk',
+  'broca',
+  'poweredUp',
+  'pubKey',
+  'contracts',
+  'file_contracts',
+  'spk_power',
+  'head_block',
+  'liq_broca',
+  'pow_broca',
+  'gov',
+  'spk_block',
+  'granted',
+  'granting',
+  'pow',
+  'power_downs',
+  'drop',
+  'claim',
+  'tick',
+  'behind',
+] as const;
 
 /**
  * SPK Network account management
@@ -9,7 +47,15 @@ import { ProtocolManager } from './protocol';
 export class SPKAccount {
   public username: string;
   public node: string;
+  public network: NetworkProfile;
   public api: SPKAPI;
+  public logger: Logger;
+  /** Hive JSON-RPC client sharing this account's transport and logger */
+  public hive: HiveClient;
+  /** Waits for this account's broadcasts to be processed by the node */
+  public confirmations: TransactionTracker;
+  /** Checks the node is in sync before this account broadcasts */
+  public sync: NodeSyncGuard;
   public hasKeychain: boolean = false;
   
   // Account data
@@ -19,7 +65,7 @@ export class SPKAccount {
   public poweredUp: number = 0;
   public pubKey: string = 'NA';
   public contracts: any[] = [];
-  public file_contracts: Record<string, any> = {};
+  public file_contracts: Record<string, FileContract> = {};
   public spk_power: number = 0;
   public head_block: number = 0;
   public liq_broca: number = 0;
@@ -40,15 +86,39 @@ export class SPKAccount {
   public tick: number = 0.01;
   public behind: number = 0;
 
+  /** Last account payload received from the node */
+  public data: SPKAccountData | null = null;
+
   public keychainAdapter: KeychainAdapter | null = null;
-  private protocol: ProtocolManager;
+  /** Protocol definitions advertised by the node */
+  public protocol: ProtocolManager;
 
   constructor(username: string, options: Partial<SPKConfig> = {}) {
     const config = mergeConfig(options);
     this.username = username;
     this.node = config.node;
-    this.api = new SPKAPI(config.node, config.timeout, config.maxRetries);
-    this.protocol = new ProtocolManager(config.node);
+    this.network = config.network;
+    this.logger = withLogContext(config.logger || silentLogger, { account: username });
+    this.api = new SPKAPI(config.node, config.timeout, config.maxRetries, {
+      transport: config.transport,
+      interceptors: config.interceptors,
+      nodes: config.nodes,
+      cache: config.cache,
+      retry: config.retry,
+      logger: this.logger,
+    });
+    this.hive = new HiveClient({
+      nodes: config.network.hiveNodes,
+      transport: config.transport,
+      logger: this.logger,
+      ...config.hive,
+    });
+    this.confirmations = new TransactionTracker(this.hive, this.api, {
+      logger: this.logger,
+      ...config.confirmation,
+    });
+    this.sync = new NodeSyncGuard(this.api, config.sync);
+    this.protocol = new ProtocolManager(config.node, this.api, config.network, config.protocol);
     
     if (config.keychain) {
       this.keychainAdapter = new KeychainAdapter(config.keychain);
@@ -68,16 +138,16 @@ export class SPKAccount {
       await this.protocol.updateProtocols();
 
       // Load account data
-      const accountData = await this.api.get(`/@${this.username}`);
+      const accountData = await this.api.getAccount(this.username);
       
       if (!accountData) {
-        throw new Error('Account not found');
+        throw new SPKError('Account not found', 'ACCOUNT_NOT_FOUND');
       }
 
       // Update account properties
-      Object.assign(this, accountData);
+      this.applyAccountData(accountData);
     } catch (error: any) {
-      throw new Error(`Failed to initialize account: ${error.message}`);
+      throw toSPKError(error, 'Failed to initialize account');
     }
   }
 
@@ -101,8 +171,8 @@ export class SPKAccount {
   async getBrocaStorage(): Promise<string> {
     try {
       const brocaCredits = await this.calculateBroca();
-      const stats = await this.api.get('/stats');
-      const channelBytes = stats?.channel_bytes || 1024; // Default to 1KB per BROCA
+      const stats = await this.api.getStats();
+      const channelBytes = stats.result.channel_bytes || 1024; // Default to 1KB per BROCA
       
       // BROCA credits * channel_bytes = total bytes available
       const totalBytes = brocaCredits * channelBytes;
@@ -121,43 +191,65 @@ export class SPKAccount {
         return `${gb.toFixed(2)}GB`;
       }
     } catch (error) {
-      console.warn('Failed to calculate BROCA storage:', error);
+      this.logger.warn('Failed to calculate BROCA storage', { operation: 'account.brocaStorage', error });
       return '0MB';
     }
   }
 
-  async refresh(): Promise<any> {
-    const data = await this.api.get(`/@${this.username}`);
-    Object.assign(this, data);
+  async refresh(): Promise<SPKAccountData> {
+    this.api.invalidate(`/@${this.username}`);
+    const data = await this.api.getAccount(this.username);
+    this.applyAccountData(data);
     return data;
   }
 
+  /**
+   * Watch the account for changes. Polls head_block, refreshes this instance on
+   * every new block and emits balance, BROCA, contract, power-down and
+   * claimable events. Call unsubscribe() on the result to stop.
+   */
+  subscribe(options: AccountSubscriptionOptions = {}): AccountSubscription {
+    return new AccountSubscription(this, options).start();
+  }
+
+  /**
+   * Read the SPK operations this account signed from its Hive history,
+   * newest first. Pass `next` of a page as `start` to read older records.
+   */
+  async getActivity(query: ActivityQuery = {}): Promise<ActivityPage> {
+    return new ActivityHistory(this.username, this.hive, this.protocol, this.network).getActivity(query);
+  }
+
+  /**
+   * Copy a validated account payload onto this instance
+   */
+  private applyAccountData(data: SPKAccountData): void {
+    this.data = data;
+    for (const field of ACCOUNT_DATA_FIELDS) {
+      if (data[field] !== undefined && data[field] !== null) {
+        (this as any)[field] = data[field];
+      }
+    }
+  }
+
   /**
    * Get SPK token user data (similar to getTokenUser from dlux-iov)
    * This fetches basic SPK account data
    */
-  async getTokenUser(user: string = this.username): Promise<any> {
+  async getTokenUser(user: string = this.username): Promise<SPKAccountData> {
     try {
-      const data = await this.api.get(`/@${user}`);
+      // Copy so the cached response is not modified
+      const data = { ...(await this.api.getAccount(user)) };
       data.tick = data.tick || 0.01;
       
       if (user === this.username) {
         // Update instance properties
-        this.behind = data.behind;
-        this.balance = data.balance;
-        this.gov = data.gov;
-        this.poweredUp = data.poweredUp;
-        this.claim = data.claim;
-        this.spk = data.spk;
-        this.spk_power = data.spk_power;
-        this.broca = data.broca || '0,0';
-        this.head_block = data.head_block;
-        Object.assign(this, data);
+        this.applyAccountData({ ...data, broca: data.broca || '0,0' });
       }
       
       return data;
     } catch (error: any) {
-      throw new Error(`Failed to get token user: ${error.message}`);
+      throw toSPKError(error, 'Failed to get token user');
     }
   }
 
@@ -165,22 +257,25 @@ export class SPKAccount {
    * Get complete SPK API data including calculated rewards
    * This is the SPK-specific version of getSapi from dlux-iov
    */
-  async getSpkApi(user: string = this.username): Promise<any> {
+  async getSpkApi(user: string = this.username): Promise<SPKAccountData> {
     try {
-      const data = await this.api.get(`/@${user}`);
+      // Copy so the cached response is not modified
+      const data = { ...(await this.api.getAccount(user)) };
       data.tick = data.tick || 0.01;
       
       if (user === this.username) {
         // Process power downs
-        data.powerDowns = Object.keys(data.power_downs || {});
-        for (let i = 0; i < data.powerDowns.length; i++) {
-          data.powerDowns[i] = data.powerDowns[i].split(':')[0];
-        }
+        data.powerDowns = Object.keys(data.power_downs || {}).map(key => key.split(':')[0]);
         
         // Update instance with all data
-        Object.assign(this, data);
+        this.applyAccountData(data);
         
-        // Pending rewards calculation removed
+        // Pending rewards from the network's current rates
+        try {
+          data.pendingRewards = calculatePendingRewards(data, await this.api.getStats());
+        } catch (error) {
+          this.logger.warn('Failed to calculate pending rewards', { operation: 'account.pendingRewards', error });
+        }
         
         // Ensure granted and granting have default values
         if (!this.granted.t) this.granted.t = 0;
@@ -189,11 +284,23 @@ export class SPKAccount {
       
       return data;
     } catch (error: any) {
-      throw new Error(`Failed to get SPK API data: ${error.message}`);
+      throw toSPKError(error, 'Failed to get SPK API data');
     }
   }
 
 
+  /**
+   * LARYNX and SPK rewards this account can claim now
+   */
+  async getPendingRewards(): Promise<PendingRewards> {
+    try {
+      const [data, stats] = await Promise.all([this.refresh(), this.api.getStats()]);
+      return calculatePendingRewards(data, stats);
+    } catch (error: any) {
+      throw toSPKError(error, 'Failed to calculate pending rewards');
+    }
+  }
+
   async calculateBroca(currentBlock?: number): Promise<number> {
     if (!currentBlock) currentBlock = this.head_block;
     
@@ -207,19 +314,21 @@ export class SPKAccount {
     return broca_calc(this.broca, broca_refill, this.pow_broca, currentBlock);
   }
 
-  async sendLarynx(amount: number, to: string, memo = ''): Promise<any> {
-    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
-      throw new Error('Keychain/Signer not available');
-    }
-
+  /**
+   * Send LARYNX. With `dryRun` the custom_json is returned without a signer
+   * or node sync check.
+   */
+  async sendLarynx(amount: number, to: string, memo: string, options: DryRun): Promise<DryRunResult>;
+  async sendLarynx(amount: number, to: string, memo?: string, options?: NoDryRun): Promise<any>;
+  async sendLarynx(amount: number, to: string, memo = '', options: DryRunOptions = {}): Promise<any> {
     if (amount > this.balance) {
-      throw new Error('Insufficient balance');
+      throw new SPKError('Insufficient balance', 'INSUFFICIENT_BALANCE');
     }
 
     // Check if recipient exists
     const recipient = await this.api.get(`/@${to}`).catch(() => null);
     if (!recipient) {
-      throw new Error('Invalid recipient account');
+      throw new SPKError('Invalid recipient account', 'INVALID_ACCOUNT');
     }
 
     const json = {
@@ -231,23 +340,33 @@ export class SPKAccount {
 
     const customJsonId = this.protocol.getCustomJsonId('LARYNX', 'send');
     const amountDisplay = this.protocol.formatAmount('LARYNX', amount);
-    
-    return this.keychainAdapter.broadcastCustomJson(
+    const displayMessage = `Send ${amountDisplay} to ${to}`;
+
+    if (options.dryRun) {
+      return this.preview(customJsonId, json, displayMessage);
+    }
+    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
+      throw new SignerUnavailableError();
+    }
+    await this.sync.check();
+
+    const result = await this.keychainAdapter.broadcastCustomJson(
       this.username,
       customJsonId,
       'Active',
       json,
-      `Send ${amountDisplay} to ${to}`
+      displayMessage
     );
-  }
 
-  async sendSpk(amount: number, to: string, memo = ''): Promise<any> {
-    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
-      throw new Error('Keychain/Signer not available');
-    }
+    this.invalidateAccounts(to);
+    return result;
+  }
 
+  async sendSpk(amount: number, to: string, memo: string, options: DryRun): Promise<DryRunResult>;
+  async sendSpk(amount: number, to: string, memo?: string, options?: NoDryRun): Promise<any>;
+  async sendSpk(amount: number, to: string, memo = '', options: DryRunOptions = {}): Promise<any> {
     if (amount > this.spk) {
-      throw new Error('Insufficient balance');
+      throw new SPKError('Insufficient balance', 'INSUFFICIENT_BALANCE');
     }
 
     const json = {
@@ -259,23 +378,33 @@ export class SPKAccount {
 
     const customJsonId = this.protocol.getCustomJsonId('SPK', 'send');
     const amountDisplay = this.protocol.formatAmount('SPK', amount);
-    
-    return this.keychainAdapter.broadcastCustomJson(
+    const displayMessage = `Send ${amountDisplay} to ${to}`;
+
+    if (options.dryRun) {
+      return this.preview(customJsonId, json, displayMessage);
+    }
+    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
+      throw new SignerUnavailableError();
+    }
+    await this.sync.check();
+
+    const result = await this.keychainAdapter.broadcastCustomJson(
       this.username,
       customJsonId,
       'Active',
       json,
-      `Send ${amountDisplay} to ${to}`
+      displayMessage
     );
-  }
 
-  async powerUp(amount: number): Promise<any> {
-    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
-      throw new Error('Keychain/Signer not available');
-    }
+    this.invalidateAccounts(to);
+    return result;
+  }
 
+  async powerUp(amount: number, options: DryRun): Promise<DryRunResult>;
+  async powerUp(amount: number, options?: NoDryRun): Promise<any>;
+  async powerUp(amount: number, options: DryRunOptions = {}): Promise<any> {
     if (amount > this.balance) {
-      throw new Error('Insufficient balance');
+      throw new SPKError('Insufficient balance', 'INSUFFICIENT_BALANCE');
     }
 
     const json = {
@@ -285,21 +414,31 @@ export class SPKAccount {
 
     const customJsonId = this.protocol.getCustomJsonId('LARYNX', 'power_up');
     const amountDisplay = this.protocol.formatAmount('LARYNX', amount);
-    
-    return this.keychainAdapter.broadcastCustomJson(
+    const displayMessage = `Power up ${amountDisplay}`;
+
+    if (options.dryRun) {
+      return this.preview(customJsonId, json, displayMessage);
+    }
+    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
+      throw new SignerUnavailableError();
+    }
+    await this.sync.check();
+
+    const result = await this.keychainAdapter.broadcastCustomJson(
       this.username,
       customJsonId,
       'Active',
       json,
-      `Power up ${amountDisplay}`
+      displayMessage
     );
-  }
 
-  async powerDown(amount: number): Promise<any> {
-    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
-      throw new Error('Keychain/Signer not available');
-    }
+    this.invalidateAccounts();
+    return result;
+  }
 
+  async powerDown(amount: number, options: DryRun): Promise<DryRunResult>;
+  async powerDown(amount: number, options?: NoDryRun): Promise<any>;
+  async powerDown(amount: number, options: DryRunOptions = {}): Promise<any> {
     const json = {
       from: this.username,
       amount,
@@ -307,21 +446,54 @@ export class SPKAccount {
 
     const customJsonId = this.protocol.getCustomJsonId('LARYNX', 'power_down');
     const amountDisplay = this.protocol.formatAmount('LARYNX', amount);
-    
-    return this.keychainAdapter.broadcastCustomJson(
+    const displayMessage = `Power down ${amountDisplay}`;
+
+    if (options.dryRun) {
+      return this.preview(customJsonId, json, displayMessage);
+    }
+    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
+      throw new SignerUnavailableError();
+    }
+    await this.sync.check();
+
+    const result = await this.keychainAdapter.broadcastCustomJson(
       this.username,
       customJsonId,
       'Active',
       json,
-      `Power down ${amountDisplay}`
+      displayMessage
     );
+
+    this.invalidateAccounts();
+    return result;
+  }
+
+  /**
+   * Active custom_json a broadcast would ask the signer for
+   */
+  private preview(id: string, json: Record<string, any>, displayMessage: string): DryRunResult {
+    return {
+      dryRun: true,
+      transactions: [
+        { auth: 'active', operations: [customJsonOperation(this.username, id, 'active', json)], displayMessage },
+      ],
+    };
+  }
+
+  /**
+   * Drop cached account data touched by a broadcast
+   */
+  private invalidateAccounts(...others: string[]): void {
+    for (const account of [this.username, ...others]) {
+      this.api.invalidate(`/@${account}`);
+    }
   }
 
   async registerPublicKey(): Promise<void> {
     if (this.pubKey !== 'NA') return;
 
     if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
-      throw new Error('Keychain/Signer not available');
+      throw new SignerUnavailableError();
     }
 
     const timestamp = Date.now().toString();
@@ -350,14 +522,15 @@ export class SPKAccount {
       );
 
       this.pubKey = publicKey || 'NA';
+      this.invalidateAccounts();
     } catch (error: any) {
-      throw new Error(`Failed to register public key: ${error.message}`);
+      throw toSPKError(error, 'Failed to register public key');
     }
   }
 
   async sign(message: string, keyType = 'Posting'): Promise<AuthHeaders> {
     if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
-      throw new Error('Keychain/Signer not available');
+      throw new SignerUnavailableError();
     }
 
     const timestamp = Date.now().toString();
@@ -376,7 +549,7 @@ export class SPKAccount {
         timestamp,
       };
     } catch (error: any) {
-      throw new Error(`Failed to sign message: ${error.message}`);
+      throw new SignerRejectedError(`Failed to sign message: ${error.message}`, error);
     }
   }
 }
\ No newline at end of file
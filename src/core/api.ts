@@ -1,3 +1,32 @@
+import {
+  Transport,
+  SPKRequest,
+  InterceptorChain,
+  InterceptorOptions,
+  RequestInterceptor,
+  ResponseInterceptor,
+  ErrorInterceptor,
+  defaultTransport,
+} from './transport';
+import { SPKNodePool, NodePoolOptions, NodeHealth } from './node-pool';
+import { ResponseCache, ResponseCacheOptions, CachePattern } from './cache';
+import { SPKError, NetworkError, TimeoutError, HTTPStatusError } from './errors';
+import { RetryPolicy, RetryPolicyOptions, parseRetryAfter } from './retry';
+import { NETWORKS, DEFAULT_NETWORK } from './network';
+import { Logger, silentLogger } from './logger';
+import {
+  SPKAccountData,
+  SPKStatsResponse,
+  FileContract,
+  ServicesResponse,
+  UploadStats,
+  parseAccountData,
+  parseStats,
+  parseFileContract,
+  parseServices,
+  parseUploadStats,
+} from './models';
+
 /**
  * SPK Network API client
  */
@@ -7,15 +36,181 @@ export interface AuthHeaders {
   timestamp: string;
 }
 
+export interface SPKAPIOptions {
+  transport?: Transport;
+  interceptors?: InterceptorOptions;
+  /** Additional SPK API nodes used for failover */
+  nodes?: string[];
+  nodePool?: NodePoolOptions;
+  /** Response cache settings, or false to only coalesce concurrent reads */
+  cache?: ResponseCacheOptions | false;
+  /** Retry policy settings; maxRetries defaults to the constructor argument */
+  retry?: RetryPolicyOptions;
+  logger?: Logger;
+}
+
+export interface RequestOptions {
+  /** Allow retrying a non-idempotent request such as POST */
+  retry?: boolean;
+}
+
+const IDEMPOTENT_METHODS = ['GET', 'HEAD', 'OPTIONS', 'PUT', 'DELETE'];
+
+export interface FetchOptions {
+  method?: string;
+  headers?: Record<string, string>;
+  body?: any;
+  timeout?: number;
+}
+
 export class SPKAPI {
-  public node: string;
+  public readonly pool: SPKNodePool;
+  public readonly cache: ResponseCache;
   public timeout: number;
-  public maxRetries: number;
+  /** Logger shared with every module that uses this client */
+  public logger: Logger;
+  public readonly retryPolicy: RetryPolicy;
+  public transport: Transport;
+  /** Node every request goes to, set through `node`; undefined routes by health */
+  private pinnedNode?: string;
+  /** Node the cached responses came from */
+  private cachedNode?: string;
+  public readonly interceptors: {
+    request: InterceptorChain<RequestInterceptor>;
+    response: InterceptorChain<ResponseInterceptor>;
+    error: InterceptorChain<ErrorInterceptor>;
+  };
 
-  constructor(node = 'https://spktest.dlux.io', timeout = 30000, maxRetries = 3) {
-    this.node = node;
+  constructor(
+    node = NETWORKS[DEFAULT_NETWORK].nodes[0],
+    timeout = 30000,
+    maxRetries = 3,
+    options: SPKAPIOptions = {}
+  ) {
+    this.pool = new SPKNodePool([node, ...(options.nodes || [])], options.nodePool);
+    this.cache = new ResponseCache(options.cache === false ? { rules: [] } : options.cache);
     this.timeout = timeout;
-    this.maxRetries = maxRetries;
+    this.retryPolicy = new RetryPolicy({
+      ...options.retry,
+      maxRetries: options.retry?.maxRetries ?? maxRetries,
+    });
+    this.transport = options.transport || defaultTransport;
+    this.logger = options.logger || silentLogger;
+    this.interceptors = {
+      request: new InterceptorChain<RequestInterceptor>(),
+      response: new InterceptorChain<ResponseInterceptor>(),
+      error: new InterceptorChain<ErrorInterceptor>(),
+    };
+
+    options.interceptors?.request?.forEach(handler => this.interceptors.request.use(handler));
+    options.interceptors?.response?.forEach(handler => this.interceptors.response.use(handler));
+    options.interceptors?.error?.forEach(handler => this.interceptors.error.use(handler));
+  }
+
+  get maxRetries(): number {
+    return this.retryPolicy.maxRetries;
+  }
+
+  set maxRetries(value: number) {
+    this.retryPolicy.maxRetries = value;
+  }
+
+  /**
+   * The pinned node, or else the healthiest configured SPK node
+   */
+  get node(): string {
+    return this.pinnedNode ?? this.pool.best();
+  }
+
+  /**
+   * Setting the node adds it to the pool and pins it: every request goes
+   * to it, without failover, until unpinNode() is called
+   */
+  set node(url: string) {
+    this.pool.add(url, true);
+    this.pinnedNode = url.replace(/\/+$/, '');
+  }
+
+  /**
+   * Route requests by node health again after setting `node`
+   */
+  unpinNode(): void {
+    this.pinnedNode = undefined;
+  }
+
+  /**
+   * Health information for every configured node
+   */
+  getNodeHealth(): NodeHealth[] {
+    return this.pool.getAllHealth();
+  }
+
+  /**
+   * Probe every configured node and update its health score
+   */
+  async checkNodes(timeout = 5000): Promise<NodeHealth[]> {
+    await Promise.all(
+      this.pool.nodes.map(async node => {
+        const started = Date.now();
+        try {
+          const response = await this.fetch(`${node}/`, { timeout });
+          if (!response.ok) {
+            throw new HTTPStatusError(response.status, response.statusText, `${node}/`);
+          }
+          this.pool.recordSuccess(node, Date.now() - started, await response.json());
+        } catch (error) {
+          this.pool.recordFailure(node, error);
+          this.logger.debug('SPK node health check failed', { operation: 'api.checkNodes', node, error });
+        }
+      })
+    );
+    return this.getNodeHealth();
+  }
+
+  /**
+   * Send a request to any URL through the transport and interceptor chain.
+   * Used for the SPK node as well as storage providers, so every HTTP call
+   * made by the SDK can be traced, proxied or replaced in one place.
+   */
+  async fetch(url: string, init: FetchOptions = {}): Promise<Response> {
+    let request: SPKRequest = {
+      method: init.method || 'GET',
+      url,
+      headers: { ...(init.headers || {}) },
+      body: init.body,
+    };
+
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), init.timeout ?? this.timeout);
+
+    try {
+      for (const handler of this.interceptors.request.toArray()) {
+        request = await handler(request);
+      }
+
+      let response = await this.transport(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        signal: controller.signal,
+      });
+
+      for (const handler of this.interceptors.response.toArray()) {
+        response = await handler(response, request);
+      }
+
+      return response;
+    } catch (error: any) {
+      for (const handler of this.interceptors.error.toArray()) {
+        const recovered = await handler(error, request);
+        if (recovered) {
+          return recovered;
+        }
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeoutId);
+    }
   }
 
   async request(
@@ -23,10 +218,9 @@ export class SPKAPI {
     endpoint: string,
     data?: any,
     auth?: AuthHeaders,
-    retries = 0
+    requestOptions: RequestOptions = {}
   ): Promise<any> {
-    const url = `${this.node}${endpoint}`;
-    const options: RequestInit = {
+    const options: FetchOptions = {
       method,
       headers: {
         'Content-Type': 'application/json',
@@ -46,47 +240,90 @@ export class SPKAPI {
       options.body = JSON.stringify(data);
     }
 
-    try {
-      const controller = new AbortController();
-      const timeoutId = setTimeout(() => controller.abort(), this.timeout);
-      
-      const response = await fetch(url, {
-        ...options,
-        signal: controller.signal,
-      });
-      
-      clearTimeout(timeoutId);
+    const idempotent = requestOptions.retry ?? IDEMPOTENT_METHODS.includes(method);
+
+    return this.retryPolicy.execute(async () => {
+      // Reads go to the healthiest node and fail over to the next one;
+      // writes only go to the healthiest node. A pinned node gets everything.
+      const candidates = method === 'GET' && !this.pinnedNode ? this.pool.ranked() : [this.node];
 
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`);
+      let lastError: any;
+      for (const node of candidates) {
+        const started = Date.now();
+        try {
+          const result = await this.requestNode(node, endpoint, options);
+          this.pool.recordSuccess(node, Date.now() - started, result);
+          return result;
+        } catch (error: any) {
+          lastError = error;
+          // Client errors will not be fixed by asking another node
+          if (error instanceof HTTPStatusError && !error.retryable) {
+            throw error;
+          }
+          this.pool.recordFailure(node, error);
+          this.logger.debug('SPK node request failed', { operation: 'api.request', node, endpoint, error });
+        }
       }
+      throw lastError;
+    }, { idempotent });
+  }
 
-      return await response.json();
+  private async requestNode(node: string, endpoint: string, options: FetchOptions): Promise<any> {
+    const url = `${node}${endpoint}`;
+    let response: Response;
+    try {
+      response = await this.fetch(url, options);
     } catch (error: any) {
-      if (error.name === 'AbortError') {
-        throw new Error('Request timeout');
+      if (error?.name === 'AbortError') {
+        throw new TimeoutError(url, options.timeout ?? this.timeout, error);
       }
-
-      if (retries < this.maxRetries) {
-        // Exponential backoff
-        await new Promise(resolve => setTimeout(resolve, Math.pow(2, retries) * 1000));
-        return this.request(method, endpoint, data, auth, retries + 1);
+      if (error instanceof SPKError) {
+        throw error;
       }
+      throw new NetworkError(error?.message || String(error), url, error);
+    }
 
+    if (!response.ok) {
+      const error = new HTTPStatusError(response.status, response.statusText, url);
+      error.retryAfter = parseRetryAfter(response.headers?.get('Retry-After'));
       throw error;
     }
+
+    return response.json();
   }
 
+  /**
+   * GET an endpoint. Responses are cached for the endpoint's TTL and
+   * concurrent identical GETs share one request. The cache is dropped
+   * whenever reads move to another node - pinned, unpinned or a healthier one.
+   */
   async get(endpoint: string, params?: Record<string, any>): Promise<any> {
     if (params) {
       const queryString = new URLSearchParams(params).toString();
       endpoint += `?${queryString}`;
     }
-    return this.request('GET', endpoint);
+    const node = this.node;
+    if (node !== this.cachedNode) {
+      this.cache.clear();
+      this.cachedNode = node;
+    }
+    return this.cache.fetch(endpoint, () => this.request('GET', endpoint));
+  }
+
+  /**
+   * Drop cached responses, e.g. `/@alice` after broadcasting for alice.
+   * Without a pattern the whole cache is cleared.
+   */
+  invalidate(pattern?: CachePattern): void {
+    this.cache.invalidate(pattern);
   }
 
-  async post(endpoint: string, data: any, auth?: AuthHeaders): Promise<any> {
-    return this.request('POST', endpoint, data, auth);
+  /**
+   * POST to an endpoint. Not retried unless `options.retry` is set
+   * or the retry policy allows non-idempotent retries.
+   */
+  async post(endpoint: string, data: any, auth?: AuthHeaders, options?: RequestOptions): Promise<any> {
+    return this.request('POST', endpoint, data, auth, options);
   }
 
   async delete(endpoint: string, auth?: AuthHeaders): Promise<any> {
@@ -94,23 +331,46 @@ export class SPKAPI {
   }
 
   // Specialized endpoints
-  async getAccount(username: string): Promise<any> {
-    return this.get(`/@${username}`);
+  async getAccount(username: string): Promise<SPKAccountData> {
+    const endpoint = `/@${username}`;
+    return parseAccountData(await this.get(endpoint), endpoint);
   }
 
-  async getFileContract(contractId: string): Promise<any> {
-    return this.get(`/api/fileContract/${contractId}`);
+  async getFileContract(contractId: string): Promise<FileContract> {
+    const endpoint = `/api/fileContract/${contractId}`;
+    return parseFileContract(await this.get(endpoint), endpoint);
   }
 
-  async getFileByCID(cid: string): Promise<any> {
-    return this.get(`/api/file/${cid}`);
+  async getFileByCID(cid: string): Promise<FileContract> {
+    const endpoint = `/api/file/${cid}`;
+    return parseFileContract(await this.get(endpoint), endpoint);
   }
 
-  async getServices(type: string): Promise<any> {
-    return this.get(`/services/${type}`);
+  async getServices(type: string): Promise<ServicesResponse> {
+    const endpoint = `/services/${type}`;
+    return parseServices(await this.get(endpoint), endpoint);
   }
 
-  async getStats(): Promise<any> {
-    return this.get('/stats');
+  async getStats(): Promise<SPKStatsResponse> {
+    return parseStats(await this.get('/stats'));
+  }
+
+  /**
+   * Get capacity stats from a storage provider
+   */
+  async getUploadStats(providerUrl: string, timeout?: number): Promise<UploadStats> {
+    const url = `${providerUrl}/upload-stats`;
+    const response = await this.fetch(url, {
+      timeout,
+      headers: {
+        'Accept': 'application/json'
+      }
+    });
+
+    if (!response.ok) {
+      throw new HTTPStatusError(response.status, response.statusText, url, `HTTP ${response.status}`);
+    }
+
+    return parseUploadStats(await response.json(), url);
   }
 }
\ No newline at end of file
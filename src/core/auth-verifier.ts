@@ -0,0 +1,243 @@
+/**
+ * Server-side verification of SPK auth headers
+ * Checks the x-account / x-signature / x-timestamp headers produced by
+ * SPKAccount.sign: recovers the signing key, matches it against the
+ * account's Hive authority and rejects stale or replayed signatures
+ */
+
+import { Buffer } from 'buffer';
+import ecc from '@hiveio/hive-js/lib/auth/ecc';
+import type { AuthHeaders } from './api';
+import { HiveClient, HiveAccount } from '../api/hive';
+import { AuthVerificationError } from './errors';
+import { Logger, silentLogger } from './logger';
+
+export type HiveAuthority = 'posting' | 'active' | 'owner';
+
+/**
+ * Plain header object (Node, Express) or Fetch Headers
+ */
+export type HeaderSource = Record<string, string | string[] | undefined> | { get(name: string): string | null };
+
+export interface ReplayStore {
+  /** Record a signed request until `expiresAt` (ms); false when it was already recorded */
+  add(key: string, expiresAt: number): boolean | Promise<boolean>;
+}
+
+/**
+ * In-process replay store. Services running several instances should pass
+ * a shared store (Redis SET NX with expiry...) instead.
+ */
+export class MemoryReplayStore implements ReplayStore {
+  private entries: Map<string, number> = new Map();
+
+  add(key: string, expiresAt: number): boolean {
+    const now = Date.now();
+    for (const [entry, expiry] of this.entries) {
+      if (expiry <= now) this.entries.delete(entry);
+    }
+    if (this.entries.has(key)) {
+      return false;
+    }
+    this.entries.set(key, expiresAt);
+    return true;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export interface AuthVerifierOptions {
+  /** Client used to read account authorities (default: public Hive nodes) */
+  hive?: Pick<HiveClient, 'getAccount'>;
+  /** Accepted distance of x-timestamp from the server clock in ms (default 300000) */
+  window?: number;
+  /** Authorities whose keys may sign (default ['posting']) */
+  authorities?: HiveAuthority[];
+  replayStore?: ReplayStore;
+  /** How long account authorities are cached in ms (default 60000) */
+  accountCacheTtl?: number;
+  logger?: Logger;
+}
+
+export interface VerifiedAuth {
+  account: string;
+  publicKey: string;
+  /** Authority the key belongs to */
+  authority: HiveAuthority;
+  timestamp: number;
+}
+
+interface CachedAuthorities {
+  account: HiveAccount | null;
+  expires: number;
+}
+
+/**
+ * Read the auth headers of a request, null when any of them is missing
+ */
+export function readAuthHeaders(headers: HeaderSource): AuthHeaders | null {
+  const read = (name: string): string | undefined => {
+    if (typeof (headers as any).get === 'function') {
+      return (headers as { get(name: string): string | null }).get(name) || undefined;
+    }
+    const record = headers as Record<string, string | string[] | undefined>;
+    const key = Object.keys(record).find(header => header.toLowerCase() === name);
+    const value = key ? record[key] : undefined;
+    return Array.isArray(value) ? value[0] : value;
+  };
+
+  const account = read('x-account');
+  const signature = read('x-signature');
+  const timestamp = read('x-timestamp');
+  return account && signature && timestamp ? { account, signature, timestamp } : null;
+}
+
+export class AuthVerifier {
+  public window: number;
+  public authorities: HiveAuthority[];
+  private hive: Pick<HiveClient, 'getAccount'>;
+  private replayStore: ReplayStore;
+  private accountCacheTtl: number;
+  private logger: Logger;
+  private accounts: Map<string, CachedAuthorities> = new Map();
+
+  constructor(options: AuthVerifierOptions = {}) {
+    this.hive = options.hive || new HiveClient();
+    this.window = options.window ?? 5 * 60 * 1000;
+    this.authorities = options.authorities || ['posting'];
+    this.replayStore = options.replayStore || new MemoryReplayStore();
+    this.accountCacheTtl = options.accountCacheTtl ?? 60000;
+    this.logger = options.logger || silentLogger;
+  }
+
+  /**
+   * Verify headers signed over `${timestamp}:${message}`. Throws
+   * AuthVerificationError with a `reason` when they do not check out.
+   */
+  async verify(auth: AuthHeaders | null, message: string): Promise<VerifiedAuth> {
+    if (!auth) {
+      throw new AuthVerificationError('missing_headers', 'Missing x-account, x-signature or x-timestamp header');
+    }
+    const { account, signature } = auth;
+
+    const timestamp = Number(auth.timestamp);
+    if (!/^\d+$/.test(auth.timestamp) || !Number.isSafeInteger(timestamp)) {
+      throw new AuthVerificationError('invalid_timestamp', 'x-timestamp must be a millisecond timestamp', account);
+    }
+    if (Math.abs(Date.now() - timestamp) > this.window) {
+      throw new AuthVerificationError('expired', 'Signature timestamp is outside the accepted window', account);
+    }
+
+    const signed = `${auth.timestamp}:${message}`;
+    const publicKey = this.recoverKey(signed, signature, account);
+    const authority = await this.findAuthority(account, publicKey);
+
+    // Only requests that verified are recorded, until they would expire anyway. The
+    // key is what was signed rather than the signature, which has other encodings
+    // (hex case, malleable S) that verify just the same.
+    const replayKey = `${account}:${ecc.hash.sha256(signed).toString('hex')}`;
+    const fresh = await this.replayStore.add(replayKey, timestamp + this.window);
+    if (!fresh) {
+      throw new AuthVerificationError('replayed', 'Signature was already used', account);
+    }
+
+    return { account, publicKey, authority, timestamp };
+  }
+
+  /**
+   * Verify the auth headers of a request (Node, Express or Fetch style)
+   */
+  async verifyRequest(request: { headers: HeaderSource }, message: string): Promise<VerifiedAuth> {
+    return this.verify(readAuthHeaders(request.headers), message);
+  }
+
+  /**
+   * Drop cached authorities, e.g. after an account changed its keys
+   */
+  clearCache(account?: string): void {
+    if (account) {
+      this.accounts.delete(account);
+    } else {
+      this.accounts.clear();
+    }
+  }
+
+  private recoverKey(signed: string, signature: string, account: string): string {
+    try {
+      return ecc.Signature.fromHex(signature).recoverPublicKeyFromBuffer(Buffer.from(signed)).toString();
+    } catch (error) {
+      this.logger.debug('Failed to recover signing key', { operation: 'auth.verify', account, error });
+      throw new AuthVerificationError('invalid_signature', 'x-signature is not a valid signature', account);
+    }
+  }
+
+  private async findAuthority(name: string, publicKey: string): Promise<HiveAuthority> {
+    const account = await this.getAccount(name);
+    if (!account) {
+      throw new AuthVerificationError('unknown_account', `Unknown Hive account: ${name}`, name);
+    }
+
+    for (const authority of this.authorities) {
+      const { key_auths = [], weight_threshold = 1 } = account[authority] || {};
+      // The key must be able to act alone
+      if (key_auths.some(([key, weight]: [string, number]) => key === publicKey && weight >= weight_threshold)) {
+        return authority;
+      }
+    }
+    throw new AuthVerificationError(
+      'unauthorized_key',
+      `Key is not a ${this.authorities.join(' or ')} key of ${name}`,
+      name
+    );
+  }
+
+  private async getAccount(name: string): Promise<HiveAccount | null> {
+    const cached = this.accounts.get(name);
+    if (cached && cached.expires > Date.now()) {
+      return cached.account;
+    }
+    const account = await this.hive.getAccount(name);
+    this.accounts.set(name, { account, expires: Date.now() + this.accountCacheTtl });
+    return account;
+  }
+}
+
+export interface AuthMiddlewareOptions {
+  /** Message the client signed, fixed or derived from the request */
+  message: string | ((request: any) => string);
+  /** Handle failed verification instead of answering 401 */
+  onError?: (error: AuthVerificationError, request: any, response: any, next: (error?: unknown) => void) => void;
+}
+
+/**
+ * Connect-style `(request, response, next)` middleware for Express, Connect,
+ * Polka or a plain Node http handler. Verified requests get `request.spkAuth`;
+ * failures are answered with 401 and a JSON `{ error, reason }` body.
+ */
+export function createAuthMiddleware(verifier: AuthVerifier, options: AuthMiddlewareOptions) {
+  return async (request: any, response: any, next: (error?: unknown) => void): Promise<void> => {
+    let auth: VerifiedAuth;
+    try {
+      const message = typeof options.message === 'function' ? options.message(request) : options.message;
+      auth = await verifier.verifyRequest(request, message);
+    } catch (error) {
+      if (!(error instanceof AuthVerificationError)) {
+        next(error);
+        return;
+      }
+      if (options.onError) {
+        options.onError(error, request, response, next);
+        return;
+      }
+      response.statusCode = 401;
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify({ error: error.message, reason: error.reason }));
+      return;
+    }
+
+    request.spkAuth = auth;
+    next();
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Response cache for SPKAPI
+ * Keeps read responses for a per-endpoint TTL and coalesces concurrent
+ * identical reads into a single network request
+ */
+
+export type CachePattern = string | RegExp;
+
+export interface CacheRule {
+  /** Endpoint path prefix or regular expression */
+  pattern: CachePattern;
+  /** Time to live in ms; 0 disables caching for matching endpoints */
+  ttl: number;
+}
+
+export interface ResponseCacheOptions {
+  /** TTL for endpoints no rule matches (default 0 - not cached) */
+  ttl?: number;
+  /** Per-endpoint TTLs, first match wins. Replaces the default rules. */
+  rules?: CacheRule[];
+  /** Maximum number of cached responses, oldest are evicted first */
+  maxEntries?: number;
+}
+
+interface CacheEntry {
+  value: any;
+  expires: number;
+}
+
+export const DEFAULT_CACHE_RULES: CacheRule[] = [
+  { pattern: /^\/$/, ttl: 30000 }, // Node root - network stats
+  { pattern: '/stats', ttl: 30000 },
+  { pattern: /^\/@[^/?]+$/, ttl: 10000 }, // Account
+  { pattern: '/services/', ttl: 60000 },
+  { pattern: '/api/fileContract/', ttl: 10000 },
+  { pattern: '/api/file/', ttl: 10000 },
+];
+
+/**
+ * String patterns match whole path segments: `/@alice` matches `/@alice`
+ * and `/@alice/contracts` but not `/@alicia`
+ */
+function matchesPattern(key: string, pattern: CachePattern): boolean {
+  if (typeof pattern !== 'string') return pattern.test(key);
+  if (!key.startsWith(pattern)) return false;
+  return key.length === pattern.length || pattern.endsWith('/') || '/?'.includes(key[pattern.length]);
+}
+
+export class ResponseCache {
+  private entries: Map<string, CacheEntry> = new Map();
+  private inflight: Map<string, Promise<any>> = new Map();
+  private rules: CacheRule[];
+  private defaultTtl: number;
+  private maxEntries: number;
+
+  constructor(options: ResponseCacheOptions = {}) {
+    this.rules = options.rules || DEFAULT_CACHE_RULES;
+    this.defaultTtl = options.ttl || 0;
+    this.maxEntries = options.maxEntries || 500;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * TTL that applies to an endpoint
+   */
+  ttlFor(key: string): number {
+    const rule = this.rules.find(entry => matchesPattern(key, entry.pattern));
+    return rule ? rule.ttl : this.defaultTtl;
+  }
+
+  /**
+   * Cached value for a key, or undefined when missing or expired
+   */
+  get(key: string): any {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (entry.expires <= Date.now()) {
+      this.entries.delete(key);
+      return undefined;
+    }
+    return entry.value;
+  }
+
+  set(key: string, value: any, ttl = this.ttlFor(key)): void {
+    if (ttl <= 0) return;
+
+    this.entries.delete(key);
+    this.entries.set(key, { value, expires: Date.now() + ttl });
+
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+
+  /**
+   * Return the cached value for a key, joining an identical request that is
+   * already in flight, or run the loader and cache its result
+   */
+  async fetch<T>(key: string, loader: () => Promise<T>, ttl?: number): Promise<T> {
+    const cached = this.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const pending = this.inflight.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const request = loader()
+      .then(value => {
+        // Skip if the key was invalidated while the request was in flight
+        if (this.inflight.get(key) === request) {
+          this.set(key, value, ttl);
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.inflight.get(key) === request) {
+          this.inflight.delete(key);
+        }
+      });
+
+    this.inflight.set(key, request);
+    return request;
+  }
+
+  /**
+   * Drop cached responses matching a pattern, or everything without one
+   */
+  invalidate(pattern?: CachePattern): void {
+    if (pattern === undefined) {
+      this.clear();
+      return;
+    }
+
+    for (const key of Array.from(this.entries.keys())) {
+      if (matchesPattern(key, pattern)) this.entries.delete(key);
+    }
+    for (const key of Array.from(this.inflight.keys())) {
+      if (matchesPattern(key, pattern)) this.inflight.delete(key);
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.inflight.clear();
+  }
+}
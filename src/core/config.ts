@@ -1,24 +1,77 @@
+import { Transport, InterceptorOptions } from './transport';
+import { ResponseCacheOptions } from './cache';
+import { RetryPolicyOptions } from './retry';
+import { Logger } from './logger';
+import type { HiveClientOptions } from '../api/hive';
+import type { ConfirmationOptions } from './confirmation';
+import type { ProtocolManagerOptions } from './protocol';
+import type { NodeSyncPolicy } from './node-sync';
+import { NetworkName, NetworkProfile, resolveNetwork, NETWORKS, DEFAULT_NETWORK } from './network';
+
 /**
  * SPK Network configuration
  */
 export interface SPKConfig {
+  /** Network profile name or a custom profile (see defineNetwork) */
+  network?: NetworkName | NetworkProfile;
   node: string;
+  /** Additional SPK API nodes; reads fail over to the healthiest one */
+  nodes?: string[];
   ipfsGateway: string;
   keychain?: any;
   timeout?: number;
   maxRetries?: number;
+  transport?: Transport;
+  interceptors?: InterceptorOptions;
+  /** Response cache settings, false disables caching */
+  cache?: ResponseCacheOptions | false;
+  /** Retry policy settings for SPK API requests */
+  retry?: RetryPolicyOptions;
+  /** Structured logger used by every module; silent by default */
+  logger?: Logger;
+  /** Hive client settings; nodes default to the network's Hive nodes */
+  hive?: HiveClientOptions;
+  /** How long and how often to check that broadcasts were processed */
+  confirmation?: ConfirmationOptions;
+  /** Persistent protocol cache and how long fetched definitions are used */
+  protocol?: ProtocolManagerOptions;
+  /** How far behind the SPK node may be before broadcasting */
+  sync?: NodeSyncPolicy;
+}
+
+/**
+ * Config with the network profile resolved
+ */
+export interface ResolvedSPKConfig extends SPKConfig {
+  network: NetworkProfile;
 }
 
 export const DEFAULT_CONFIG: SPKConfig = {
-  node: 'https://spktest.dlux.io',
-  ipfsGateway: 'https://ipfs.dlux.io/ipfs/',
+  node: NETWORKS[DEFAULT_NETWORK].nodes[0],
+  ipfsGateway: NETWORKS[DEFAULT_NETWORK].ipfsGateway,
   timeout: 30000,
   maxRetries: 3,
 };
 
-export function mergeConfig(userConfig: Partial<SPKConfig> = {}): SPKConfig {
-  return {
+export function mergeConfig(userConfig: Partial<SPKConfig> = {}): ResolvedSPKConfig {
+  const network = resolveNetwork(userConfig.network, userConfig.node || userConfig.nodes?.[0]);
+  const config: ResolvedSPKConfig = {
     ...DEFAULT_CONFIG,
+    ipfsGateway: network.ipfsGateway,
     ...userConfig,
+    network,
   };
+
+  if (!userConfig.node) {
+    // A node list without an explicit primary node uses its first entry,
+    // otherwise the network's nodes are used
+    if (userConfig.nodes && userConfig.nodes.length > 0) {
+      config.node = userConfig.nodes[0];
+    } else {
+      config.node = network.nodes[0];
+      config.nodes = config.nodes || network.nodes.slice(1);
+    }
+  }
+
+  return config;
 }
\ No newline at end of file
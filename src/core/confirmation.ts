@@ -0,0 +1,139 @@
+/**
+ * Transaction confirmation tracking
+ * Follows a broadcast transaction until it is included in a Hive block and
+ * the SPK node has processed that block, so its effects (balances, new
+ * contracts) can be read back from the node
+ */
+
+import type { SPKAPI } from './api';
+import type { HiveClient } from '../api/hive';
+import { HiveRPCError } from './errors';
+import { Logger, silentLogger } from './logger';
+
+/**
+ * - pending: not found in a Hive block yet
+ * - included: in a Hive block the SPK node has not processed yet
+ * - confirmed: processed by the SPK node, whose head block is past the transaction's
+ */
+export type TransactionStatus = 'pending' | 'included' | 'confirmed';
+
+export interface TransactionConfirmation {
+  id: string;
+  status: TransactionStatus;
+  /** Hive block the transaction was included in */
+  blockNum?: number;
+  /** SPK node head block at the last check */
+  headBlock?: number;
+}
+
+export interface ConfirmationOptions {
+  /** Stop waiting after this many ms and return the status reached (default 60000) */
+  timeout?: number;
+  /** Delay between checks in ms (default 3000, one Hive block) */
+  interval?: number;
+}
+
+export interface TransactionTrackerOptions extends ConfirmationOptions {
+  logger?: Logger;
+}
+
+export interface ConfirmOptions extends ConfirmationOptions {
+  /** Block number reported by the signer, skips the Hive lookup */
+  blockNum?: number;
+}
+
+export class TransactionTracker {
+  public timeout: number;
+  public interval: number;
+  private hive: Pick<HiveClient, 'getTransaction'>;
+  private api: SPKAPI;
+  private logger: Logger;
+
+  constructor(hive: Pick<HiveClient, 'getTransaction'>, api: SPKAPI, options: TransactionTrackerOptions = {}) {
+    this.hive = hive;
+    this.api = api;
+    this.logger = options.logger || api.logger || silentLogger;
+    this.timeout = options.timeout ?? 60000;
+    this.interval = options.interval ?? 3000;
+  }
+
+  /**
+   * Wait until the SPK node has processed the transaction. Resolves with the
+   * status reached when the timeout expires instead of rejecting.
+   */
+  async confirm(id: string, options: ConfirmOptions = {}): Promise<TransactionConfirmation> {
+    const timeout = options.timeout ?? this.timeout;
+    const interval = options.interval ?? this.interval;
+    const deadline = Date.now() + timeout;
+    const confirmation: TransactionConfirmation = {
+      id,
+      status: options.blockNum ? 'included' : 'pending',
+      blockNum: options.blockNum || undefined,
+    };
+
+    for (;;) {
+      if (confirmation.blockNum === undefined) {
+        confirmation.blockNum = await this.findBlock(id, deadline - Date.now());
+        if (confirmation.blockNum !== undefined) {
+          confirmation.status = 'included';
+        }
+      }
+
+      if (confirmation.blockNum !== undefined) {
+        confirmation.headBlock = await this.getHeadBlock();
+        if (confirmation.headBlock !== undefined && confirmation.headBlock > confirmation.blockNum) {
+          confirmation.status = 'confirmed';
+          this.logger.debug('Transaction confirmed', {
+            operation: 'tx.confirm',
+            txId: id,
+            blockNum: confirmation.blockNum,
+          });
+          return confirmation;
+        }
+      }
+
+      if (Date.now() + interval > deadline) {
+        this.logger.warn('Transaction not confirmed before timeout', {
+          operation: 'tx.confirm',
+          txId: id,
+          status: confirmation.status,
+          blockNum: confirmation.blockNum,
+          headBlock: confirmation.headBlock,
+        });
+        return confirmation;
+      }
+      await new Promise(resolve => setTimeout(resolve, interval));
+    }
+  }
+
+  /**
+   * Hive block of a transaction, undefined while it is not in a block.
+   * One call per poll, within the time left: the next poll is the retry.
+   */
+  private async findBlock(id: string, timeLeft: number): Promise<number | undefined> {
+    try {
+      const transaction = await this.hive.getTransaction(id, { retry: false, timeout: Math.max(timeLeft, 1) });
+      return transaction?.block_num || undefined;
+    } catch (error) {
+      // Nodes answer transactions that are not in a block yet with an RPC error
+      if (error instanceof HiveRPCError && /unknown transaction/i.test(error.message)) {
+        this.logger.debug('Transaction not in a Hive block yet', { operation: 'tx.confirm', txId: id });
+      } else {
+        this.logger.debug('Hive transaction lookup failed', { operation: 'tx.confirm', txId: id, error });
+      }
+      return undefined;
+    }
+  }
+
+  private async getHeadBlock(): Promise<number | undefined> {
+    try {
+      // /stats is cached for longer than a block
+      this.api.invalidate('/stats');
+      const stats = await this.api.getStats();
+      return stats.head_block;
+    } catch (error) {
+      this.logger.debug('Failed to read SPK head block', { operation: 'tx.confirm', error });
+      return undefined;
+    }
+  }
+}
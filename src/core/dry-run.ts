@@ -0,0 +1,60 @@
+/**
+ * Dry-run previews
+ * Broadcasting APIs accept `{ dryRun: true }` and return the operations they
+ * would ask the signer to sign - custom_json id, payload and required auths -
+ * with the cost estimate, without signing or calling a mutating endpoint
+ */
+
+import type { AuthLevel, HiveOperation } from './transaction-builder';
+
+export interface DryRunOptions {
+  dryRun?: boolean;
+}
+
+export interface PreviewTransaction {
+  /** Key the signer would be asked for */
+  auth: AuthLevel;
+  operations: HiveOperation[];
+  /** Text shown in the signer prompt */
+  displayMessage?: string;
+}
+
+export interface DryRunResult {
+  dryRun: true;
+  /** Transactions in the order they would be broadcast */
+  transactions: PreviewTransaction[];
+}
+
+export interface ContractPreview extends DryRunResult {
+  brocaCost: number;
+  /** BROCA the account can spend now; the broadcast fails when below brocaCost */
+  availableBroca: number;
+  provider: {
+    nodeId: string;
+    api: string;
+  };
+  size: number;
+  duration: number;
+}
+
+/**
+ * Broadcasting APIs are overloaded on these: `{ dryRun: true }` resolves
+ * with the preview, no options or `{ dryRun: false }` with the broadcast result
+ */
+export type DryRun = { dryRun: true };
+export type NoDryRun = { dryRun?: false };
+
+/**
+ * Build a custom_json operation signed by one account
+ */
+export function customJsonOperation(account: string, id: string, auth: AuthLevel, json: any): HiveOperation {
+  return [
+    'custom_json',
+    {
+      required_auths: auth === 'active' ? [account] : [],
+      required_posting_auths: auth === 'posting' ? [account] : [],
+      id,
+      json: typeof json === 'string' ? json : JSON.stringify(json),
+    },
+  ];
+}
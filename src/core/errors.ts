@@ -0,0 +1,241 @@
+/**
+ * Typed errors thrown by the SDK
+ * Every error extends SPKError and carries a stable `code` plus the
+ * structured details callers need, so UIs do not have to parse messages
+ */
+
+export class SPKError extends Error {
+  public readonly code: string;
+  public readonly cause?: unknown;
+
+  constructor(message: string, code = 'SPK_ERROR', cause?: unknown) {
+    super(message);
+    this.name = new.target.name;
+    this.code = code;
+    this.cause = cause;
+  }
+}
+
+/**
+ * A request never produced a response (DNS, connection reset, CORS...)
+ */
+export class NetworkError extends SPKError {
+  public readonly url?: string;
+
+  constructor(message: string, url?: string, cause?: unknown, code = 'NETWORK_ERROR') {
+    super(message, code, cause);
+    this.url = url;
+  }
+}
+
+/**
+ * A request was aborted after the configured timeout
+ */
+export class TimeoutError extends NetworkError {
+  public readonly timeout?: number;
+
+  constructor(url?: string, timeout?: number, cause?: unknown) {
+    super('Request timeout', url, cause, 'TIMEOUT');
+    this.timeout = timeout;
+  }
+}
+
+/**
+ * A node or storage provider answered with a non-2xx status
+ */
+export class HTTPStatusError extends SPKError {
+  public readonly status: number;
+  public readonly statusText: string;
+  public readonly url?: string;
+  /** Delay requested by the server's Retry-After header, in ms */
+  public retryAfter?: number;
+
+  constructor(status: number, statusText = '', url?: string, message = `API Error: ${status} ${statusText}`) {
+    super(message, 'HTTP_ERROR');
+    this.status = status;
+    this.statusText = statusText;
+    this.url = url;
+  }
+
+  /**
+   * Server side, timeout and rate limit errors may succeed on another node or a retry
+   */
+  get retryable(): boolean {
+    return this.status >= 500 || this.status === 429 || this.status === 408;
+  }
+}
+
+/**
+ * A Hive node answered a JSON-RPC call with an error: a broadcast the chain
+ * rejected, an unknown transaction... Another node would answer the same.
+ */
+export class HiveRPCError extends SPKError {
+  public readonly method: string;
+  public readonly url?: string;
+  /** JSON-RPC error code */
+  public readonly rpcCode?: number;
+  /** Node specific error details */
+  public readonly data?: unknown;
+
+  constructor(method: string, error: { code?: number; message?: string; data?: unknown }, url?: string) {
+    super(error.message || `Hive RPC error in ${method}`, 'HIVE_RPC_ERROR', error);
+    this.method = method;
+    this.url = url;
+    this.rpcCode = error.code;
+    this.data = error.data;
+  }
+}
+
+/**
+ * A node returned a payload that does not match the expected model
+ */
+export class ResponseValidationError extends SPKError {
+  public readonly endpoint: string;
+  public readonly path: string;
+  public readonly expected: string;
+  public readonly received: string;
+
+  constructor(endpoint: string, path: string, expected: string, received: unknown) {
+    const receivedType = describeType(received);
+    super(
+      `Unexpected response from ${endpoint}: expected ${path || 'response'} to be ${expected}, got ${receivedType}`,
+      'INVALID_RESPONSE'
+    );
+    this.endpoint = endpoint;
+    this.path = path;
+    this.expected = expected;
+    this.received = receivedType;
+  }
+}
+
+/**
+ * No keychain or custom signer is configured
+ */
+export class SignerUnavailableError extends SPKError {
+  constructor(message = 'Keychain/Signer not available') {
+    super(message, 'SIGNER_UNAVAILABLE');
+  }
+}
+
+/**
+ * The signer refused or failed to sign / broadcast
+ */
+export class SignerRejectedError extends SPKError {
+  constructor(message: string, cause?: unknown) {
+    super(message, 'SIGNER_REJECTED', cause);
+  }
+}
+
+export class InsufficientBrocaError extends SPKError {
+  public readonly required: number;
+  public readonly available: number;
+
+  constructor(required: number, available: number) {
+    super(`Insufficient BROCA. Required: ${required}, Available: ${available}`, 'INSUFFICIENT_BROCA');
+    this.required = required;
+    this.available = available;
+  }
+}
+
+export class NoHealthyProviderError extends SPKError {
+  public readonly requiredSpace?: number;
+
+  constructor(requiredSpace?: number, message = 'No healthy storage providers with sufficient space available') {
+    super(message, 'NO_HEALTHY_PROVIDER');
+    this.requiredSpace = requiredSpace;
+  }
+}
+
+export class ContractNotFoundError extends SPKError {
+  public readonly contractId: string;
+
+  constructor(contractId: string, message = `Contract not found: ${contractId}`) {
+    super(message, 'CONTRACT_NOT_FOUND');
+    this.contractId = contractId;
+  }
+}
+
+/**
+ * A storage provider refused to authorize an upload
+ */
+export class UploadAuthorizationError extends SPKError {
+  public readonly status: number;
+  public readonly responseText: string;
+
+  constructor(status: number, responseText: string, message = `Upload authorization failed: ${responseText}`) {
+    super(message, 'UPLOAD_AUTHORIZATION_FAILED');
+    this.status = status;
+    this.responseText = responseText;
+  }
+}
+
+export class MetadataParseError extends SPKError {
+  public readonly metadata?: string;
+
+  constructor(message: string, metadata?: string) {
+    super(message, 'METADATA_PARSE_ERROR');
+    this.metadata = metadata;
+  }
+}
+
+/**
+ * The SPK node is further behind the chain than the sync policy allows, or
+ * stopped answering so how far behind it is cannot be told
+ */
+export class NodeBehindError extends SPKError {
+  public readonly node: string;
+  public readonly behind: number;
+  public readonly maxBehind: number;
+
+  constructor(
+    node: string,
+    behind: number,
+    maxBehind: number,
+    message = `SPK node ${node} is ${behind} blocks behind (at most ${maxBehind} allowed)`
+  ) {
+    super(message, 'NODE_BEHIND');
+    this.node = node;
+    this.behind = behind;
+    this.maxBehind = maxBehind;
+  }
+}
+
+export type AuthFailureReason =
+  | 'missing_headers'
+  | 'invalid_timestamp'
+  | 'expired'
+  | 'invalid_signature'
+  | 'unknown_account'
+  | 'unauthorized_key'
+  | 'replayed';
+
+/**
+ * x-account / x-signature / x-timestamp headers failed verification
+ */
+export class AuthVerificationError extends SPKError {
+  public readonly reason: AuthFailureReason;
+  public readonly account?: string;
+
+  constructor(reason: AuthFailureReason, message: string, account?: string) {
+    super(message, 'AUTH_VERIFICATION_FAILED');
+    this.reason = reason;
+    this.account = account;
+  }
+}
+
+/**
+ * Pass SDK errors through unchanged and wrap anything else with context
+ */
+export function toSPKError(error: unknown, context: string): SPKError {
+  if (error instanceof SPKError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new SPKError(`${context}: ${message}`, 'SPK_ERROR', error);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
@@ -0,0 +1,165 @@
+/**
+ * Protocol feature descriptors
+ * Turns the FeatureConfig a node advertises into JSON Schema for the
+ * custom_json payload and a form descriptor generic form renderers can build
+ * inputs from
+ */
+
+import type { FeatureConfig, FieldConfig } from './protocol';
+
+/** Hive account names: 3-16 characters, dot separated segments */
+export const ACCOUNT_NAME_PATTERN = '^(?=.{3,16}$)[a-z][a-z0-9-]{1,}[a-z0-9](\\.[a-z][a-z0-9-]{1,}[a-z0-9])*$';
+
+export interface JSONSchemaProperty {
+  type: 'integer' | 'string';
+  title: string;
+  description?: string;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  /** Decimals of the token, on amount fields in base units */
+  'x-precision'?: number;
+  /** The account must exist on the SPK node */
+  'x-account-check'?: boolean;
+}
+
+export interface FeatureJSONSchema {
+  $schema: 'http://json-schema.org/draft-07/schema#';
+  title: string;
+  description: string;
+  type: 'object';
+  properties: Record<string, JSONSchemaProperty>;
+  required: string[];
+  additionalProperties: false;
+  /** Key the operation is signed with */
+  'x-auth': 'posting' | 'active';
+}
+
+export type FormInputType = 'number' | 'text' | 'account' | 'amount';
+
+export interface FormField {
+  /** Param name passed to execute() */
+  name: string;
+  label: string;
+  input: FormInputType;
+  required: boolean;
+  /** Bounds and step; in token units for amount inputs */
+  min?: number;
+  max?: number;
+  step?: number;
+  /** Amount inputs: decimals and symbol of the token */
+  precision?: number;
+  token?: string;
+  /** Account inputs: look the account up while typing / require it to exist */
+  accountLookup?: boolean;
+  accountCheck?: boolean;
+}
+
+export interface FeatureForm {
+  token: string;
+  feature: string;
+  title: string;
+  auth: 'posting' | 'active';
+  fields: FormField[];
+}
+
+export interface FeatureDescriptor {
+  token: string;
+  feature: string;
+  schema: FeatureJSONSchema;
+  form: FeatureForm;
+}
+
+/**
+ * Amount fields hold token base units: 1500 is 1.500 LARYNX at precision 3
+ */
+export function isAmountField(field: string, config: FieldConfig): boolean {
+  return config.type === 'I' && field === 'amount';
+}
+
+/**
+ * JSON Schema (draft-07) of the custom_json payload a feature broadcasts,
+ * without the `from` the SDK adds
+ */
+export function featureToJSONSchema(
+  token: string,
+  feature: string,
+  config: FeatureConfig,
+  precision: number
+): FeatureJSONSchema {
+  const properties: Record<string, JSONSchemaProperty> = {};
+  const required: string[] = [];
+
+  for (const [field, fieldConfig] of Object.entries(config.json)) {
+    const property: JSONSchemaProperty = {
+      type: fieldConfig.type === 'I' ? 'integer' : 'string',
+      title: fieldConfig.name,
+    };
+
+    if (fieldConfig.type === 'I') {
+      if (fieldConfig.min !== undefined) property.minimum = fieldConfig.min;
+      if (fieldConfig.max !== undefined) property.maximum = fieldConfig.max;
+      if (isAmountField(field, fieldConfig)) {
+        property.description = `${token} in base units (${precision} decimals)`;
+        property['x-precision'] = precision;
+      }
+    } else if (fieldConfig.type === 'AS') {
+      property.minLength = 3;
+      property.maxLength = 16;
+      property.pattern = ACCOUNT_NAME_PATTERN;
+      if (fieldConfig.check === 'AC') property['x-account-check'] = true;
+    } else if (fieldConfig.req) {
+      property.minLength = 1;
+    }
+
+    if (fieldConfig.req) required.push(field);
+    properties[field] = property;
+  }
+
+  return {
+    $schema: 'http://json-schema.org/draft-07/schema#',
+    title: `${token} ${feature}`,
+    description: config.desc,
+    type: 'object',
+    properties,
+    required,
+    additionalProperties: false,
+    'x-auth': config.auth,
+  };
+}
+
+/**
+ * Form descriptor of a feature. Amount inputs are in token units; submit
+ * them as strings and execute() converts them by precision.
+ */
+export function featureToForm(token: string, feature: string, config: FeatureConfig, precision: number): FeatureForm {
+  const fields = Object.entries(config.json).map(([field, fieldConfig]): FormField => {
+    const base = { name: field, label: fieldConfig.name, required: !!fieldConfig.req };
+
+    if (isAmountField(field, fieldConfig)) {
+      const scale = Math.pow(10, precision);
+      return { ...base, input: 'amount', ...bounds(fieldConfig, scale), step: 1 / scale, precision, token };
+    }
+    if (fieldConfig.type === 'I') {
+      return { ...base, input: 'number', ...bounds(fieldConfig, 1), step: 1 };
+    }
+    if (fieldConfig.type === 'AS') {
+      return { ...base, input: 'account', accountLookup: true, accountCheck: fieldConfig.check === 'AC' };
+    }
+    return { ...base, input: 'text' };
+  });
+
+  return { token, feature, title: config.desc, auth: config.auth, fields };
+}
+
+/**
+ * min/max the protocol sets, divided by scale
+ */
+function bounds(config: FieldConfig, scale: number): Pick<FormField, 'min' | 'max'> {
+  const result: Pick<FormField, 'min' | 'max'> = {};
+  if (config.min !== undefined) result.min = config.min / scale;
+  if (config.max !== undefined) result.max = config.max / scale;
+  return result;
+}
@@ -0,0 +1,267 @@
+/**
+ * SPK activity history
+ * Reads an account's Hive history and decodes the SPK custom_json operations
+ * it signed (sends, power ups and downs, claims, storage contracts) into
+ * typed activity records, using the custom_json prefixes of the protocol
+ */
+
+import type { HiveClient, AccountHistoryEntry } from '../api/hive';
+import type { ProtocolManager } from './protocol';
+import type { NetworkProfile } from './network';
+
+export type ActivityToken = 'LARYNX' | 'SPK' | 'BROCA';
+
+/**
+ * Operation types with their own record shape; other SPK features
+ * (node_add, gov_up...) are reported as 'other'
+ */
+export type ActivityType = 'send' | 'power_up' | 'power_down' | 'claim' | 'channel_open' | 'direct_upload' | 'other';
+
+interface ActivityBase {
+  /** Hive transaction id */
+  txId: string;
+  /** Position in the account history, used for paging */
+  index: number;
+  block: number;
+  timestamp: string;
+  /** Account that signed the operation */
+  account: string;
+  customJsonId: string;
+  /** Decoded custom_json payload */
+  json: Record<string, any>;
+}
+
+export interface SendActivity extends ActivityBase {
+  type: 'send';
+  token: ActivityToken;
+  to: string;
+  /** Amount in the token's smallest unit */
+  amount: number;
+  memo?: string;
+}
+
+export interface PowerActivity extends ActivityBase {
+  type: 'power_up' | 'power_down';
+  token: ActivityToken;
+  amount: number;
+}
+
+export interface ClaimActivity extends ActivityBase {
+  type: 'claim';
+  token: ActivityToken;
+}
+
+export interface ChannelOpenActivity extends ActivityBase {
+  type: 'channel_open';
+  token: 'BROCA';
+  /** Account the storage contract is for */
+  to: string;
+  /** BROCA committed to the contract */
+  amount: number;
+  broker?: string;
+}
+
+export interface DirectUploadActivity extends ActivityBase {
+  type: 'direct_upload';
+  token?: undefined;
+  contractId?: string;
+  cids: string[];
+  sizes: number[];
+}
+
+export interface OtherActivity extends ActivityBase {
+  type: 'other';
+  token: ActivityToken;
+  /** Protocol feature name, e.g. 'node_add' */
+  operation: string;
+}
+
+export type ActivityRecord =
+  | SendActivity
+  | PowerActivity
+  | ClaimActivity
+  | ChannelOpenActivity
+  | DirectUploadActivity
+  | OtherActivity;
+
+export interface ActivityQuery {
+  /** History index to read back from; -1 (default) starts at the latest operation */
+  start?: number;
+  /** Maximum records per page (default 50) */
+  limit?: number;
+  token?: ActivityToken | ActivityToken[];
+  type?: ActivityType | ActivityType[];
+}
+
+export interface ActivityPage {
+  /** Newest first */
+  records: ActivityRecord[];
+  /** `start` of the next, older page; null when the history is exhausted */
+  next: number | null;
+}
+
+/** get_account_history operation filter selecting custom_json (operation 18) */
+const CUSTOM_JSON_FILTER: [number, number] = [2 ** 18, 0];
+
+/** Hive nodes return at most 1000 history entries per call */
+const HISTORY_BATCH = 1000;
+
+const TOKENS: ActivityToken[] = ['LARYNX', 'SPK', 'BROCA'];
+const TOKEN_TYPES: ActivityType[] = ['send', 'power_up', 'power_down', 'claim'];
+const STORAGE_TYPES: ActivityType[] = ['channel_open', 'direct_upload'];
+
+export class ActivityHistory {
+  private username: string;
+  private hive: Pick<HiveClient, 'getAccountHistory'>;
+  private protocol: ProtocolManager;
+  private network: NetworkProfile;
+
+  constructor(
+    username: string,
+    hive: Pick<HiveClient, 'getAccountHistory'>,
+    protocol: ProtocolManager,
+    network: NetworkProfile
+  ) {
+    this.username = username;
+    this.hive = hive;
+    this.protocol = protocol;
+    this.network = network;
+  }
+
+  /**
+   * Read a page of activity, newest first. Pass `next` of a page as `start`
+   * to read the following one.
+   */
+  async getActivity(query: ActivityQuery = {}): Promise<ActivityPage> {
+    const limit = query.limit ?? 50;
+    const tokens = toList(query.token);
+    const types = toList(query.type);
+    const records: ActivityRecord[] = [];
+    let cursor = query.start ?? -1;
+
+    while (records.length < limit) {
+      // Nodes reject a limit larger than start + 1
+      const batch = cursor < 0 ? HISTORY_BATCH : Math.min(HISTORY_BATCH, cursor + 1);
+      const entries = await this.hive.getAccountHistory(this.username, cursor, batch, CUSTOM_JSON_FILTER);
+      if (entries.length === 0) {
+        return { records, next: null };
+      }
+
+      for (let i = entries.length - 1; i >= 0; i--) {
+        const [index] = entries[i];
+        if (cursor >= 0 && index > cursor) continue;
+
+        const record = this.decode(entries[i]);
+        if (!record) continue;
+        if (tokens && (!record.token || !tokens.includes(record.token))) continue;
+        if (types && !types.includes(record.type)) continue;
+
+        records.push(record);
+        if (records.length === limit) {
+          return { records, next: index > 0 ? index - 1 : null };
+        }
+      }
+
+      const oldest = entries[0][0];
+      if (oldest <= 0) {
+        return { records, next: null };
+      }
+      cursor = oldest - 1;
+    }
+
+    return { records, next: cursor };
+  }
+
+  /**
+   * Decode an account history entry, null when it is not an SPK operation
+   */
+  decode([index, entry]: AccountHistoryEntry): ActivityRecord | null {
+    const [opType, op] = entry.op;
+    if (opType !== 'custom_json' || typeof op?.id !== 'string') {
+      return null;
+    }
+
+    let json: Record<string, any>;
+    try {
+      json = typeof op.json === 'string' ? JSON.parse(op.json) : op.json || {};
+    } catch {
+      return null;
+    }
+
+    const match = this.matchId(op.id, json);
+    if (!match) {
+      return null;
+    }
+
+    const base: ActivityBase = {
+      txId: entry.trx_id,
+      index,
+      block: entry.block,
+      timestamp: entry.timestamp,
+      account: op.required_auths?.[0] || op.required_posting_auths?.[0] || json.from || this.username,
+      customJsonId: op.id,
+      json,
+    };
+    const { token, feature } = match;
+
+    switch (feature) {
+      case 'channel_open':
+        return { ...base, type: 'channel_open', token: 'BROCA', to: json.to, amount: Number(json.broca) || 0, broker: json.broker };
+      case 'direct_upload':
+        return {
+          ...base,
+          type: 'direct_upload',
+          contractId: json.id,
+          cids: splitList(json.c),
+          sizes: splitList(json.s).map(Number),
+        };
+      case 'send':
+        return { ...base, type: 'send', token: token!, to: json.to, amount: Number(json.amount) || 0, memo: json.memo };
+      case 'power_up':
+      case 'power_down':
+        return { ...base, type: feature, token: token!, amount: Number(json.amount) || 0 };
+      case 'claim':
+        return { ...base, type: 'claim', token: token! };
+      default:
+        return { ...base, type: 'other', token: token!, operation: feature };
+    }
+  }
+
+  /**
+   * Map a custom_json id to its token and feature. Storage operations use
+   * the network's storage prefix, or the direct upload id with the operation
+   * in `json.op`; token prefixes are tried longest first, since the LARYNX
+   * prefix is also the start of the SPK and BROCA ones.
+   */
+  private matchId(id: string, json: Record<string, any>): { token?: ActivityToken; feature: string } | null {
+    if (id === this.network.directUploadId && STORAGE_TYPES.includes(json.op)) {
+      return { feature: json.op };
+    }
+    for (const type of STORAGE_TYPES) {
+      if (id === `${this.network.storagePrefix}${type}`) {
+        return { feature: type };
+      }
+    }
+
+    const prefixes = TOKENS.map(token => ({ token, prefix: this.protocol.getProtocol(token)?.jsonPrefix || '' }))
+      .filter(({ prefix }) => prefix)
+      .sort((a, b) => b.prefix.length - a.prefix.length);
+
+    for (const { token, prefix } of prefixes) {
+      if (!id.startsWith(prefix)) continue;
+      const feature = id.slice(prefix.length);
+      const known = TOKEN_TYPES.includes(feature as ActivityType) || !!this.protocol.getProtocol(token)?.features[feature];
+      return known ? { token, feature } : null;
+    }
+    return null;
+  }
+}
+
+function toList<T>(value?: T | T[]): T[] | undefined {
+  if (value === undefined) return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+function splitList(value: unknown): string[] {
+  return typeof value === 'string' && value ? value.split(',') : [];
+}
@@ -2,11 +2,18 @@
  * Adapter to support both custom signers and Hive Keychain
  */
 
+import { SignerRejectedError, SignerUnavailableError } from './errors';
+
 export interface CustomSigner {
   requestSignature: (account: string, challenge: string, keyType: string, callback: (response: any) => void) => void;
   requestBroadcast: (account: string, operations: any[], keyType: string, callback: (response: any) => void) => void;
   requestSignatureSynchronous?: (account: string, challenge: string, keyType: string) => { signature: string; publicKey?: string };
-  requestBroadcastSynchronous?: (account: string, operations: any[], keyType: string) => { result: { id: string } };
+  /** May return a promise, e.g. to wait for the block like broadcast_transaction_synchronous */
+  requestBroadcastSynchronous?: (
+    account: string,
+    operations: any[],
+    keyType: string
+  ) => { result: { id: string; block_num?: number } } | Promise<{ result: { id: string; block_num?: number } }>;
 }
 
 export interface HiveKeychain {
@@ -15,6 +22,22 @@ export interface HiveKeychain {
   requestBroadcast: (account: string, operations: any[], keyType: string, callback: (response: any) => void) => void;
 }
 
+/**
+ * Broadcast result; block_num is set when the signer waited for the block
+ */
+export interface BroadcastReceipt {
+  id: string;
+  block_num?: number;
+}
+
+function toReceipt(result: any): BroadcastReceipt {
+  const receipt: BroadcastReceipt = { id: result.id };
+  if (typeof result.block_num === 'number') {
+    receipt.block_num = result.block_num;
+  }
+  return receipt;
+}
+
 export class KeychainAdapter {
   private signer: CustomSigner | HiveKeychain;
   private isCustomSigner: boolean;
@@ -40,7 +63,7 @@ export class KeychainAdapter {
             resolve(result);
             return;
           } catch (error: any) {
-            reject(new Error(error.message || 'Signing failed'));
+            reject(new SignerRejectedError(error.message || 'Signing failed', error));
             return;
           }
         }
@@ -48,7 +71,7 @@ export class KeychainAdapter {
         // Fall back to async
         customSigner.requestSignature(account, message, keyType, (response) => {
           if (response.error) {
-            reject(new Error(response.error));
+            reject(new SignerRejectedError(response.error, response));
           } else {
             resolve({
               signature: response.signature,
@@ -61,7 +84,7 @@ export class KeychainAdapter {
         const keychain = this.signer as HiveKeychain;
         keychain.requestSignBuffer(account, message, keyType, (response) => {
           if (response.error) {
-            reject(new Error(response.error));
+            reject(new SignerRejectedError(response.error, response));
           } else {
             resolve({
               signature: response.signature,
@@ -76,29 +99,32 @@ export class KeychainAdapter {
   /**
    * Broadcast a transaction
    */
-  async broadcast(account: string, operations: any[], keyType: string = 'Active', _displayMessage?: string): Promise<{ id: string }> {
+  async broadcast(account: string, operations: any[], keyType: string = 'Active', _displayMessage?: string): Promise<BroadcastReceipt> {
     return new Promise((resolve, reject) => {
       if (this.isCustomSigner) {
         const customSigner = this.signer as CustomSigner;
         
         // Try synchronous first if available
         if (customSigner.requestBroadcastSynchronous) {
+          const rejectBroadcast = (error: any) =>
+            reject(new SignerRejectedError(error?.message || 'Broadcast failed', error));
           try {
-            const result = customSigner.requestBroadcastSynchronous(account, operations, keyType);
-            resolve({ id: result.result.id });
-            return;
+            Promise.resolve(customSigner.requestBroadcastSynchronous(account, operations, keyType)).then(
+              result => resolve(toReceipt(result.result)),
+              rejectBroadcast
+            );
           } catch (error: any) {
-            reject(new Error(error.message || 'Broadcast failed'));
-            return;
+            rejectBroadcast(error);
           }
+          return;
         }
         
         // Fall back to async
         customSigner.requestBroadcast(account, operations, keyType, (response) => {
           if (response.error) {
-            reject(new Error(response.error));
+            reject(new SignerRejectedError(response.error, response));
           } else {
-            resolve({ id: response.result.id });
+            resolve(toReceipt(response.result));
           }
         });
       } else {
@@ -107,13 +133,13 @@ export class KeychainAdapter {
         if (keychain.requestBroadcast) {
           keychain.requestBroadcast(account, operations, keyType, (response) => {
             if (response.error) {
-              reject(new Error(response.error));
+              reject(new SignerRejectedError(response.error, response));
             } else {
-              resolve({ id: response.result.id });
+              resolve(toReceipt(response.result));
             }
           });
         } else {
-          reject(new Error('Broadcast not supported by this keychain implementation'));
+          reject(new SignerUnavailableError('Broadcast not supported by this keychain implementation'));
         }
       }
     });
@@ -128,7 +154,7 @@ export class KeychainAdapter {
     keyType: string, 
     json: any, 
     displayMessage: string
-  ): Promise<{ id: string }> {
+  ): Promise<BroadcastReceipt> {
     const operations = [[
       'custom_json',
       {
@@ -154,9 +180,9 @@ export class KeychainAdapter {
           displayMessage,
           (response) => {
             if (response.error) {
-              reject(new Error(response.error));
+              reject(new SignerRejectedError(response.error, response));
             } else {
-              resolve({ id: response.result.id });
+              resolve(toReceipt(response.result));
             }
           }
         );
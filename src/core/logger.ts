@@ -0,0 +1,77 @@
+/**
+ * Structured logging
+ * Every module logs through a Logger passed in SPKConfig, with a message and
+ * a context object (operation, contract id, cid, provider...). The default
+ * logger is silent, so the SDK never writes to the console on its own.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface LogContext {
+  /** SDK operation that logged, e.g. 'contract.create' */
+  operation?: string;
+  account?: string;
+  contractId?: string;
+  cid?: string;
+  /** Storage provider node id or URL */
+  provider?: string;
+  error?: unknown;
+  [key: string]: unknown;
+}
+
+export interface Logger {
+  debug(message: string, context?: LogContext): void;
+  info(message: string, context?: LogContext): void;
+  warn(message: string, context?: LogContext): void;
+  error(message: string, context?: LogContext): void;
+}
+
+const LEVELS: Record<LogLevel, number> = {
+  debug: 10,
+  info: 20,
+  warn: 30,
+  error: 40,
+};
+
+const noop = () => {};
+
+export const silentLogger: Logger = {
+  debug: noop,
+  info: noop,
+  warn: noop,
+  error: noop,
+};
+
+/**
+ * Logger that writes entries at or above `level` to the console
+ */
+export function createConsoleLogger(level: LogLevel = 'info', output: Console = console): Logger {
+  const write = (entryLevel: LogLevel) => (message: string, context?: LogContext) => {
+    if (LEVELS[entryLevel] < LEVELS[level]) return;
+    if (context && Object.keys(context).length > 0) {
+      output[entryLevel](`[spk-js] ${message}`, context);
+    } else {
+      output[entryLevel](`[spk-js] ${message}`);
+    }
+  };
+
+  return {
+    debug: write('debug'),
+    info: write('info'),
+    warn: write('warn'),
+    error: write('error'),
+  };
+}
+
+/**
+ * Logger that adds `context` to every entry, e.g. the account name
+ */
+export function withLogContext(logger: Logger, context: LogContext): Logger {
+  const merge = (entry?: LogContext): LogContext => ({ ...context, ...entry });
+  return {
+    debug: (message, entry) => logger.debug(message, merge(entry)),
+    info: (message, entry) => logger.info(message, merge(entry)),
+    warn: (message, entry) => logger.warn(message, merge(entry)),
+    error: (message, entry) => logger.error(message, merge(entry)),
+  };
+}
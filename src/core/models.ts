@@ -0,0 +1,247 @@
+/**
+ * Typed response models for SPK node and storage provider endpoints
+ * with runtime validation of the payloads a node returns
+ */
+
+import { ResponseValidationError } from './errors';
+
+/**
+ * Storage contract as stored by the SPK node
+ */
+export interface FileContract {
+  i: string; // Contract ID
+  t: string; // Owner
+  f?: string; // Contract creator
+  b?: string; // Broker
+  a?: number; // Allowed bytes
+  c?: number; // Contract state
+  e?: string; // Expiration
+  m?: string; // Metadata
+  n?: Record<string, string>; // Storage nodes
+  p?: number; // Requested copies
+  r?: number; // BROCA paid
+  s?: number; // Size
+  u?: number; // Used bytes
+  df?: Record<string, number>; // Files (CID -> size)
+  api?: string;
+  [key: string]: any;
+}
+
+/**
+ * Account payload from /@username
+ */
+export interface SPKAccountData {
+  account?: string;
+  balance?: number; // LARYNX in millitokens
+  spk?: number;
+  broca?: string; // "amount,block"
+  poweredUp?: number;
+  pubKey?: string;
+  contracts?: any[];
+  file_contracts?: Record<string, FileContract>;
+  channels?: Record<string, Record<string, FileContract>>;
+  spk_power?: number;
+  head_block?: number;
+  liq_broca?: number;
+  pow_broca?: number;
+  gov?: number;
+  spk_block?: number;
+  granted?: { t: number; [account: string]: number };
+  granting?: { t: number; [account: string]: number };
+  pow?: number;
+  power_downs?: Record<string, any>;
+  drop?: { last_claim: number; availible: { amount: number } };
+  claim?: number;
+  tick?: number;
+  behind?: number;
+  node?: string;
+  [key: string]: any;
+}
+
+/**
+ * Network statistics from /stats
+ */
+export interface SPKNetworkStats {
+  channel_bytes?: number;
+  channel_min?: number;
+  spk_rate_lgov?: string | number;
+  spk_rate_lpow?: string | number;
+  spk_rate_ldel?: string | number;
+  spk_rate_uown?: string | number;
+  [key: string]: any;
+}
+
+export interface SPKStatsResponse {
+  result: SPKNetworkStats;
+  head_block?: number;
+  behind?: number;
+  node?: string;
+  [key: string]: any;
+}
+
+/**
+ * A single service entry advertised under /services/:type
+ */
+export interface ServiceEntry {
+  a?: string; // API URL
+  b?: string; // Account
+  c?: number;
+  e?: boolean;
+  [key: string]: any;
+}
+
+export interface ServicesResponse {
+  providers: Record<string, string>; // account -> comma separated peer ids
+  services: Array<Record<string, ServiceEntry>>;
+  [key: string]: any;
+}
+
+/**
+ * Storage provider capacity from {provider}/upload-stats
+ */
+export interface UploadStats {
+  node?: string;
+  StorageMax: string | number;
+  RepoSize: string | number;
+  NumObjects?: number;
+  [key: string]: any;
+}
+
+type FieldType = 'number' | 'string' | 'object' | 'array' | 'numeric';
+
+const FIELD_DESCRIPTIONS: Record<FieldType, string> = {
+  number: 'a number',
+  string: 'a string',
+  object: 'an object',
+  array: 'an array',
+  numeric: 'a number or numeric string',
+};
+
+function matches(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'numeric':
+      return typeof value === 'number' || (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)));
+    default:
+      return typeof value === type;
+  }
+}
+
+function expectObject(value: unknown, endpoint: string, path = ''): Record<string, any> {
+  if (!matches(value, 'object')) {
+    throw new ResponseValidationError(endpoint, path, FIELD_DESCRIPTIONS.object, value);
+  }
+  return value as Record<string, any>;
+}
+
+function checkFields(
+  data: Record<string, any>,
+  fields: Record<string, FieldType>,
+  endpoint: string,
+  required: string[] = []
+): void {
+  for (const [field, type] of Object.entries(fields)) {
+    const value = data[field];
+    if (value === undefined || value === null) {
+      if (required.includes(field)) {
+        throw new ResponseValidationError(endpoint, field, FIELD_DESCRIPTIONS[type], value);
+      }
+      continue;
+    }
+    if (!matches(value, type)) {
+      throw new ResponseValidationError(endpoint, field, FIELD_DESCRIPTIONS[type], value);
+    }
+  }
+}
+
+const ACCOUNT_FIELDS: Record<string, FieldType> = {
+  balance: 'number',
+  spk: 'number',
+  broca: 'string',
+  poweredUp: 'number',
+  pubKey: 'string',
+  contracts: 'array',
+  file_contracts: 'object',
+  channels: 'object',
+  spk_power: 'number',
+  head_block: 'number',
+  liq_broca: 'number',
+  pow_broca: 'number',
+  gov: 'number',
+  spk_block: 'number',
+  granted: 'object',
+  granting: 'object',
+  pow: 'number',
+  power_downs: 'object',
+  drop: 'object',
+  claim: 'number',
+  tick: 'number',
+  behind: 'number',
+};
+
+/**
+ * Validate a /@username payload
+ */
+export function parseAccountData(payload: unknown, endpoint = '/@account'): SPKAccountData {
+  const data = expectObject(payload, endpoint);
+  checkFields(data, ACCOUNT_FIELDS, endpoint);
+
+  if (data.file_contracts) {
+    for (const [id, contract] of Object.entries(data.file_contracts)) {
+      expectObject(contract, endpoint, `file_contracts.${id}`);
+    }
+  }
+
+  return data as SPKAccountData;
+}
+
+/**
+ * Validate a /stats payload
+ */
+export function parseStats(payload: unknown, endpoint = '/stats'): SPKStatsResponse {
+  const data = expectObject(payload, endpoint);
+  const result = expectObject(data.result, endpoint, 'result');
+  checkFields(result, { channel_bytes: 'number', channel_min: 'number' }, endpoint);
+  return data as SPKStatsResponse;
+}
+
+/**
+ * Validate a /api/fileContract/:id payload. Nodes return the contract either
+ * directly or wrapped in `result`.
+ */
+export function parseFileContract(payload: unknown, endpoint = '/api/fileContract'): FileContract {
+  const data = expectObject(payload, endpoint);
+  const contract = data.i === undefined && matches(data.result, 'object') ? data.result : data;
+
+  checkFields(contract, { i: 'string', t: 'string', df: 'object', n: 'object' }, endpoint, ['i']);
+  return contract as FileContract;
+}
+
+/**
+ * Validate a /services/:type payload, defaulting missing collections to empty
+ */
+export function parseServices(payload: unknown, endpoint = '/services'): ServicesResponse {
+  const data = expectObject(payload, endpoint);
+  checkFields(data, { providers: 'object', services: 'array' }, endpoint);
+
+  const services = (data.services || []) as unknown[];
+  services.forEach((group, index) => expectObject(group, endpoint, `services[${index}]`));
+
+  return {
+    ...data,
+    providers: data.providers || {},
+    services: services as Array<Record<string, ServiceEntry>>,
+  };
+}
+
+/**
+ * Validate a storage provider /upload-stats payload
+ */
+export function parseUploadStats(payload: unknown, endpoint = '/upload-stats'): UploadStats {
+  const data = expectObject(payload, endpoint);
+  checkFields(data, { StorageMax: 'numeric', RepoSize: 'numeric' }, endpoint, ['StorageMax', 'RepoSize']);
+  return data as UploadStats;
+}
@@ -0,0 +1,130 @@
+/**
+ * Network profiles
+ * Bundle everything that differs between SPK networks - API nodes, gateways,
+ * custom_json prefixes, multisig account and Hive chain - so a network is
+ * chosen once in SPKConfig and every module reads it from there
+ */
+
+import { SPKError } from './errors';
+
+export type NetworkName = 'mainnet' | 'testnet';
+
+export interface NetworkProfile {
+  name: string;
+  /** SPK API nodes, the first one is the primary */
+  nodes: string[];
+  /** Gateway used to build file URLs, ending in /ipfs/ */
+  ipfsGateway: string;
+  /** Storage provider API for contracts that do not name one */
+  uploadApi: string;
+  /** custom_json id prefix per token */
+  jsonPrefixes: {
+    LARYNX: string;
+    SPK: string;
+    BROCA: string;
+  };
+  /** custom_json id prefix of storage contract operations (channel_open...) */
+  storagePrefix: string;
+  /** custom_json id of direct uploads */
+  directUploadId: string;
+  /** Multisig account holding the network's Hive funds */
+  multisig: string;
+  /** Hive chain the network's transactions are signed for */
+  chainId: string;
+  /** Hive API nodes */
+  hiveNodes: string[];
+}
+
+/**
+ * Overrides for a custom network, applied on top of a built-in profile
+ */
+export type NetworkProfileOverrides = Partial<Omit<NetworkProfile, 'jsonPrefixes'>> & {
+  jsonPrefixes?: Partial<NetworkProfile['jsonPrefixes']>;
+};
+
+const HIVE_CHAIN_ID = 'beeab0de00000000000000000000000000000000000000000000000000000000';
+
+const HIVE_NODES = [
+  'https://api.hive.blog',
+  'https://api.deathwing.me',
+  'https://hive-api.arcange.eu',
+  'https://api.openhive.network',
+];
+
+export const NETWORKS: Record<NetworkName, NetworkProfile> = {
+  mainnet: {
+    name: 'mainnet',
+    nodes: ['https://spkinstant.hivehoneycomb.com'],
+    ipfsGateway: 'https://ipfs.dlux.io/ipfs/',
+    uploadApi: 'https://ipfs.dlux.io',
+    jsonPrefixes: {
+      LARYNX: 'spkcc_',
+      SPK: 'spkcc_spk_',
+      BROCA: 'spkcc_broca_',
+    },
+    storagePrefix: 'spkcc_dlux_',
+    directUploadId: 'spkcc_dlux',
+    multisig: 'spk-cc',
+    chainId: HIVE_CHAIN_ID,
+    hiveNodes: HIVE_NODES,
+  },
+  testnet: {
+    name: 'testnet',
+    nodes: ['https://spktest.dlux.io'],
+    ipfsGateway: 'https://ipfs.dlux.io/ipfs/',
+    uploadApi: 'https://ipfs.dlux.io',
+    jsonPrefixes: {
+      LARYNX: 'spkccT_',
+      SPK: 'spkccT_spk_',
+      BROCA: 'spkccT_broca_',
+    },
+    storagePrefix: 'spkccT_',
+    directUploadId: 'spkcc_spktest',
+    multisig: 'spk-cc-test',
+    chainId: HIVE_CHAIN_ID,
+    hiveNodes: HIVE_NODES,
+  },
+};
+
+export const DEFAULT_NETWORK: NetworkName = 'testnet';
+
+/**
+ * Build a profile for a private network from a built-in one
+ */
+export function defineNetwork(
+  overrides: NetworkProfileOverrides,
+  base: NetworkName | NetworkProfile = DEFAULT_NETWORK
+): NetworkProfile {
+  const baseProfile = typeof base === 'string' ? getNetwork(base) : base;
+  return {
+    ...baseProfile,
+    ...overrides,
+    name: overrides.name || 'custom',
+    jsonPrefixes: { ...baseProfile.jsonPrefixes, ...(overrides.jsonPrefixes || {}) },
+  } as NetworkProfile;
+}
+
+export function getNetwork(name: NetworkName): NetworkProfile {
+  const profile = NETWORKS[name];
+  if (!profile) {
+    throw new SPKError(`Unknown network: ${name}`, 'UNKNOWN_NETWORK');
+  }
+  return profile;
+}
+
+/**
+ * Resolve a network option. Without one, the built-in profile that lists
+ * `node` is used. Other nodes are mainnet unless their URL contains
+ * "spktest", as before profiles existed; without a node the default
+ * network is used.
+ */
+export function resolveNetwork(network?: NetworkName | NetworkProfile, node?: string): NetworkProfile {
+  if (network) {
+    return typeof network === 'string' ? getNetwork(network) : network;
+  }
+  if (!node) {
+    return NETWORKS[DEFAULT_NETWORK];
+  }
+  const known = Object.values(NETWORKS).find(profile => profile.nodes.includes(node.replace(/\/+$/, '')));
+  return known || NETWORKS[node.includes('spktest') ? 'testnet' : 'mainnet'];
+}
@@ -0,0 +1,201 @@
+/**
+ * SPK API node pool
+ * Tracks latency, error rate and sync state of each configured SPK node
+ * so reads can be routed to the healthiest one
+ */
+
+export interface NodeHealth {
+  url: string;
+  latency: number; // Moving average in ms, 0 until measured
+  errorRate: number; // Moving average between 0 and 1
+  successes: number;
+  failures: number;
+  headBlock: number;
+  behind: number;
+  lastError?: string;
+  /** Last request, answered or not (ms) */
+  lastChecked: number;
+  /** Last answered request (ms), 0 if never */
+  lastSuccess: number;
+}
+
+export interface NodePoolOptions {
+  /** Weight of the newest sample in the moving averages (0-1) */
+  smoothing?: number;
+  /** Score given to nodes that have not been measured yet */
+  unmeasuredScore?: number;
+  /** Score penalty for an error rate of 1 (100% failures) */
+  errorPenalty?: number;
+  /** Score penalty per block a node is behind */
+  blockPenalty?: number;
+}
+
+const DEFAULT_POOL_OPTIONS: Required<NodePoolOptions> = {
+  smoothing: 0.3,
+  unmeasuredScore: 2000,
+  errorPenalty: 10000,
+  blockPenalty: 100,
+};
+
+export class SPKNodePool {
+  private health: Map<string, NodeHealth> = new Map();
+  private options: Required<NodePoolOptions>;
+
+  constructor(nodes: string[], options: NodePoolOptions = {}) {
+    this.options = { ...DEFAULT_POOL_OPTIONS, ...options };
+    nodes.forEach(node => this.add(node));
+  }
+
+  /**
+   * Configured nodes in priority order
+   */
+  get nodes(): string[] {
+    return Array.from(this.health.keys());
+  }
+
+  /**
+   * Add a node. With `primary` it is moved to the front of the list.
+   */
+  add(url: string, primary = false): void {
+    const node = url.replace(/\/+$/, '');
+    const existing = this.health.get(node) || {
+      url: node,
+      latency: 0,
+      errorRate: 0,
+      successes: 0,
+      failures: 0,
+      headBlock: 0,
+      behind: 0,
+      lastChecked: 0,
+      lastSuccess: 0,
+    };
+
+    if (primary) {
+      const rest = Array.from(this.health.entries()).filter(([key]) => key !== node);
+      this.health = new Map([[node, existing], ...rest]);
+    } else if (!this.health.has(node)) {
+      this.health.set(node, existing);
+    }
+  }
+
+  remove(url: string): void {
+    this.health.delete(url.replace(/\/+$/, ''));
+  }
+
+  getHealth(url: string): NodeHealth | undefined {
+    return this.health.get(url);
+  }
+
+  getAllHealth(): NodeHealth[] {
+    return Array.from(this.health.values()).map(entry => ({ ...entry }));
+  }
+
+  /**
+   * Score a node - lower is healthier
+   */
+  score(url: string): number {
+    const entry = this.health.get(url);
+    if (!entry) return Infinity;
+
+    const measured = entry.successes + entry.failures > 0;
+    const base = measured && entry.latency > 0 ? entry.latency : this.options.unmeasuredScore;
+
+    // Penalize nodes that are behind the chain or behind the best known head block
+    const lag = this.lag(url);
+
+    return base + entry.errorRate * this.options.errorPenalty + lag * this.options.blockPenalty;
+  }
+
+  /**
+   * Blocks a node is behind: what it reports, or how far its head block
+   * trails the highest one seen, whichever is more
+   */
+  lag(url: string): number {
+    const entry = this.health.get(url);
+    if (!entry) return 0;
+
+    const headLag = entry.headBlock > 0 ? this.highestHeadBlock() - entry.headBlock : 0;
+    return Math.max(entry.behind, headLag, 0);
+  }
+
+  /**
+   * Nodes ordered from healthiest to least healthy; ties keep configured order
+   */
+  ranked(): string[] {
+    return this.nodes
+      .map((url, index) => ({ url, index, score: this.score(url) }))
+      .sort((a, b) => a.score - b.score || a.index - b.index)
+      .map(entry => entry.url);
+  }
+
+  /**
+   * The healthiest node
+   */
+  best(): string {
+    return this.ranked()[0];
+  }
+
+  /**
+   * Record a successful response and any sync info it carried
+   */
+  recordSuccess(url: string, latency: number, payload?: any): void {
+    const entry = this.health.get(url);
+    if (!entry) return;
+
+    const { smoothing } = this.options;
+    entry.latency = entry.latency > 0 ? entry.latency * (1 - smoothing) + latency * smoothing : latency;
+    entry.errorRate = entry.errorRate * (1 - smoothing);
+    entry.successes++;
+    entry.lastChecked = Date.now();
+    entry.lastSuccess = entry.lastChecked;
+    entry.lastError = undefined;
+
+    const sync = extractSyncInfo(payload);
+    if (sync.headBlock !== undefined) entry.headBlock = sync.headBlock;
+    if (sync.behind !== undefined) entry.behind = sync.behind;
+  }
+
+  /**
+   * Record a failed request
+   */
+  recordFailure(url: string, error?: any): void {
+    const entry = this.health.get(url);
+    if (!entry) return;
+
+    const { smoothing } = this.options;
+    entry.errorRate = entry.errorRate * (1 - smoothing) + smoothing;
+    entry.failures++;
+    entry.lastChecked = Date.now();
+    entry.lastError = error?.message || String(error);
+  }
+
+  private highestHeadBlock(): number {
+    let highest = 0;
+    this.health.forEach(entry => {
+      if (entry.headBlock > highest) highest = entry.headBlock;
+    });
+    return highest;
+  }
+}
+
+/**
+ * Pull head_block / behind values out of an SPK node response.
+ * Account and root responses carry them at the top level, /stats nests them in `result`.
+ */
+export function extractSyncInfo(payload: any): { headBlock?: number; behind?: number } {
+  if (!payload || typeof payload !== 'object') return {};
+
+  const source = payload.head_block !== undefined || payload.behind !== undefined
+    ? payload
+    : payload.result && typeof payload.result === 'object'
+      ? payload.result
+      : {};
+
+  const headBlock = Number(source.head_block);
+  const behind = Number(source.behind);
+
+  return {
+    headBlock: Number.isFinite(headBlock) && headBlock > 0 ? headBlock : undefined,
+    behind: Number.isFinite(behind) && behind >= 0 ? behind : undefined,
+  };
+}
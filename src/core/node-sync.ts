@@ -0,0 +1,142 @@
+/**
+ * Node sync guard
+ * Checks how far the SPK node is behind the chain before the SDK broadcasts,
+ * so operations are not validated against balances that are hours old.
+ * Reports the sync state of every node for UIs.
+ */
+
+import type { SPKAPI } from './api';
+import type { NodeHealth } from './node-pool';
+import { NodeBehindError } from './errors';
+import { Logger, silentLogger } from './logger';
+
+/** What to do before broadcasting through a node that is too far behind */
+export type StaleNodeAction = 'warn' | 'refuse' | 'ignore';
+
+export interface NodeSyncPolicy {
+  /** Blocks the node may be behind (default 100, about 5 minutes) */
+  maxBehind?: number;
+  /** 'warn' logs and broadcasts, 'refuse' throws NodeBehindError (default 'warn') */
+  action?: StaleNodeAction;
+  /** Probe every configured node so a fresher one is used (default true) */
+  failover?: boolean;
+  /** Sync info older than this is refreshed before broadcasting, in ms (default 30000) */
+  maxAge?: number;
+}
+
+export interface NodeSyncStatus {
+  /** Node reads currently go to */
+  node: string;
+  headBlock: number;
+  /** Blocks behind the chain or the most recent node, whichever is more */
+  behind: number;
+  /** Whether the node answers and behind is within the policy's maxBehind */
+  synced: boolean;
+  /** False when the last request to the node failed or none was made */
+  responding: boolean;
+  /** When the node last answered (ms), 0 if never */
+  checkedAt: number;
+  /** Health of every configured node */
+  nodes: NodeHealth[];
+}
+
+const DEFAULT_POLICY: Required<NodeSyncPolicy> = {
+  maxBehind: 100,
+  action: 'warn',
+  failover: true,
+  maxAge: 30000,
+};
+
+export class NodeSyncGuard {
+  public readonly policy: Required<NodeSyncPolicy>;
+  private api: SPKAPI;
+  private logger: Logger;
+
+  constructor(api: SPKAPI, policy: NodeSyncPolicy = {}) {
+    this.api = api;
+    this.logger = api.logger || silentLogger;
+    this.policy = { ...DEFAULT_POLICY, ...policy };
+  }
+
+  /**
+   * Sync status from what the nodes reported so far, without a request
+   */
+  status(): NodeSyncStatus {
+    const node = this.api.node;
+    const health = this.api.pool.getHealth(node);
+    const behind = this.api.pool.lag(node);
+    // behind is only as recent as the last answer; lastError is cleared by the next one
+    const responding = !!health && health.lastSuccess > 0 && health.lastError === undefined;
+
+    return {
+      node,
+      headBlock: health?.headBlock || 0,
+      behind,
+      synced: responding && behind <= this.policy.maxBehind,
+      responding,
+      checkedAt: health?.lastSuccess || 0,
+      nodes: this.api.getNodeHealth(),
+    };
+  }
+
+  /**
+   * Ask the nodes for their sync state. With failover every configured node
+   * is probed, so reads move to the freshest one.
+   */
+  async refresh(): Promise<NodeSyncStatus> {
+    if (this.policy.failover) {
+      await this.api.checkNodes();
+    } else {
+      // Any account or stats response carries head_block and behind
+      await this.api.request('GET', '/stats').catch(error => {
+        this.logger.debug('SPK node sync check failed', { operation: 'sync.refresh', error });
+      });
+    }
+    return this.status();
+  }
+
+  /**
+   * Apply the policy before a broadcast: refresh stale sync info, then warn
+   * or throw NodeBehindError when the node is too far behind
+   */
+  async check(operation = 'broadcast'): Promise<NodeSyncStatus> {
+    if (this.policy.action === 'ignore') {
+      return this.status();
+    }
+
+    let status = this.status();
+    if (!status.synced || Date.now() - status.checkedAt >= this.policy.maxAge) {
+      status = await this.refresh();
+    }
+    if (status.synced) {
+      return status;
+    }
+
+    if (!status.responding) {
+      if (this.policy.action === 'refuse') {
+        throw new NodeBehindError(
+          status.node,
+          status.behind,
+          this.policy.maxBehind,
+          `SPK node ${status.node} is not responding, its sync state is unknown`
+        );
+      }
+      this.logger.warn('SPK node is not responding, balances may be stale', {
+        operation,
+        node: status.node,
+        checkedAt: status.checkedAt,
+      });
+      return status;
+    }
+    if (this.policy.action === 'refuse') {
+      throw new NodeBehindError(status.node, status.behind, this.policy.maxBehind);
+    }
+    this.logger.warn('SPK node is behind, balances may be stale', {
+      operation,
+      node: status.node,
+      behind: status.behind,
+      maxBehind: this.policy.maxBehind,
+    });
+    return status;
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Persistent protocol cache
+ * Stores the protocol definitions a node advertised so they survive
+ * restarts, versions them by content and diffs new definitions against the
+ * cached ones
+ */
+
+import type { TokenProtocol, FieldConfig } from './protocol';
+
+export interface StoredProtocols {
+  /** Content hash of the definitions, see protocolVersion */
+  version: string;
+  /** When the definitions were fetched (ms) */
+  fetchedAt: number;
+  /** Pinned definitions are kept when the node advertises others */
+  pinned: boolean;
+  protocols: Record<string, TokenProtocol>;
+}
+
+export interface ProtocolStore {
+  load(key: string): StoredProtocols | null | Promise<StoredProtocols | null>;
+  save(key: string, record: StoredProtocols): void | Promise<void>;
+}
+
+/**
+ * Keeps definitions in memory; share one instance between SPK instances
+ */
+export class MemoryProtocolStore implements ProtocolStore {
+  private records: Map<string, string> = new Map();
+
+  load(key: string): StoredProtocols | null {
+    const record = this.records.get(key);
+    return record ? JSON.parse(record) : null;
+  }
+
+  save(key: string, record: StoredProtocols): void {
+    this.records.set(key, JSON.stringify(record));
+  }
+}
+
+/**
+ * Browser store backed by localStorage (or any Web Storage)
+ */
+export class LocalStorageProtocolStore implements ProtocolStore {
+  private storage: Pick<Storage, 'getItem' | 'setItem'>;
+  private prefix: string;
+
+  constructor(storage: Pick<Storage, 'getItem' | 'setItem'> = globalThis.localStorage, prefix = 'spk-js:protocols:') {
+    this.storage = storage;
+    this.prefix = prefix;
+  }
+
+  load(key: string): StoredProtocols | null {
+    const record = this.storage.getItem(this.prefix + key);
+    return record ? JSON.parse(record) : null;
+  }
+
+  save(key: string, record: StoredProtocols): void {
+    this.storage.setItem(this.prefix + key, JSON.stringify(record));
+  }
+}
+
+export interface ProtocolFileSystem {
+  readFile(path: string, encoding: 'utf8'): Promise<string>;
+  writeFile(path: string, data: string): Promise<void>;
+}
+
+/**
+ * Node store keeping every node's definitions in one JSON file. Pass
+ * `require('fs').promises`; the SDK does not import fs so browser bundles
+ * stay free of it.
+ */
+export class FileProtocolStore implements ProtocolStore {
+  private path: string;
+  private fs: ProtocolFileSystem;
+
+  constructor(path: string, fs: ProtocolFileSystem) {
+    this.path = path;
+    this.fs = fs;
+  }
+
+  async load(key: string): Promise<StoredProtocols | null> {
+    return (await this.readAll())[key] || null;
+  }
+
+  async save(key: string, record: StoredProtocols): Promise<void> {
+    const records = await this.readAll();
+    records[key] = record;
+    await this.fs.writeFile(this.path, JSON.stringify(records, null, 2));
+  }
+
+  private async readAll(): Promise<Record<string, StoredProtocols>> {
+    try {
+      return JSON.parse(await this.fs.readFile(this.path, 'utf8'));
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') return {};
+      throw error;
+    }
+  }
+}
+
+export type ProtocolChange =
+  | { type: 'featureAdded' | 'featureRemoved'; token: string; feature: string }
+  | { type: 'authChanged'; token: string; feature: string; previous: string; current: string }
+  | {
+      type: 'fieldsChanged';
+      token: string;
+      feature: string;
+      previous: Record<string, FieldConfig>;
+      current: Record<string, FieldConfig>;
+    }
+  | { type: 'prefixChanged' | 'multisigChanged'; token: string; previous: string; current: string }
+  | { type: 'precisionChanged'; token: string; previous: number; current: number };
+
+/**
+ * JSON with sorted keys, so equal definitions serialize equally
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .sort()
+      .filter(key => value[key] !== undefined)
+      .map(key => `${JSON.stringify(key)}:${stableStringify(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/**
+ * Content version of protocol definitions: FNV-1a of their sorted JSON.
+ * api_health changes every block and is left out.
+ */
+export function protocolVersion(protocols: Record<string, TokenProtocol>): string {
+  const definitions = Object.fromEntries(
+    Object.entries(protocols).map(([token, protocol]) => [token, { ...protocol, api_health: undefined }])
+  );
+  const text = stableStringify(definitions);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+/**
+ * What changed between two sets of definitions, token by token
+ */
+export function diffProtocols(
+  previous: Record<string, TokenProtocol>,
+  current: Record<string, TokenProtocol>
+): ProtocolChange[] {
+  const changes: ProtocolChange[] = [];
+
+  for (const token of Object.keys(current)) {
+    const before = previous[token];
+    const after = current[token];
+    if (!before) continue;
+
+    if (before.jsonPrefix !== after.jsonPrefix) {
+      changes.push({ type: 'prefixChanged', token, previous: before.jsonPrefix, current: after.jsonPrefix });
+    }
+    if (before.precision !== after.precision) {
+      changes.push({ type: 'precisionChanged', token, previous: before.precision, current: after.precision });
+    }
+    if (before.multisig !== after.multisig) {
+      changes.push({ type: 'multisigChanged', token, previous: before.multisig, current: after.multisig });
+    }
+
+    for (const feature of Object.keys(before.features)) {
+      if (!after.features[feature]) {
+        changes.push({ type: 'featureRemoved', token, feature });
+      }
+    }
+    for (const [feature, config] of Object.entries(after.features)) {
+      const old = before.features[feature];
+      if (!old) {
+        changes.push({ type: 'featureAdded', token, feature });
+        continue;
+      }
+      if (old.auth !== config.auth) {
+        changes.push({ type: 'authChanged', token, feature, previous: old.auth, current: config.auth });
+      }
+      if (stableStringify(old.json) !== stableStringify(config.json)) {
+        changes.push({ type: 'fieldsChanged', token, feature, previous: old.json, current: config.json });
+      }
+    }
+  }
+
+  return changes;
+}
@@ -3,6 +3,23 @@
  * Fetched from protocol APIs and cached with validation
  */
 
+import { EventEmitter } from 'events';
+import { SPKAPI } from './api';
+import { NetworkProfile, NETWORKS, DEFAULT_NETWORK } from './network';
+import { Logger, silentLogger } from './logger';
+import { SPKError, HTTPStatusError, toSPKError } from './errors';
+import {
+  ACCOUNT_NAME_PATTERN,
+  FeatureDescriptor,
+  FeatureForm,
+  FeatureJSONSchema,
+  featureToForm,
+  featureToJSONSchema,
+  isAmountField,
+} from './feature-schema';
+import { ProtocolStore, ProtocolChange, diffProtocols, protocolVersion } from './protocol-store';
+import { TokenRegistry, TokenDefinition, TokenBalanceFields, honeycombFeatures } from './token-registry';
+
 export interface TokenProtocol {
   precision: number;
   jsonPrefix: string;
@@ -29,12 +46,54 @@ export interface FieldConfig {
   max?: number;
 }
 
+const DEFAULT_PROFILE = NETWORKS[DEFAULT_NETWORK];
+
+export interface ProtocolManagerOptions {
+  /** Where fetched definitions are kept between runs; keyed by node URL */
+  store?: ProtocolStore;
+  /** How long fetched definitions are used before refetching, in ms (default 1 hour) */
+  cacheDuration?: number;
+  /** Tokens beyond LARYNX, SPK and BROCA, see TokenRegistry */
+  tokens?: TokenDefinition[];
+}
+
+export interface ProtocolChangeEvent {
+  changes: ProtocolChange[];
+  previousVersion: string;
+  version: string;
+  /** False when the definitions are pinned and the change was not taken */
+  applied: boolean;
+}
+
+export interface ProtocolManagerEvents {
+  change: (event: ProtocolChangeEvent) => void;
+}
+
+type ProtocolEventName = keyof ProtocolManagerEvents;
+
+/**
+ * A feature operation validated against the advertised schema, ready to sign
+ */
+export interface PreparedOperation {
+  token: string;
+  feature: string;
+  /** custom_json id */
+  id: string;
+  auth: 'posting' | 'active';
+  /** Feature description from the protocol */
+  desc: string;
+  /** Params converted to what the node expects (amounts in base units) */
+  json: Record<string, any>;
+}
+
+const ACCOUNT_NAME = new RegExp(ACCOUNT_NAME_PATTERN);
+
 // Default protocol configurations (as of 2025-01-07)
 export const DEFAULT_PROTOCOLS: Record<string, TokenProtocol> = {
   LARYNX: {
     precision: 3,
-    jsonPrefix: 'spkccT_',
-    multisig: 'spk-cc-test',
+    jsonPrefix: DEFAULT_PROFILE.jsonPrefixes.LARYNX,
+    multisig: DEFAULT_PROFILE.multisig,
     features: {
       claim: {
         desc: 'Claim earned LARYNX rewards',
@@ -63,6 +122,20 @@ export const DEFAULT_PROTOCOLS: Record<string, TokenProtocol> = {
           amount: { type: 'I', name: 'Amount', req: true, min: 1 }
         },
         auth: 'active'
+      },
+      gov_up: {
+        desc: 'Lock LARYNX for governance',
+        json: {
+          amount: { type: 'I', name: 'Amount', req: true, min: 1 }
+        },
+        auth: 'active'
+      },
+      gov_down: {
+        desc: 'Unlock LARYNX from governance',
+        json: {
+          amount: { type: 'I', name: 'Amount', req: true, min: 1 }
+        },
+        auth: 'active'
       }
     },
     api_health: {
@@ -72,8 +145,8 @@ export const DEFAULT_PROTOCOLS: Record<string, TokenProtocol> = {
   },
   SPK: {
     precision: 3,
-    jsonPrefix: 'spkccT_spk_',
-    multisig: 'spk-cc-test',
+    jsonPrefix: DEFAULT_PROFILE.jsonPrefixes.SPK,
+    multisig: DEFAULT_PROFILE.multisig,
     features: {
       claim: {
         desc: 'Claim SPK Rewards',
@@ -103,6 +176,14 @@ export const DEFAULT_PROTOCOLS: Record<string, TokenProtocol> = {
         },
         auth: 'active'
       },
+      power_grant: {
+        desc: 'Delegate SPK Power, 0 removes the delegation',
+        json: {
+          to: { type: 'AS', name: 'Delegate To', req: true, check: 'AC' },
+          amount: { type: 'I', name: 'Amount', req: true, min: 0 }
+        },
+        auth: 'active'
+      },
       node_add: {
         desc: 'Register your account with the validator network',
         json: {
@@ -121,8 +202,8 @@ export const DEFAULT_PROTOCOLS: Record<string, TokenProtocol> = {
   },
   BROCA: {
     precision: 0,
-    jsonPrefix: 'spkccT_broca_',
-    multisig: 'spk-cc-test',
+    jsonPrefix: DEFAULT_PROFILE.jsonPrefixes.BROCA,
+    multisig: DEFAULT_PROFILE.multisig,
     features: {
       send: {
         desc: 'Send BROCA tokens',
@@ -139,6 +220,14 @@ export const DEFAULT_PROTOCOLS: Record<string, TokenProtocol> = {
           amount: { type: 'I', name: 'Amount', req: true, min: 1 }
         },
         auth: 'active'
+      },
+      power_grant: {
+        desc: 'Delegate BROCA Power, 0 removes the delegation',
+        json: {
+          to: { type: 'AS', name: 'Delegate To', req: true, check: 'AC' },
+          amount: { type: 'I', name: 'Amount', req: true, min: 0 }
+        },
+        auth: 'active'
       }
     },
     api_health: {
@@ -148,24 +237,148 @@ export const DEFAULT_PROTOCOLS: Record<string, TokenProtocol> = {
   }
 };
 
-export class ProtocolManager {
+// Where the built-in tokens publish their protocol and keep their balances
+const BUILTIN_TOKENS: Record<string, { protocolEndpoint: string; balances: TokenBalanceFields }> = {
+  LARYNX: { protocolEndpoint: '/api/protocol', balances: { liquid: 'balance', powered: 'poweredUp', claimable: 'claim' } },
+  SPK: { protocolEndpoint: '/spk/api/protocol', balances: { liquid: 'spk', powered: 'spk_power' } },
+  BROCA: { protocolEndpoint: '/broca/api/protocol', balances: { liquid: 'liq_broca', powered: 'pow_broca' } },
+};
+
+export class ProtocolManager extends EventEmitter {
+  /** Tokens whose protocols are fetched; register more with registerToken() */
+  public readonly tokens: TokenRegistry = new TokenRegistry();
   private protocols: Map<string, TokenProtocol> = new Map();
+  /** Node the stored protocols are keyed by; requests go to api.node */
   private node: string;
+  private api: SPKAPI;
+  private logger: Logger;
+  private network: NetworkProfile;
+  private store?: ProtocolStore;
   private lastFetch: number = 0;
   private CACHE_DURATION = 3600000; // 1 hour
-
-  constructor(node: string) {
+  private currentVersion: string;
+  private isPinned = false;
+  /** Whether the definitions came from a node (fetched or stored) rather than the defaults */
+  private fromNode = false;
+  private restored?: Promise<void>;
+
+  constructor(
+    node: string,
+    api: SPKAPI = new SPKAPI(node),
+    network: NetworkProfile = DEFAULT_PROFILE,
+    options: ProtocolManagerOptions = {}
+  ) {
+    super();
     this.node = node;
-    // Initialize with defaults
+    this.api = api;
+    this.logger = api.logger || silentLogger;
+    this.network = network;
+    this.store = options.store;
+    if (options.cacheDuration !== undefined) {
+      this.CACHE_DURATION = options.cacheDuration;
+    }
+    // Initialize with defaults for the network; copies, so updates stay per instance
     Object.entries(DEFAULT_PROTOCOLS).forEach(([token, protocol]) => {
-      this.protocols.set(token, protocol);
+      const defaults = {
+        ...protocol,
+        jsonPrefix: network.jsonPrefixes[token as keyof NetworkProfile['jsonPrefixes']],
+        multisig: network.multisig,
+        api_health: { ...protocol.api_health },
+      };
+      const { precision, jsonPrefix, multisig, features } = defaults;
+      this.tokens.register({ symbol: token, ...BUILTIN_TOKENS[token], precision, jsonPrefix, multisig, features });
+      this.protocols.set(token, defaults);
     });
+    (options.tokens || []).forEach(definition => this.addToken(definition));
+    this.currentVersion = protocolVersion(this.snapshot());
+  }
+
+  on<E extends ProtocolEventName>(event: E, listener: ProtocolManagerEvents[E]): this {
+    return super.on(event, listener as (...args: any[]) => void);
+  }
+
+  once<E extends ProtocolEventName>(event: E, listener: ProtocolManagerEvents[E]): this {
+    return super.once(event, listener as (...args: any[]) => void);
+  }
+
+  off<E extends ProtocolEventName>(event: E, listener: ProtocolManagerEvents[E]): this {
+    return super.off(event, listener as (...args: any[]) => void);
+  }
+
+  emit<E extends ProtocolEventName>(event: E, ...args: Parameters<ProtocolManagerEvents[E]>): boolean {
+    return super.emit(event, ...args);
+  }
+
+  /**
+   * Add a token that follows the protocol-endpoint convention. Its defaults
+   * are used until the next updateProtocols() reads its endpoint.
+   */
+  registerToken(definition: TokenDefinition): TokenDefinition {
+    const registered = this.addToken(definition);
+    this.currentVersion = protocolVersion(this.snapshot());
+    this.lastFetch = 0;
+    return registered;
+  }
+
+  private addToken(definition: TokenDefinition): TokenDefinition {
+    const registered = this.tokens.register(definition);
+    this.protocols.set(registered.symbol, {
+      precision: registered.precision,
+      jsonPrefix: registered.jsonPrefix,
+      multisig: registered.multisig || this.network.multisig,
+      features: registered.features || honeycombFeatures(registered.symbol),
+      api_health: { head_block: 0, behind: 0 },
+    });
+    return registered;
+  }
+
+  /**
+   * Content version of the definitions in use, see protocolVersion
+   */
+  get version(): string {
+    return this.currentVersion;
+  }
+
+  get pinned(): boolean {
+    return this.isPinned;
+  }
+
+  /**
+   * Keep the current definitions even when the node advertises others.
+   * Pass the version you validated against to fail if they already moved on.
+   * Only definitions fetched from the node can be pinned, not the defaults.
+   */
+  async pin(version?: string): Promise<void> {
+    await this.restore();
+    if (!this.fromNode) {
+      throw new SPKError('No protocol definitions from the node to pin yet', 'INVALID_OPERATION');
+    }
+    if (version !== undefined && version !== this.currentVersion) {
+      throw new SPKError(
+        `Cannot pin protocol version ${version}, the current version is ${this.currentVersion}`,
+        'INVALID_OPERATION'
+      );
+    }
+    this.isPinned = true;
+    await this.persist();
+  }
+
+  /**
+   * Follow the node again; the next updateProtocols() refetches
+   */
+  async unpin(): Promise<void> {
+    await this.restore();
+    this.isPinned = false;
+    this.lastFetch = 0;
+    await this.persist();
   }
 
   /**
    * Fetch and update protocol configurations from the network
    */
   async updateProtocols(): Promise<void> {
+    await this.restore();
+
     const now = Date.now();
     if (now - this.lastFetch < this.CACHE_DURATION) {
       return; // Use cached data
@@ -173,39 +386,112 @@ export class ProtocolManager {
 
     try {
       // Fetch all protocols in parallel
-      const [larynxData, spkData, brocaData] = await Promise.all([
-        this.fetchProtocol('/api/protocol'),
-        this.fetchProtocol('/spk/api/protocol'),
-        this.fetchProtocol('/broca/api/protocol')
-      ]);
+      const tokens = this.tokens.list();
+      const fetched = await Promise.all(tokens.map(token => this.fetchProtocol(token.protocolEndpoint)));
+
+      // Nothing came from the node: store nothing and fetch again next time
+      if (!fetched.some(Boolean)) {
+        this.logger.warn(`No protocol definitions fetched, using the ${this.fromNode ? 'stored' : 'default'} ones`, {
+          operation: 'protocol.update',
+        });
+        return;
+      }
 
       // Update protocols if fetch was successful
-      if (larynxData) this.updateProtocol('LARYNX', larynxData);
-      if (spkData) this.updateProtocol('SPK', spkData);
-      if (brocaData) this.updateProtocol('BROCA', brocaData);
+      const previous = this.snapshot();
+      const next: Record<string, TokenProtocol> = JSON.parse(JSON.stringify(previous));
+      tokens.forEach(({ symbol }, i) => {
+        if (fetched[i]) this.updateProtocol(next[symbol], fetched[i]);
+      });
+
+      // The defaults are no baseline: replacing them is not a change
+      const changes = this.fromNode || this.isPinned ? diffProtocols(previous, next) : [];
+      const version = protocolVersion(next);
+      const event = { changes, previousVersion: this.currentVersion, version };
+
+      if (this.isPinned && changes.length) {
+        this.logger.warn('Node advertises protocol changes, keeping pinned version', {
+          operation: 'protocol.update',
+          version: this.currentVersion,
+          advertised: version,
+        });
+        this.emit('change', { ...event, applied: false });
+      } else {
+        Object.entries(next).forEach(([token, protocol]) => this.protocols.set(token, protocol));
+        this.currentVersion = version;
+        this.fromNode = true;
+        if (changes.length) {
+          this.emit('change', { ...event, applied: true });
+        }
+      }
 
       this.lastFetch = now;
+      await this.persist();
     } catch (error) {
-      console.warn('Failed to update protocols, using defaults:', error);
+      this.logger.warn('Failed to update protocols, using defaults', { operation: 'protocol.update', error });
     }
   }
 
+  /**
+   * Load the stored definitions once, before the first fetch
+   */
+  private restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.loadStored();
+    }
+    return this.restored;
+  }
+
+  private async loadStored(): Promise<void> {
+    if (!this.store) return;
+    try {
+      const record = await this.store.load(this.node);
+      if (!record) return;
+      Object.entries(record.protocols).forEach(([token, protocol]) => {
+        if (this.protocols.has(token)) this.protocols.set(token, protocol);
+      });
+      this.currentVersion = record.version;
+      this.isPinned = record.pinned;
+      this.lastFetch = record.fetchedAt;
+      this.fromNode = true;
+    } catch (error) {
+      this.logger.warn('Failed to load stored protocols', { operation: 'protocol.restore', error });
+    }
+  }
+
+  private async persist(): Promise<void> {
+    if (!this.store || (!this.fromNode && !this.isPinned)) return;
+    try {
+      await this.store.save(this.node, {
+        version: this.currentVersion,
+        fetchedAt: this.lastFetch,
+        pinned: this.isPinned,
+        protocols: this.snapshot(),
+      });
+    } catch (error) {
+      this.logger.warn('Failed to store protocols', { operation: 'protocol.persist', error });
+    }
+  }
+
+  private snapshot(): Record<string, TokenProtocol> {
+    return Object.fromEntries(this.protocols);
+  }
+
   private async fetchProtocol(endpoint: string): Promise<any> {
     try {
-      const response = await fetch(`${this.node}${endpoint}`);
+      const url = /^https?:\/\//.test(endpoint) ? endpoint : `${this.api.node}${endpoint}`;
+      const response = await this.api.fetch(url);
       if (!response.ok) {
         throw new Error(`HTTP ${response.status}`);
       }
       return await response.json();
     } catch (error) {
-      console.warn(`Failed to fetch ${endpoint}:`, error);
+      this.logger.warn('Failed to fetch protocol', { operation: 'protocol.fetch', endpoint, error });
       return null;
     }
   }
 
-  private updateProtocol(token: string, data: any): void {
-    const protocol = this.protocols.get(token);
-    if (!protocol) return;
+  private updateProtocol(protocol: TokenProtocol, data: any): void {
 
     // Update precision if available
     if (data.precision !== undefined) {
@@ -328,6 +614,161 @@ export class ProtocolManager {
     }
   }
 
+  /**
+   * Validate params against the feature schema the node advertises and
+   * convert them for broadcast. Unknown params are rejected; `amount` fields
+   * take base units (integers) or token units as a string ("1.5" or
+   * "1.500 LARYNX"); account fields with check 'AC' must exist on the node.
+   */
+  async prepareOperation(token: string, feature: string, params: Record<string, any>): Promise<PreparedOperation> {
+    const operation = this.buildOperation(token, feature, params);
+    await this.checkAccounts(operation);
+    return operation;
+  }
+
+  /**
+   * The local part of prepareOperation: schema validation and conversion,
+   * without the account lookups
+   */
+  buildOperation(token: string, feature: string, params: Record<string, any>): PreparedOperation {
+    const { symbol, protocol, config: featureConfig } = this.getFeature(token, feature);
+
+    for (const field of Object.keys(params)) {
+      if (!featureConfig.json[field]) {
+        throw new SPKError(`Unknown field ${field} for ${symbol} ${feature}`, 'INVALID_OPERATION');
+      }
+    }
+
+    const json: Record<string, any> = {};
+    for (const [field, config] of Object.entries(featureConfig.json)) {
+      const value = params[field];
+      if (config.req && (value === undefined || value === null || value === '')) {
+        throw new SPKError(`Missing required field: ${field}`, 'INVALID_OPERATION');
+      }
+      if (value === undefined || value === null) {
+        continue;
+      }
+      json[field] = this.convertField(symbol, protocol.precision, field, config, value);
+    }
+
+    return {
+      token: symbol,
+      feature,
+      id: `${protocol.jsonPrefix}${feature}`,
+      auth: featureConfig.auth,
+      desc: featureConfig.desc,
+      json,
+    };
+  }
+
+  /**
+   * The remote part of prepareOperation: account fields with check 'AC'
+   * must exist on the node
+   */
+  async checkAccounts(operation: PreparedOperation): Promise<void> {
+    const { config: featureConfig } = this.getFeature(operation.token, operation.feature);
+    for (const [field, config] of Object.entries(featureConfig.json)) {
+      if (config.check === 'AC' && operation.json[field] !== undefined) {
+        const name = operation.json[field];
+        const account = await this.api.get(`/@${name}`).catch(error => {
+          // Only a missing account is invalid; a node that cannot answer says nothing about it
+          if (error instanceof HTTPStatusError && error.status === 404) return null;
+          throw toSPKError(error, `Failed to check account ${name}`);
+        });
+        if (!account) {
+          throw new SPKError(`Invalid account for ${field}: ${name}`, 'INVALID_ACCOUNT');
+        }
+      }
+    }
+  }
+
+  private convertField(token: string, precision: number, field: string, config: FieldConfig, value: any): string | number {
+    if (config.type === 'I') {
+      let number = value;
+      if (typeof value === 'string') {
+        number = isAmountField(field, config) ? this.parseTokenUnits(token, precision, value) : Number(value.trim() || NaN);
+      }
+      if (typeof number !== 'number' || !Number.isSafeInteger(number)) {
+        throw new SPKError(`Field ${field} must be an integer`, 'INVALID_OPERATION');
+      }
+      if (config.min !== undefined && number < config.min) {
+        throw new SPKError(`Field ${field} must be at least ${config.min}`, 'INVALID_OPERATION');
+      }
+      if (config.max !== undefined && number > config.max) {
+        throw new SPKError(`Field ${field} must be at most ${config.max}`, 'INVALID_OPERATION');
+      }
+      return number;
+    }
+
+    if (typeof value !== 'string') {
+      throw new SPKError(`Field ${field} must be a string`, 'INVALID_OPERATION');
+    }
+    if (config.type === 'AS') {
+      const account = value.trim().replace(/^@/, '').toLowerCase();
+      if (!ACCOUNT_NAME.test(account)) {
+        throw new SPKError(`Field ${field} must be a Hive account name`, 'INVALID_OPERATION');
+      }
+      return account;
+    }
+    return value;
+  }
+
+  /**
+   * Token units to base units: "1.5" or "1.500 LARYNX" with precision 3 is 1500
+   */
+  private parseTokenUnits(token: string, precision: number, value: string): number {
+    const match = value.trim().match(/^(\d+(?:\.\d+)?)(?:\s+([A-Z]+))?$/i);
+    if (!match || (match[2] && match[2].toUpperCase() !== token)) {
+      throw new SPKError(`Invalid ${token} amount: ${value}`, 'INVALID_OPERATION');
+    }
+    const [whole, fraction = ''] = match[1].split('.');
+    if (fraction.length > precision) {
+      throw new SPKError(`${token} amounts have at most ${precision} decimals: ${value}`, 'INVALID_OPERATION');
+    }
+    return Number(whole + fraction.padEnd(precision, '0'));
+  }
+
+  /**
+   * JSON Schema of the payload a feature broadcasts
+   */
+  getFeatureSchema(token: string, feature: string): FeatureJSONSchema {
+    const { symbol, protocol, config } = this.getFeature(token, feature);
+    return featureToJSONSchema(symbol, feature, config, protocol.precision);
+  }
+
+  /**
+   * Form descriptor (labels, inputs, bounds, account and precision hints) of a feature
+   */
+  getFeatureForm(token: string, feature: string): FeatureForm {
+    const { symbol, protocol, config } = this.getFeature(token, feature);
+    return featureToForm(symbol, feature, config, protocol.precision);
+  }
+
+  /**
+   * Schema and form of every feature of a token, or of all tokens
+   */
+  getFeatureDescriptors(token?: string): FeatureDescriptor[] {
+    const tokens = token ? [token.toUpperCase()] : Array.from(this.protocols.keys());
+    return tokens.flatMap(symbol =>
+      Object.keys(this.getProtocol(symbol)?.features || {}).map(feature => ({
+        token: symbol,
+        feature,
+        schema: this.getFeatureSchema(symbol, feature),
+        form: this.getFeatureForm(symbol, feature),
+      }))
+    );
+  }
+
+  private getFeature(token: string, feature: string): { symbol: string; protocol: TokenProtocol; config: FeatureConfig } {
+    const symbol = token.toUpperCase();
+    const protocol = this.getProtocol(symbol);
+    const config = protocol?.features[feature];
+    if (!protocol || !config) {
+      throw new SPKError(`Unknown feature: ${feature} for token ${symbol}`, 'UNSUPPORTED_FEATURE');
+    }
+    return { symbol, protocol, config };
+  }
+
   /**
    * Get auth type for a feature
    */
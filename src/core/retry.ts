@@ -0,0 +1,141 @@
+/**
+ * Retry policy shared by SPKAPI and HiveClient
+ * Classifies failures, computes backoff with jitter (or honours Retry-After)
+ * and stops at a retry count or total deadline, whichever comes first
+ */
+
+import { SPKError, NetworkError, TimeoutError, HTTPStatusError } from './errors';
+
+export interface RetryPolicyOptions {
+  /** Retries after the first attempt (default 3) */
+  maxRetries?: number;
+  /** Delay before the first retry in ms, doubled for every retry (default 1000) */
+  baseDelay?: number;
+  /** Upper bound for a single delay in ms (default 30000) */
+  maxDelay?: number;
+  /** Fraction of each delay that is randomized, 0-1 (default 0.5) */
+  jitter?: number;
+  /** Give up once this many ms have passed since the first attempt (default 60000) */
+  deadline?: number;
+  /** Retry non-idempotent requests such as POST (default false) */
+  retryNonIdempotent?: boolean;
+  /** Retry requests that timed out (default false - they already waited the full timeout) */
+  retryTimeouts?: boolean;
+  /** Override the built-in classification */
+  shouldRetry?: (error: any, attempt: number) => boolean;
+}
+
+export interface RetryContext {
+  /** Whether repeating the request is safe; defaults to true */
+  idempotent?: boolean;
+}
+
+const DEFAULT_RETRY_OPTIONS: Required<Omit<RetryPolicyOptions, 'shouldRetry'>> = {
+  maxRetries: 3,
+  baseDelay: 1000,
+  maxDelay: 30000,
+  jitter: 0.5,
+  deadline: 60000,
+  retryNonIdempotent: false,
+  retryTimeouts: false,
+};
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into ms
+ */
+export function parseRetryAfter(value: string | null | undefined, now = Date.now()): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (value.trim() !== '' && Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+export class RetryPolicy {
+  public options: Required<Omit<RetryPolicyOptions, 'shouldRetry'>>;
+  private shouldRetry?: (error: any, attempt: number) => boolean;
+
+  constructor(options: RetryPolicyOptions = {}) {
+    const { shouldRetry, ...rest } = options;
+    this.options = { ...DEFAULT_RETRY_OPTIONS, ...stripUndefined(rest) };
+    this.shouldRetry = shouldRetry;
+  }
+
+  get maxRetries(): number {
+    return this.options.maxRetries;
+  }
+
+  set maxRetries(value: number) {
+    this.options.maxRetries = value;
+  }
+
+  /**
+   * Whether an error can be fixed by trying again
+   */
+  isRetryable(error: any, attempt = 0): boolean {
+    if (this.shouldRetry) {
+      return this.shouldRetry(error, attempt);
+    }
+    if (error instanceof TimeoutError) {
+      return this.options.retryTimeouts;
+    }
+    if (error instanceof HTTPStatusError) {
+      return error.retryable;
+    }
+    if (error instanceof NetworkError) {
+      return true;
+    }
+    // Validation, signer and other SDK errors will fail the same way again
+    return !(error instanceof SPKError);
+  }
+
+  /**
+   * Delay before retry number `attempt` (0 based)
+   */
+  delay(attempt: number, error?: any): number {
+    const { baseDelay, maxDelay, jitter } = this.options;
+
+    if (error instanceof HTTPStatusError && error.retryAfter !== undefined) {
+      return Math.min(error.retryAfter, maxDelay);
+    }
+
+    const exponential = Math.min(baseDelay * Math.pow(2, attempt), maxDelay);
+    return exponential * (1 - jitter * Math.random());
+  }
+
+  /**
+   * Run `operation` until it succeeds, fails with a non-retryable error,
+   * runs out of retries or would pass the deadline
+   */
+  async execute<T>(operation: (attempt: number) => Promise<T>, context: RetryContext = {}): Promise<T> {
+    const { maxRetries, deadline, retryNonIdempotent } = this.options;
+    const canRetry = context.idempotent !== false || retryNonIdempotent;
+    const started = Date.now();
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await operation(attempt);
+      } catch (error) {
+        if (!canRetry || attempt >= maxRetries || !this.isRetryable(error, attempt)) {
+          throw error;
+        }
+
+        const wait = this.delay(attempt, error);
+        if (Date.now() - started + wait > deadline) {
+          throw error;
+        }
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+    }
+  }
+}
+
+function stripUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>;
+}
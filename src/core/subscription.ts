@@ -0,0 +1,253 @@
+/**
+ * Account change subscriptions
+ * Polls the node's head_block, refreshes the account when a new block is
+ * seen and emits typed events for what changed since the previous refresh
+ */
+
+import { EventEmitter } from 'events';
+import type { SPKAccount } from './account';
+import { SPKAccountData, FileContract } from './models';
+import { RetryPolicy } from './retry';
+
+export interface AccountSubscriptionOptions {
+  /** Poll interval in ms (default 3000, one Hive block) */
+  interval?: number;
+  /** Longest delay between polls while the node keeps failing (default 60000) */
+  maxInterval?: number;
+}
+
+export type BalanceField = 'balance' | 'spk' | 'poweredUp' | 'spk_power' | 'pow_broca' | 'gov';
+
+export interface BalanceChangeEvent {
+  field: BalanceField;
+  previous: number;
+  current: number;
+  delta: number;
+}
+
+export interface BrocaChangeEvent {
+  previous: number;
+  current: number;
+  delta: number;
+  /** True when BROCA grew without being received, i.e. it regenerated */
+  regenerated: boolean;
+}
+
+export interface ContractEvent {
+  contract: FileContract;
+}
+
+export interface PowerDownEvent {
+  /** Remaining scheduled power-down installments */
+  pending: Record<string, any>;
+  /** Installments that were paid out since the last refresh */
+  completed: string[];
+  /** Newly scheduled installments */
+  added: string[];
+}
+
+export interface ClaimableEvent {
+  larynx: number;
+  spk: number;
+  previous: { larynx: number; spk: number };
+}
+
+export interface AccountUpdateEvent {
+  data: SPKAccountData;
+  headBlock: number;
+}
+
+export interface AccountSubscriptionEvents {
+  update: (event: AccountUpdateEvent) => void;
+  balance: (event: BalanceChangeEvent) => void;
+  broca: (event: BrocaChangeEvent) => void;
+  contractAdded: (event: ContractEvent) => void;
+  contractExpired: (event: ContractEvent) => void;
+  powerDown: (event: PowerDownEvent) => void;
+  claimable: (event: ClaimableEvent) => void;
+  error: (error: unknown, attempt: number) => void;
+}
+
+type EventName = keyof AccountSubscriptionEvents;
+
+const BALANCE_FIELDS: BalanceField[] = ['balance', 'spk', 'poweredUp', 'spk_power', 'pow_broca', 'gov'];
+
+interface Snapshot {
+  data: SPKAccountData;
+  broca: number;
+  contracts: Record<string, FileContract>;
+}
+
+/**
+ * Block at which a contract expires, from its `e` field ("block:ipfs")
+ */
+function expiryBlock(contract: FileContract): number | undefined {
+  const block = parseInt(String(contract.e ?? '').split(':')[0], 10);
+  return isNaN(block) ? undefined : block;
+}
+
+function claimable(data: SPKAccountData): { larynx: number; spk: number } {
+  return { larynx: data.claim || 0, spk: data.drop?.availible?.amount || 0 };
+}
+
+/**
+ * Watches an account for changes. Created by SPKAccount.subscribe().
+ */
+export class AccountSubscription extends EventEmitter {
+  private account: SPKAccount;
+  private interval: number;
+  private backoff: RetryPolicy;
+  private timer?: ReturnType<typeof setTimeout>;
+  private stopped = false;
+  private failures = 0;
+  private lastHeadBlock = 0;
+  private snapshot?: Snapshot;
+  private expired: Set<string> = new Set();
+
+  constructor(account: SPKAccount, options: AccountSubscriptionOptions = {}) {
+    super();
+    this.account = account;
+    this.interval = options.interval ?? 3000;
+    this.backoff = new RetryPolicy({
+      baseDelay: this.interval,
+      maxDelay: Math.max(options.maxInterval ?? 60000, this.interval),
+    });
+  }
+
+  get active(): boolean {
+    return !this.stopped;
+  }
+
+  on<E extends EventName>(event: E, listener: AccountSubscriptionEvents[E]): this {
+    return super.on(event, listener as (...args: any[]) => void);
+  }
+
+  once<E extends EventName>(event: E, listener: AccountSubscriptionEvents[E]): this {
+    return super.once(event, listener as (...args: any[]) => void);
+  }
+
+  off<E extends EventName>(event: E, listener: AccountSubscriptionEvents[E]): this {
+    return super.off(event, listener as (...args: any[]) => void);
+  }
+
+  emit<E extends EventName>(event: E, ...args: Parameters<AccountSubscriptionEvents[E]>): boolean {
+    return super.emit(event, ...args);
+  }
+
+  /**
+   * Start polling. Called by SPKAccount.subscribe().
+   */
+  start(): this {
+    this.schedule(0);
+    return this;
+  }
+
+  /**
+   * Stop polling and remove all listeners
+   */
+  unsubscribe(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.removeAllListeners();
+  }
+
+  /**
+   * Check for a new block now instead of waiting for the next poll
+   */
+  async poll(): Promise<void> {
+    // /stats is cached for longer than a block
+    this.account.api.invalidate('/stats');
+    const stats = await this.account.api.getStats();
+    const headBlock = stats.head_block ?? 0;
+    if (this.snapshot && headBlock <= this.lastHeadBlock) return;
+
+    const data = await this.account.refresh();
+    if (this.stopped) return;
+
+    const block = data.head_block ?? headBlock;
+    this.lastHeadBlock = Math.max(headBlock, block);
+    const next: Snapshot = {
+      data,
+      broca: await this.account.calculateBroca(block),
+      contracts: { ...(data.file_contracts || {}) },
+    };
+
+    if (this.snapshot) {
+      this.diff(this.snapshot, next, block);
+    }
+    this.snapshot = next;
+    this.emit('update', { data, headBlock: block });
+  }
+
+  private schedule(delay: number): void {
+    if (this.stopped) return;
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      await this.poll();
+      this.failures = 0;
+      this.schedule(this.interval);
+    } catch (error) {
+      const attempt = this.failures++;
+      // Emitting 'error' without a listener would throw from the timer
+      if (!this.stopped && this.listenerCount('error') > 0) {
+        this.emit('error', error, attempt);
+      }
+      this.schedule(this.backoff.delay(attempt));
+    }
+  }
+
+  private diff(previous: Snapshot, next: Snapshot, headBlock: number): void {
+    for (const field of BALANCE_FIELDS) {
+      const before = Number(previous.data[field] ?? 0);
+      const after = Number(next.data[field] ?? 0);
+      if (before !== after) {
+        this.emit('balance', { field, previous: before, current: after, delta: after - before });
+      }
+    }
+
+    if (previous.broca !== next.broca) {
+      const delta = next.broca - previous.broca;
+      // The stored amount only changes when BROCA is spent or received
+      const regenerated = delta > 0 && previous.data.broca === next.data.broca;
+      this.emit('broca', { previous: previous.broca, current: next.broca, delta, regenerated });
+    }
+
+    for (const [id, contract] of Object.entries(next.contracts)) {
+      if (!previous.contracts[id]) {
+        this.emit('contractAdded', { contract });
+      }
+      const expires = expiryBlock(contract);
+      if (expires !== undefined && expires <= headBlock && !this.expired.has(id)) {
+        this.expired.add(id);
+        this.emit('contractExpired', { contract });
+      }
+    }
+    for (const [id, contract] of Object.entries(previous.contracts)) {
+      if (next.contracts[id]) continue;
+      // Expired contracts are eventually dropped from the account
+      if (!this.expired.delete(id)) {
+        this.emit('contractExpired', { contract });
+      }
+    }
+
+    const before = previous.data.power_downs || {};
+    const after = next.data.power_downs || {};
+    const completed = Object.keys(before).filter(key => !(key in after));
+    const added = Object.keys(after).filter(key => !(key in before));
+    if (completed.length || added.length) {
+      this.emit('powerDown', { pending: after, completed, added });
+    }
+
+    const claimBefore = claimable(previous.data);
+    const claimAfter = claimable(next.data);
+    if (claimBefore.larynx !== claimAfter.larynx || claimBefore.spk !== claimAfter.spk) {
+      this.emit('claimable', { ...claimAfter, previous: claimBefore });
+    }
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Token registry
+ * The SPK-family tokens the SDK knows: where each one publishes its protocol,
+ * which node serves its accounts and which account fields hold its balances.
+ * LARYNX, SPK and BROCA are built in; apps register more tokens that follow
+ * the same protocol-endpoint convention, such as honeycomb tokens like DLUX.
+ */
+
+import { SPKError } from './errors';
+import type { FeatureConfig } from './protocol';
+
+export interface TokenBalanceFields {
+  /** Account field (dot path) of the liquid balance */
+  liquid: string;
+  powered?: string;
+  claimable?: string;
+}
+
+export interface TokenDefinition {
+  /** Token symbol, e.g. 'DLUX' */
+  symbol: string;
+  /** Protocol endpoint: a path on the SPK node or the full URL on the token's own node */
+  protocolEndpoint: string;
+  /** Node serving `/@account` for the token (default the SPK node) */
+  api?: string;
+  /** Used until the protocol endpoint has been read */
+  precision: number;
+  jsonPrefix: string;
+  multisig?: string;
+  /** Features until the protocol endpoint has been read (default honeycombFeatures) */
+  features?: Record<string, FeatureConfig>;
+  /** Where the account payload keeps the balances (default balance / poweredUp / claim) */
+  balances?: TokenBalanceFields;
+}
+
+export interface TokenBalance {
+  symbol: string;
+  /** Balances in base units */
+  liquid: number;
+  powered: number;
+  claimable: number;
+  precision: number;
+}
+
+const HONEYCOMB_BALANCES: TokenBalanceFields = { liquid: 'balance', powered: 'poweredUp', claimable: 'claim' };
+
+const SYMBOL = /^[A-Z][A-Z0-9]{1,9}$/;
+
+/**
+ * The send, power and claim features every honeycomb token offers
+ */
+export function honeycombFeatures(symbol: string): Record<string, FeatureConfig> {
+  const amount = { amount: { type: 'I' as const, name: 'Amount', req: true, min: 1 } };
+  return {
+    claim: { desc: `Claim ${symbol} rewards`, json: {}, auth: 'posting' },
+    send: {
+      desc: `Send ${symbol} tokens`,
+      json: {
+        to: { type: 'AS', name: 'Send To', req: true, check: 'AC' },
+        ...amount,
+        memo: { type: 'S', name: 'Memo' },
+      },
+      auth: 'active',
+    },
+    power_up: { desc: `Power up ${symbol} tokens`, json: amount, auth: 'active' },
+    power_down: { desc: `Power down ${symbol} Power`, json: amount, auth: 'active' },
+  };
+}
+
+export class TokenRegistry {
+  private tokens: Map<string, TokenDefinition> = new Map();
+
+  /**
+   * Add a token, or replace the definition of a registered one
+   */
+  register(definition: TokenDefinition): TokenDefinition {
+    const symbol = definition.symbol.toUpperCase();
+    if (!SYMBOL.test(symbol)) {
+      throw new SPKError(`Invalid token symbol: ${definition.symbol}`, 'INVALID_INPUT');
+    }
+    if (!definition.protocolEndpoint) {
+      throw new SPKError(`Token ${symbol} needs a protocol endpoint`, 'INVALID_INPUT');
+    }
+
+    const registered = { ...definition, symbol, balances: definition.balances || HONEYCOMB_BALANCES };
+    this.tokens.set(symbol, registered);
+    return registered;
+  }
+
+  get(symbol: string): TokenDefinition | undefined {
+    return this.tokens.get(symbol.toUpperCase());
+  }
+
+  has(symbol: string): boolean {
+    return this.tokens.has(symbol.toUpperCase());
+  }
+
+  list(): TokenDefinition[] {
+    return Array.from(this.tokens.values());
+  }
+
+  symbols(): string[] {
+    return Array.from(this.tokens.keys());
+  }
+}
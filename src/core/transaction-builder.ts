@@ -0,0 +1,360 @@
+/**
+ * Multi-operation transaction builder
+ * Collects SPK custom_json and plain Hive operations and broadcasts them in
+ * as few transactions as Hive allows - one signer prompt per transaction -
+ * with posting and active operations kept in separate transactions
+ */
+
+import { Buffer } from 'buffer';
+import type { SPKAPI } from './api';
+import type { NodeSyncGuard } from './node-sync';
+import { KeychainAdapter } from './keychain-adapter';
+import { ProtocolManager, PreparedOperation } from './protocol';
+import { NetworkProfile } from './network';
+import { SPKError, SignerUnavailableError } from './errors';
+import { customJsonOperation, DryRunOptions, DryRunResult, DryRun, NoDryRun } from './dry-run';
+
+export type AuthLevel = 'posting' | 'active';
+
+export type HiveOperation = [string, Record<string, any>];
+
+export interface TransactionBuilderOptions {
+  /** Most operations in one transaction (default 50) */
+  maxOperations?: number;
+  /** Most custom_json operations in one transaction (default 5) */
+  maxCustomJson?: number;
+  /** Size budget of one transaction in bytes of JSON (default 60000, Hive allows 64KiB) */
+  maxTransactionSize?: number;
+  /** Checked before broadcasting; SPK.transaction() passes the account's guard */
+  sync?: NodeSyncGuard;
+}
+
+export interface BuilderOperationOptions {
+  /** Name for the operation in the results */
+  label?: string;
+}
+
+export interface OperationResult {
+  /** Position in the order operations were added */
+  index: number;
+  label?: string;
+  operation: HiveOperation;
+  auth: AuthLevel;
+  success: boolean;
+  /** Transaction the operation was broadcast in */
+  txId?: string;
+  block?: number;
+  error?: Error;
+}
+
+export interface BatchTransaction {
+  auth: AuthLevel;
+  /** Indexes of the operations in the transaction */
+  operations: number[];
+  id?: string;
+  block?: number;
+  error?: Error;
+}
+
+export interface BatchResult {
+  /** True when every transaction was broadcast */
+  success: boolean;
+  results: OperationResult[];
+  transactions: BatchTransaction[];
+}
+
+interface PendingOperation {
+  operation: HiveOperation;
+  auth: AuthLevel;
+  label?: string;
+  /** Accounts whose cached data the operation changes */
+  touches: string[];
+  /** Token operation, whose accounts are checked before broadcasting */
+  prepared?: PreparedOperation;
+}
+
+/** Hive rejects custom_json payloads above 8KiB and ids above 32 characters */
+const CUSTOM_JSON_MAX_LENGTH = 8192;
+const CUSTOM_JSON_ID_MAX_LENGTH = 32;
+
+/** Hive operations a posting key may sign; everything else needs active */
+const POSTING_OPERATIONS = [
+  'vote',
+  'comment',
+  'comment_options',
+  'delete_comment',
+  'claim_reward_balance',
+];
+
+export class TransactionBuilder {
+  private username: string;
+  private keychainAdapter: KeychainAdapter | null;
+  private protocol: ProtocolManager;
+  private network: NetworkProfile;
+  private api?: SPKAPI;
+  private maxOperations: number;
+  private maxCustomJson: number;
+  private maxTransactionSize: number;
+  private sync?: NodeSyncGuard;
+  private operations: PendingOperation[] = [];
+
+  constructor(
+    username: string,
+    keychainAdapter: KeychainAdapter | null,
+    protocol: ProtocolManager,
+    network: NetworkProfile,
+    api?: SPKAPI,
+    options: TransactionBuilderOptions = {}
+  ) {
+    this.username = username;
+    this.keychainAdapter = keychainAdapter;
+    this.protocol = protocol;
+    this.network = network;
+    this.api = api;
+    this.maxOperations = options.maxOperations ?? 50;
+    this.maxCustomJson = options.maxCustomJson ?? 5;
+    this.maxTransactionSize = options.maxTransactionSize ?? 60000;
+    this.sync = options.sync;
+  }
+
+  get size(): number {
+    return this.operations.length;
+  }
+
+  /**
+   * Add a Hive operation. The auth level is derived from the operation
+   * unless given.
+   */
+  add(operation: HiveOperation, auth?: AuthLevel, options: BuilderOperationOptions = {}): this {
+    return this.push(operation, auth, options);
+  }
+
+  /**
+   * Add a custom_json operation signed by the builder's account
+   */
+  customJson(id: string, json: any, auth: AuthLevel = 'posting', options: BuilderOperationOptions = {}): this {
+    return this.add(customJsonOperation(this.username, id, auth, json), auth, options);
+  }
+
+  /**
+   * Add an SPK token operation, validated against the protocol like
+   * TokenOperations does. The schema is checked now, account fields when
+   * broadcasting.
+   */
+  tokenOperation(token: string, feature: string, data: Record<string, any>, options: BuilderOperationOptions = {}): this {
+    const prepared = this.protocol.buildOperation(token, feature, data);
+    const operation = customJsonOperation(this.username, prepared.id, prepared.auth, { ...prepared.json, from: this.username });
+    return this.push(operation, prepared.auth, options, prepared);
+  }
+
+  /**
+   * Send tokens using the amount string format (e.g. "50.000 BROCA")
+   */
+  send(amountStr: string, to: string, memo = '', options: BuilderOperationOptions = {}): this {
+    const { amount, token } = this.protocol.parseAmount(amountStr);
+    return this.tokenOperation(token, 'send', { to, amount, memo }, options);
+  }
+
+  powerUp(token: string, amount: number, options: BuilderOperationOptions = {}): this {
+    return this.tokenOperation(token, 'power_up', { amount }, options);
+  }
+
+  powerDown(token: string, amount: number, options: BuilderOperationOptions = {}): this {
+    return this.tokenOperation(token, 'power_down', { amount }, options);
+  }
+
+  claim(token: string, options: BuilderOperationOptions = {}): this {
+    return this.tokenOperation(token, 'claim', {}, options);
+  }
+
+  /**
+   * Open a storage contract (channel_open) paid with BROCA
+   */
+  openChannel(
+    params: { broca: number; broker: string; to?: string; beneficiary?: { account: string; weight: number } },
+    options: BuilderOperationOptions = {}
+  ): this {
+    const json: Record<string, any> = {
+      to: params.to || this.username,
+      broca: Math.ceil(params.broca),
+      broker: params.broker,
+      contract: '0',
+    };
+    if (params.beneficiary) {
+      json.contract = '1';
+      json.slots = `${params.beneficiary.account},${Math.round(params.beneficiary.weight * 100)}`;
+    }
+    return this.customJson(`${this.network.storagePrefix}channel_open`, json, 'posting', options);
+  }
+
+  /**
+   * Split the operations into transactions: one auth level per transaction,
+   * within the operation, custom_json and size limits, in the order added.
+   * A change of auth level starts a new transaction, so transactions run in
+   * the order their operations were added.
+   */
+  plan(): BatchTransaction[] {
+    const transactions: BatchTransaction[] = [];
+    let current: { transaction: BatchTransaction; customJson: number; size: number } | undefined;
+
+    this.operations.forEach(({ operation, auth }, index) => {
+      const size = JSON.stringify(operation).length;
+      const customJson = operation[0] === 'custom_json' ? 1 : 0;
+
+      if (
+        !current ||
+        current.transaction.auth !== auth ||
+        current.transaction.operations.length >= this.maxOperations ||
+        current.customJson + customJson > this.maxCustomJson ||
+        current.size + size > this.maxTransactionSize
+      ) {
+        current = { transaction: { auth, operations: [] }, customJson: 0, size: 0 };
+        transactions.push(current.transaction);
+      }
+
+      current.transaction.operations.push(index);
+      current.customJson += customJson;
+      current.size += size;
+    });
+
+    return transactions;
+  }
+
+  /**
+   * Broadcast every planned transaction through the keychain, one prompt
+   * each. A rejected transaction fails only its own operations. With
+   * `dryRun` the planned transactions are returned and the operations kept.
+   */
+  async broadcast(options: DryRun): Promise<DryRunResult>;
+  async broadcast(options?: NoDryRun): Promise<BatchResult>;
+  async broadcast(options?: DryRunOptions): Promise<BatchResult | DryRunResult>;
+  async broadcast(options: DryRunOptions = {}): Promise<BatchResult | DryRunResult> {
+    if (this.operations.length === 0) {
+      throw new SPKError('No operations to broadcast', 'EMPTY_TRANSACTION');
+    }
+    if (options.dryRun) {
+      await this.checkAccounts();
+      return {
+        dryRun: true,
+        transactions: this.plan().map(({ auth, operations }) => ({
+          auth,
+          operations: operations.map(index => this.operations[index].operation),
+        })),
+      };
+    }
+
+    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
+      throw new SignerUnavailableError();
+    }
+    await this.sync?.check('transaction.broadcast');
+    await this.checkAccounts();
+
+    const transactions = this.plan();
+    const results: OperationResult[] = this.operations.map(({ operation, auth, label }, index) => ({
+      index,
+      label,
+      operation,
+      auth,
+      success: false,
+    }));
+
+    for (const transaction of transactions) {
+      const operations = transaction.operations.map(index => this.operations[index].operation);
+      try {
+        const receipt = await this.keychainAdapter.broadcast(
+          this.username,
+          operations,
+          transaction.auth === 'active' ? 'Active' : 'Posting'
+        );
+        transaction.id = receipt.id;
+        transaction.block = receipt.block_num;
+        for (const index of transaction.operations) {
+          Object.assign(results[index], { success: true, txId: receipt.id, block: receipt.block_num });
+        }
+      } catch (error: any) {
+        transaction.error = error;
+        for (const index of transaction.operations) {
+          results[index].error = error;
+        }
+      }
+    }
+
+    this.invalidateAccounts(results);
+    this.operations = [];
+
+    return {
+      success: transactions.every(transaction => !transaction.error),
+      results,
+      transactions,
+    };
+  }
+
+  private push(operation: HiveOperation, auth?: AuthLevel, options: BuilderOperationOptions = {}, prepared?: PreparedOperation): this {
+    const [type, body] = operation;
+    if (type === 'custom_json') {
+      this.validateCustomJson(body);
+    }
+    this.operations.push({
+      operation,
+      auth: auth || inferAuth(operation),
+      label: options.label,
+      touches: recipients(operation),
+      prepared,
+    });
+    return this;
+  }
+
+  /**
+   * Recipients of token operations must exist before anything is signed
+   */
+  private async checkAccounts(): Promise<void> {
+    for (const { prepared } of this.operations) {
+      if (prepared) await this.protocol.checkAccounts(prepared);
+    }
+  }
+
+  private validateCustomJson(body: Record<string, any>): void {
+    if (typeof body?.id !== 'string' || body.id.length === 0 || body.id.length > CUSTOM_JSON_ID_MAX_LENGTH) {
+      throw new SPKError(`custom_json id must be 1-${CUSTOM_JSON_ID_MAX_LENGTH} characters`, 'INVALID_OPERATION');
+    }
+    const json = typeof body.json === 'string' ? body.json : JSON.stringify(body.json);
+    if (Buffer.byteLength(json) > CUSTOM_JSON_MAX_LENGTH) {
+      throw new SPKError(`custom_json payload exceeds ${CUSTOM_JSON_MAX_LENGTH} bytes`, 'INVALID_OPERATION');
+    }
+  }
+
+  /**
+   * Drop cached account data touched by successful operations
+   */
+  private invalidateAccounts(results: OperationResult[]): void {
+    const api = this.api;
+    if (!api || !results.some(result => result.success)) return;
+    const accounts = new Set([this.username]);
+    results.forEach(result => {
+      if (result.success) this.operations[result.index].touches.forEach(account => accounts.add(account));
+    });
+    accounts.forEach(account => api.invalidate(`/@${account}`));
+  }
+}
+
+function inferAuth([type, body]: HiveOperation): AuthLevel {
+  if (type === 'custom_json') {
+    return body?.required_auths?.length ? 'active' : 'posting';
+  }
+  return POSTING_OPERATIONS.includes(type) ? 'posting' : 'active';
+}
+
+/**
+ * Accounts an operation sends to, read from `to` of the operation or of its custom_json payload
+ */
+function recipients([type, body]: HiveOperation): string[] {
+  let target = body?.to;
+  if (type === 'custom_json') {
+    try {
+      target = (typeof body.json === 'string' ? JSON.parse(body.json) : body.json)?.to;
+    } catch {
+      target = undefined;
+    }
+  }
+  return typeof target === 'string' ? [target] : [];
+}
@@ -0,0 +1,74 @@
+/**
+ * Pluggable HTTP transport and interceptor chain used by SPKAPI
+ */
+
+/**
+ * Normalized request handed to interceptors and the transport
+ */
+export interface SPKRequest {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+/**
+ * A fetch-compatible function (global fetch, undici, node-fetch, a test double...)
+ */
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export type RequestInterceptor = (request: SPKRequest) => SPKRequest | Promise<SPKRequest>;
+
+export type ResponseInterceptor = (
+  response: Response,
+  request: SPKRequest
+) => Response | Promise<Response>;
+
+/**
+ * Error interceptors may return a Response to recover from the failure,
+ * throw a replacement error, or return nothing to let the error propagate
+ */
+export type ErrorInterceptor = (
+  error: any,
+  request: SPKRequest
+) => Response | void | Promise<Response | void>;
+
+export interface InterceptorOptions {
+  request?: RequestInterceptor[];
+  response?: ResponseInterceptor[];
+  error?: ErrorInterceptor[];
+}
+
+/**
+ * Ordered list of interceptors; handlers run in registration order
+ */
+export class InterceptorChain<T> {
+  private handlers: T[] = [];
+
+  /**
+   * Register a handler. Returns a function that removes it again.
+   */
+  use(handler: T): () => void {
+    this.handlers.push(handler);
+    return () => {
+      const index = this.handlers.indexOf(handler);
+      if (index >= 0) {
+        this.handlers.splice(index, 1);
+      }
+    };
+  }
+
+  clear(): void {
+    this.handlers = [];
+  }
+
+  toArray(): T[] {
+    return [...this.handlers];
+  }
+}
+
+/**
+ * Default transport - resolves the global fetch at call time so that
+ * polyfills and test mocks installed later are picked up
+ */
+export const defaultTransport: Transport = (url, init) => fetch(url, init);
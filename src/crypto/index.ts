@@ -1,6 +1,7 @@
 export { Encryption } from './encryption';
 export { KeyManager } from './key-management';
 export { HiveCrypto } from './hive-crypto';
+export { LocalSigner } from './local-signer';
 export type { 
   EncryptedFile, 
   EncryptionMetadata, 
@@ -9,5 +10,7 @@ export type {
 export type { 
   MemoKeyInfo, 
   EncryptionRequest, 
-  WalletEncryptionResponse 
-} from './key-management';
\ No newline at end of file
+  WalletEncryptionResponse,
+  KeyManagerOptions
+} from './key-management';
+export type { LocalKeyRole, LocalSignerOptions, SignedTransaction } from './local-signer';
\ No newline at end of file
@@ -1,5 +1,6 @@
-import { HiveAPI } from '../api';
+import { HiveAPI, HiveClient } from '../api';
 import { HiveCrypto } from './hive-crypto';
+import { Logger, silentLogger } from '../core/logger';
 
 export interface MemoKeyInfo {
   account: string;
@@ -24,8 +25,21 @@ export interface WalletEncryptionResponse {
   }>;
 }
 
+export interface KeyManagerOptions {
+  /** Hive client memo keys are read from (default the shared HiveAPI client) */
+  hive?: Pick<HiveClient, 'getAccounts'>;
+  logger?: Logger;
+}
+
 export class KeyManager {
   private memoKeyCache: Map<string, string> = new Map();
+  private hive: Pick<HiveClient, 'getAccounts'>;
+  private logger: Logger;
+
+  constructor(options: KeyManagerOptions = {}) {
+    this.hive = options.hive || HiveAPI;
+    this.logger = options.logger || silentLogger;
+  }
 
   /**
    * Fetch memo keys for multiple accounts from Hive blockchain
@@ -35,7 +49,7 @@ export class KeyManager {
     
     if (uncachedAccounts.length > 0) {
       try {
-        const hiveAccounts = await HiveAPI.getAccounts(uncachedAccounts);
+        const hiveAccounts = await this.hive.getAccounts(uncachedAccounts);
         
         // Cache the results
         for (const account of hiveAccounts) {
@@ -44,7 +58,11 @@ export class KeyManager {
           }
         }
       } catch (error) {
-        console.error('Failed to fetch accounts from Hive:', error);
+        this.logger.error('Failed to fetch accounts from Hive', {
+          operation: 'keys.fetchMemoKeys',
+          accounts: uncachedAccounts,
+          error,
+        });
       }
     }
     
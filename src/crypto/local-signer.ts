@@ -0,0 +1,156 @@
+/**
+ * Local private-key signer
+ * CustomSigner that signs with WIF keys held in memory, so SPK can sign and
+ * broadcast headless (bots, CI, servers) without Hive Keychain
+ */
+
+import { Buffer } from 'buffer';
+import ecc from '@hiveio/hive-js/lib/auth/ecc';
+import serializer from '@hiveio/hive-js/lib/auth/serializer/src/operations';
+import { CustomSigner } from '../core/keychain-adapter';
+import { SignerUnavailableError } from '../core/errors';
+import { NETWORKS, DEFAULT_NETWORK } from '../core/network';
+import { HiveClient, HiveTransaction, BroadcastResult } from '../api/hive';
+
+export type LocalKeyRole = 'posting' | 'active' | 'memo';
+
+export interface LocalSignerOptions {
+  /** WIF private keys by role */
+  keys: Partial<Record<LocalKeyRole, string>>;
+  /** Account the keys belong to; requests for other accounts are rejected */
+  account?: string;
+  /** Client used to read the reference block and broadcast */
+  hive?: Pick<HiveClient, 'getDynamicGlobalProperties' | 'broadcastTransaction' | 'broadcastTransactionSynchronous'>;
+  /** Chain the transactions are signed for (default: Hive mainnet) */
+  chainId?: string;
+  /** Seconds until a signed transaction expires (default 60) */
+  expiration?: number;
+}
+
+export interface SignedTransaction extends HiveTransaction {
+  signatures: string[];
+}
+
+type PrivateKey = ReturnType<typeof ecc.PrivateKey.fromWif>;
+
+export class LocalSigner implements CustomSigner {
+  public readonly account?: string;
+  public hive: NonNullable<LocalSignerOptions['hive']>;
+  private keys: Partial<Record<LocalKeyRole, PrivateKey>> = {};
+  private chainId: Buffer;
+  private expiration: number;
+
+  constructor(options: LocalSignerOptions) {
+    for (const [role, wif] of Object.entries(options.keys)) {
+      if (wif) {
+        // Throws on malformed keys and bad checksums
+        this.keys[role as LocalKeyRole] = ecc.PrivateKey.fromWif(wif);
+      }
+    }
+    this.account = options.account;
+    this.hive = options.hive || new HiveClient();
+    this.chainId = Buffer.from(options.chainId || NETWORKS[DEFAULT_NETWORK].chainId, 'hex');
+    this.expiration = options.expiration ?? 60;
+  }
+
+  /**
+   * Public key (STM...) of a configured key, undefined when it is missing
+   */
+  getPublicKey(keyType: string): string | undefined {
+    const role = toRole(keyType);
+    return role && this.keys[role]?.toPublic().toString();
+  }
+
+  /**
+   * Sign a message the way Keychain's requestSignBuffer does: a compact
+   * signature over the sha256 of the message, hex encoded
+   */
+  signMessage(account: string, message: string, keyType: string): { signature: string; publicKey: string } {
+    const key = this.getKey(account, keyType);
+    return {
+      signature: ecc.Signature.signBuffer(Buffer.from(message), key).toHex(),
+      publicKey: key.toPublic().toString(),
+    };
+  }
+
+  /**
+   * Build a transaction for the operations on the current head block and sign it
+   */
+  async signTransaction(account: string, operations: any[], keyType: string): Promise<SignedTransaction & { id: string }> {
+    const key = this.getKey(account, keyType);
+    const properties = await this.hive.getDynamicGlobalProperties();
+    const transaction: HiveTransaction = {
+      ref_block_num: properties.head_block_number & 0xffff,
+      ref_block_prefix: Buffer.from(properties.head_block_id, 'hex').readUInt32LE(4),
+      expiration: new Date(Date.now() + this.expiration * 1000).toISOString().slice(0, 19),
+      operations,
+      extensions: [],
+    };
+
+    const buffer = serializer.transaction.toBuffer(transaction);
+    const signature = ecc.Signature.signBuffer(Buffer.concat([this.chainId, buffer]), key);
+    return {
+      ...transaction,
+      signatures: [signature.toHex()],
+      // Transaction ids are the first 20 bytes of the unsigned transaction's sha256
+      id: ecc.hash.sha256(buffer).toString('hex').slice(0, 40),
+    };
+  }
+
+  requestSignature(account: string, challenge: string, keyType: string, callback: (response: any) => void): void {
+    try {
+      callback({ success: true, ...this.signMessage(account, challenge, keyType) });
+    } catch (error: any) {
+      callback({ success: false, error: error.message });
+    }
+  }
+
+  requestSignatureSynchronous(account: string, challenge: string, keyType: string): { signature: string; publicKey: string } {
+    return this.signMessage(account, challenge, keyType);
+  }
+
+  /**
+   * Sign and broadcast; the callback gets the transaction id once a node
+   * accepted it
+   */
+  requestBroadcast(account: string, operations: any[], keyType: string, callback: (response: any) => void): void {
+    this.broadcast(account, operations, keyType).then(
+      result => callback({ success: true, result }),
+      (error: any) => callback({ success: false, error: error.message })
+    );
+  }
+
+  /**
+   * Sign and broadcast with broadcast_transaction_synchronous, resolving
+   * with the block the transaction was included in
+   */
+  async requestBroadcastSynchronous(account: string, operations: any[], keyType: string): Promise<{ result: BroadcastResult }> {
+    const { id, ...transaction } = await this.signTransaction(account, operations, keyType);
+    const result = await this.hive.broadcastTransactionSynchronous(transaction);
+    return { result: { ...result, id: result.id || id } };
+  }
+
+  private async broadcast(account: string, operations: any[], keyType: string): Promise<{ id: string }> {
+    const { id, ...transaction } = await this.signTransaction(account, operations, keyType);
+    await this.hive.broadcastTransaction(transaction);
+    return { id };
+  }
+
+  private getKey(account: string, keyType: string): PrivateKey {
+    if (this.account && account !== this.account) {
+      throw new SignerUnavailableError(`No keys for account ${account}`);
+    }
+    const role = toRole(keyType);
+    // Active authority also satisfies posting
+    const key = role && (this.keys[role] || (role === 'posting' ? this.keys.active : undefined));
+    if (!key) {
+      throw new SignerUnavailableError(`No ${String(keyType).toLowerCase()} key configured`);
+    }
+    return key;
+  }
+}
+
+function toRole(keyType: string): LocalKeyRole | undefined {
+  const role = String(keyType).toLowerCase();
+  return role === 'posting' || role === 'active' || role === 'memo' ? role : undefined;
+}
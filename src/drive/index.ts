@@ -7,6 +7,7 @@
 
 import { SPKAccount } from '../core/account';
 import { SPKAPI } from '../core/api';
+import { FileContract } from '../core/models';
 import { EventEmitter } from 'events';
 import { 
   MetadataInfo,
@@ -51,16 +52,7 @@ export interface SPKFolder {
   isPreset?: boolean;
 }
 
-export interface SPKContract {
-  i: string; // Contract ID
-  t: string; // Token owner
-  n: Record<string, string>; // Storage nodes
-  u: number; // Used bytes
-  s: number; // Size
-  e: string; // Expiration
-  c: number; // Contract state
-  m?: string; // Metadata
-  df?: Record<string, number>; // Files (CID -> size)
+export interface SPKContract extends FileContract {
   autoRenew?: boolean;
   encryption?: {
     key: string;
@@ -116,7 +108,7 @@ export class SPKDrive extends EventEmitter {
    */
   async loadDrive(): Promise<void> {
     try {
-      const data = await this.api.get(`/@${this.account.username}`);
+      const data = await this.api.getAccount(this.account.username);
       
       // Clear existing data
       this.contracts.clear();
@@ -442,6 +434,8 @@ export class SPKDrive extends EventEmitter {
     // Cancel contract renewal
     const auth = await this.account.sign(`cancel_contract:${file.i}`);
     await this.api.post(`/api/fileContract/${file.i}/cancel`, {}, auth);
+    this.api.invalidate(`/api/fileContract/${file.i}`);
+    this.api.invalidate(`/@${this.account.username}`);
     
     // Remove from local storage
     this.files.delete(cid);
@@ -566,6 +560,8 @@ export class SPKDrive extends EventEmitter {
       await this.api.post(`/api/fileContract/${contractId}/metadata`, {
         m: newMetaString
       }, auth);
+      this.api.invalidate(`/api/fileContract/${contractId}`);
+      this.api.invalidate(`/@${this.account.username}`);
     }
     
     this.emit('metadataUpdated', { contractId, cid, metadata: updatedMeta });
@@ -1,25 +1,60 @@
 import { SPKAccount } from './core/account';
 import { SPKFile, UploadOptions, UploadResult } from './storage/file';
-import { SPKFileUpload, BatchUploadResult } from './storage/file-upload';
+import { SPKFileUpload, BatchUploadResult, UploadPreview } from './storage/file-upload';
 import { BrocaCalculator } from './tokens/broca';
 import { SPKConfig } from './core/config';
 import { SPKDrive } from './drive';
 import { ProtocolManager } from './core/protocol';
-import { TokenOperations } from './tokens/operations';
+import { FeatureDescriptor } from './core/feature-schema';
+import { TokenDefinition, TokenBalance } from './core/token-registry';
+import { NodeSyncStatus } from './core/node-sync';
+import { Delegations, BalanceProjection } from './tokens/delegation';
+import { PowerDownManager } from './tokens/power-down';
+import { AutoClaimScheduler, AutoClaimOptions, PendingRewards } from './tokens/rewards';
+import { TokenOperations, TokenOperationOptions } from './tokens/operations';
+import { FileContract, SPKStatsResponse, ServicesResponse, parseUploadStats } from './core/models';
+import { AccountSubscription, AccountSubscriptionOptions } from './core/subscription';
+import { ActivityQuery, ActivityPage } from './core/history';
+import { TransactionBuilder, TransactionBuilderOptions } from './core/transaction-builder';
+import { DryRun, NoDryRun } from './core/dry-run';
 
 export * from './core/account';
 export * from './core/api';
+export * from './api';
 export * from './core/config';
+export * from './core/network';
+export * from './core/logger';
+export * from './core/transport';
+export * from './core/node-pool';
+export * from './core/cache';
+export * from './core/errors';
+export * from './core/retry';
+export * from './core/models';
+export * from './core/subscription';
+export * from './core/confirmation';
+export * from './core/history';
 export * from './core/keychain-adapter';
+export * from './core/transaction-builder';
+export * from './crypto/local-signer';
+export * from './core/auth-verifier';
 export * from './core/protocol';
+export * from './core/feature-schema';
+export * from './core/protocol-store';
+export * from './core/token-registry';
+export * from './core/node-sync';
 export * from './tokens/operations';
+export * from './tokens/delegation';
+export * from './tokens/power-down';
+export * from './tokens/rewards';
 export { 
   UploadOptions, 
   UploadResult, 
+  FileUploadPreview,
   FileData,
   FileMetadataItem
 } from './storage/file';
-export { BatchUploadResult } from './storage/file-upload';
+export { BatchUploadResult, UploadPreview } from './storage/file-upload';
+export * from './core/dry-run';
 export * from './storage/metadata';
 export * from './storage/file-metadata';
 export * from './tokens/broca';
@@ -53,19 +88,24 @@ export default class SPK {
   public drive: SPKDrive;
   private protocol: ProtocolManager;
   private tokens: TokenOperations;
+  /** Power-down schedules, forecasts and cancellation */
+  public powerDowns: PowerDownManager;
 
   constructor(username: string, options: Partial<SPKConfig> = {}) {
     this.account = new SPKAccount(username, options);
     this.file = new SPKFile(this.account);
     this.fileUpload = new SPKFileUpload(this.account);
     this.drive = new SPKDrive(this.account);
-    this.protocol = new ProtocolManager(this.account.node);
+    this.protocol = this.account.protocol;
     this.tokens = new TokenOperations(
       username,
       this.account.keychainAdapter,
       this.account.api,
-      this.protocol
+      this.protocol,
+      this.account.confirmations,
+      this.account.sync
     );
+    this.powerDowns = new PowerDownManager(this.account, this.tokens, this.protocol);
     
     // Set global SPK instance for contract creator
     (global as any).currentSPKInstance = this;
@@ -81,9 +121,19 @@ export default class SPK {
 
   /**
    * Upload single or multiple files to SPK Network
-   * Supports batch uploads with individual metadata
+   * Supports batch uploads with individual metadata, and `dryRun` to preview
+   * the storage contract
    */
-  async upload(files: File | File[], options?: UploadOptions): Promise<UploadResult | BatchUploadResult> {
+  async upload(files: File | File[], options: UploadOptions & DryRun): Promise<UploadPreview>;
+  async upload(files: File | File[], options?: UploadOptions & NoDryRun): Promise<UploadResult | BatchUploadResult>;
+  async upload(
+    files: File | File[],
+    options?: UploadOptions
+  ): Promise<UploadResult | BatchUploadResult | UploadPreview>;
+  async upload(
+    files: File | File[],
+    options?: UploadOptions
+  ): Promise<UploadResult | BatchUploadResult | UploadPreview> {
     return this.fileUpload.upload(files, options);
   }
 
@@ -106,12 +156,12 @@ export default class SPK {
     // Get network stats for BROCA storage calculation
     let brocaStorageSize = '0MB';
     try {
-      const stats = await this.account.api.get('/stats');
-      if (stats && stats.channel_bytes) {
-        brocaStorageSize = await this.calculateBrocaStorage(balances.broca, stats.channel_bytes);
+      const stats = await this.account.api.getStats();
+      if (stats.result.channel_bytes) {
+        brocaStorageSize = await this.calculateBrocaStorage(balances.broca, stats.result.channel_bytes);
       }
     } catch (error) {
-      console.warn('Failed to calculate BROCA storage size:', error);
+      this.account.logger.warn('Failed to calculate BROCA storage size', { operation: 'balances', error });
     }
     
     // Extended balance info from account data
@@ -151,64 +201,223 @@ export default class SPK {
   /**
    * Send tokens using amount string (e.g., "50.000 BROCA")
    */
-  async send(amountStr: string, to: string, memo = ''): Promise<any> {
-    return this.tokens.send(amountStr, to, memo);
+  async send(amountStr: string, to: string, memo = '', options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.send(amountStr, to, memo, options);
   }
 
   /**
    * Send LARYNX tokens (in millitokens)
    */
-  async sendLarynx(amount: number, to: string, memo = ''): Promise<any> {
-    return this.tokens.sendLarynx(amount, to, memo);
+  async sendLarynx(amount: number, to: string, memo = '', options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.sendLarynx(amount, to, memo, options);
   }
 
   /**
    * Send SPK tokens (in millitokens)
    */
-  async sendSpk(amount: number, to: string, memo = ''): Promise<any> {
-    return this.tokens.sendSpk(amount, to, memo);
+  async sendSpk(amount: number, to: string, memo = '', options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.sendSpk(amount, to, memo, options);
   }
 
   /**
    * Send BROCA tokens
    */
-  async sendBroca(amount: number, to: string, memo = ''): Promise<any> {
-    return this.tokens.sendBroca(amount, to, memo);
+  async sendBroca(amount: number, to: string, memo = '', options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.sendBroca(amount, to, memo, options);
   }
 
   /**
    * Power up BROCA tokens
    */
-  async brocaPowerUp(amount: number): Promise<any> {
-    return this.tokens.powerUp('BROCA', amount);
+  async brocaPowerUp(amount: number, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.powerUp('BROCA', amount, options);
   }
 
   /**
    * Power down SPK tokens
    */
-  async spkPowerDown(amount: number): Promise<any> {
-    return this.tokens.powerDown('SPK', amount);
+  async spkPowerDown(amount: number, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.powerDown('SPK', amount, options);
   }
 
   /**
    * Power up LARYNX tokens
    */
-  async powerUp(amount: number): Promise<any> {
-    return this.tokens.powerUp('LARYNX', amount);
+  async powerUp(amount: number, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.powerUp('LARYNX', amount, options);
   }
 
   /**
    * Power down LARYNX tokens
    */
-  async powerDown(amount: number): Promise<any> {
-    return this.tokens.powerDown('LARYNX', amount);
+  async powerDown(amount: number, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.powerDown('LARYNX', amount, options);
   }
 
   /**
    * Claim token rewards
    */
-  async claim(token: 'LARYNX' | 'SPK' = 'LARYNX'): Promise<any> {
-    return this.tokens.claim(token);
+  async claim(token: string = 'LARYNX', options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.claim(token, options);
+  }
+
+  /**
+   * Power up any registered token
+   */
+  async tokenPowerUp(token: string, amount: number, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.powerUp(token, amount, options);
+  }
+
+  /**
+   * Power down any registered token
+   */
+  async tokenPowerDown(token: string, amount: number, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.powerDown(token, amount, options);
+  }
+
+  /**
+   * Delegate SPK or BROCA power to an account, replacing any current
+   * delegation to it
+   */
+  async delegate(token: 'SPK' | 'BROCA', to: string, amount: number, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.delegate(token, to, amount, options);
+  }
+
+  /**
+   * Remove a delegation of SPK or BROCA power
+   */
+  async undelegate(token: 'SPK' | 'BROCA', to: string, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.undelegate(token, to, options);
+  }
+
+  /**
+   * Lock LARYNX as governance stake
+   */
+  async lockGov(amount: number, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.lockGov(amount, options);
+  }
+
+  /**
+   * Unlock governance stake
+   */
+  async unlockGov(amount: number, options?: TokenOperationOptions): Promise<any> {
+    return this.tokens.unlockGov(amount, options);
+  }
+
+  /**
+   * Delegations of SPK power in and out of an account (default this account).
+   * The node does not report BROCA grants.
+   */
+  async getDelegations(account?: string, token: 'SPK' = 'SPK'): Promise<Delegations> {
+    return this.tokens.getDelegations(account, token);
+  }
+
+  /**
+   * Balances after delegating SPK power, without broadcasting
+   */
+  async projectDelegation(token: 'SPK', to: string, amount: number): Promise<BalanceProjection> {
+    return this.tokens.projectDelegation(token, to, amount);
+  }
+
+  /**
+   * Balances after locking or unlocking governance stake, without broadcasting
+   */
+  async projectGovernance(direction: 'lock' | 'unlock', amount: number): Promise<BalanceProjection> {
+    return this.tokens.projectGovernance(direction, amount);
+  }
+
+  /**
+   * LARYNX and SPK rewards the account can claim now, in base units
+   */
+  async getPendingRewards(): Promise<PendingRewards> {
+    return this.account.getPendingRewards();
+  }
+
+  /**
+   * Claim rewards automatically once they reach a threshold or at an
+   * interval. Call stop() on the result to end it.
+   */
+  autoClaim(options: AutoClaimOptions): AutoClaimScheduler {
+    return new AutoClaimScheduler(this.account, this.protocol, options).start();
+  }
+
+  /**
+   * Add a token that publishes its protocol like LARYNX, SPK and BROCA.
+   * Its protocol is read on the next init() or updateProtocols().
+   */
+  registerToken(definition: TokenDefinition): TokenDefinition {
+    return this.protocol.registerToken(definition);
+  }
+
+  /**
+   * Symbols of every registered token, built-in ones first
+   */
+  getTokens(): string[] {
+    return this.protocol.tokens.symbols();
+  }
+
+  /**
+   * Liquid, powered and claimable balances of every registered token, in
+   * base units. Tokens whose node cannot be read are left out.
+   */
+  async getTokenBalances(account?: string): Promise<Record<string, TokenBalance>> {
+    const symbols = this.protocol.tokens.symbols();
+    const results = await Promise.all(
+      symbols.map(symbol =>
+        this.tokens.getBalance(symbol, account).catch(error => {
+          this.account.logger.warn('Failed to read token balance', { operation: 'balances', token: symbol, error });
+          return null;
+        })
+      )
+    );
+
+    const balances: Record<string, TokenBalance> = {};
+    results.forEach((balance, i) => {
+      if (balance) balances[symbols[i]] = balance;
+    });
+    return balances;
+  }
+
+  /**
+   * Start a batch of operations broadcast together, one prompt per transaction
+   */
+  transaction(options?: TransactionBuilderOptions): TransactionBuilder {
+    return new TransactionBuilder(
+      this.account.username,
+      this.account.keychainAdapter,
+      this.protocol,
+      this.account.network,
+      this.account.api,
+      { sync: this.account.sync, ...options }
+    );
+  }
+
+  /**
+   * Execute any feature the node advertises for a token, validated against
+   * its protocol schema
+   */
+  async execute(
+    token: string,
+    feature: string,
+    params: Record<string, any> = {},
+    options?: TokenOperationOptions
+  ): Promise<any> {
+    return this.tokens.execute(token, feature, params, options);
+  }
+
+  /**
+   * JSON Schema and form descriptor of each feature the node advertises
+   */
+  getFeatureDescriptors(token?: string): FeatureDescriptor[] {
+    return this.protocol.getFeatureDescriptors(token);
+  }
+
+  /**
+   * Sync state of the SPK node reads go to and of every configured node.
+   * With `refresh` the nodes are asked first.
+   */
+  async getSyncStatus(refresh = false): Promise<NodeSyncStatus> {
+    return refresh ? this.account.sync.refresh() : this.account.sync.status();
   }
 
   /**
@@ -218,9 +427,10 @@ export default class SPK {
     ipfsId: string,
     domain: string,
     bidRate: number = 500,
-    decayMargin: number = 100
+    decayMargin: number = 100,
+    options?: TokenOperationOptions
   ): Promise<any> {
-    return this.tokens.registerNode(ipfsId, domain, bidRate, decayMargin);
+    return this.tokens.registerNode(ipfsId, domain, bidRate, decayMargin, options);
   }
 
   /**
@@ -294,7 +504,7 @@ export default class SPK {
         contractDays: 30
       };
     } catch (error) {
-      console.error('Failed to calculate BROCA cost:', error);
+      this.account.logger.error('Failed to calculate BROCA cost', { operation: 'broca.cost', error });
       // Return default calculation
       const baseCost = Math.ceil(sizeInBytes / 1024);
       return {
@@ -315,7 +525,7 @@ export default class SPK {
   /**
    * Get file information by CID
    */
-  async getFile(cid: string): Promise<any> {
+  async getFile(cid: string): Promise<FileContract> {
     return this.account.api.getFileByCID(cid);
   }
 
@@ -384,7 +594,7 @@ export default class SPK {
   /**
    * Get contract details
    */
-  async getContract(contractId: string): Promise<any> {
+  async getContract(contractId: string): Promise<FileContract> {
     return this.account.api.getFileContract(contractId);
   }
 
@@ -403,44 +613,54 @@ export default class SPK {
     throw new Error('Decryption not yet implemented');
   }
 
+  /**
+   * Watch the account for balance, BROCA, contract, power-down and reward changes
+   */
+  subscribe(options?: AccountSubscriptionOptions): AccountSubscription {
+    return this.account.subscribe(options);
+  }
+
+  /**
+   * Get the account's sends, power ups and downs, claims and storage contracts
+   */
+  async getActivity(query?: ActivityQuery): Promise<ActivityPage> {
+    return this.account.getActivity(query);
+  }
+
   /**
    * Get network statistics
    */
-  async getNetworkStats(): Promise<any> {
-    return this.account.api.get('/stats');
+  async getNetworkStats(): Promise<SPKStatsResponse> {
+    return this.account.api.getStats();
   }
 
   /**
    * Get storage providers
    */
-  async getStorageProviders(): Promise<any> {
+  async getStorageProviders(): Promise<{
+    providers: Record<string, string>;
+    services: Array<{ id: string; api?: string; account?: string }>;
+    raw: ServicesResponse;
+  }> {
     try {
       // Fetch from the services endpoint
-      const response = await fetch(`${this.account.node}/services/IPFS`);
-      if (!response.ok) {
-        throw new Error('Failed to fetch storage providers');
-      }
-      
-      const data = await response.json();
-      const services: any[] = [];
+      const data = await this.account.api.getServices('IPFS');
+      const services: Array<{ id: string; api?: string; account?: string }> = [];
 
       // Process the services data  
-      if (data.services) {
-        for (let i = 0; i < data.services.length; i++) {
-          const serviceGroup = data.services[i];
-          for (const [id, service] of Object.entries(serviceGroup)) {
-            services.push({
-              id,
-              api: (service as any).a,
-              account: (service as any).b
-            });
-          }
+      for (const serviceGroup of data.services) {
+        for (const [id, service] of Object.entries(serviceGroup)) {
+          services.push({
+            id,
+            api: service.a,
+            account: service.b
+          });
         }
       }
       
-      return { providers: data.providers || {}, services, raw: data };
+      return { providers: data.providers, services, raw: data };
     } catch (error) {
-      console.error('Failed to get storage providers:', error);
+      this.account.logger.error('Failed to get storage providers', { operation: 'providers.list', error });
       throw error;
     }
   }
@@ -464,21 +684,16 @@ export default class SPK {
       }
       
       try {
-        // Set a timeout for the health check
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 1000);
-        
-        const statsResponse = await fetch(`${service.api}/upload-stats`, {
-          signal: controller.signal
+        // Short timeout for the health check
+        const statsResponse = await this.account.api.fetch(`${service.api}/upload-stats`, {
+          timeout: 1000
         });
         
-        clearTimeout(timeoutId);
-        
         if (!statsResponse.ok) {
           return null;
         }
         
-        const stats = await statsResponse.json();
+        const stats = parseUploadStats(await statsResponse.json(), `${service.api}/upload-stats`);
         
         // Check if provider has enough space (2x required size for safety)
         const maxStorage = BigInt(stats.StorageMax || 0);
@@ -546,7 +761,7 @@ export default class SPK {
    * Direct upload (public node)
    * Always returns array of UploadResult, even for batch uploads
    */
-  async directUpload(files: File[], options: UploadOptions = {}): Promise<UploadResult[]> {
+  async directUpload(files: File[], options: Omit<UploadOptions, 'dryRun'> = {}): Promise<UploadResult[]> {
     // Use batch upload functionality
     const result = await this.upload(files, options);
     
@@ -562,4 +777,4 @@ export default class SPK {
 
 // Export the new storage provider selector and contract creator
 export { StorageProviderSelector } from './storage/provider-selector';
-export { SPKContractCreator } from './storage/contract-creator';
\ No newline at end of file
+export { SPKContractCreator, DirectUploadPreview } from './storage/contract-creator';
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { SPKFileMetadata } from './file-metadata';
 import { NumberToBase64, Base64toNumber } from '../utils/base64';
+import { MetadataParseError } from '../core/errors';
 
 export interface FileWithMetadata {
   cid: string;
@@ -261,7 +262,7 @@ export class BatchMetadataEncoder {
     // Split header and files
     const firstComma = metaString.indexOf(',');
     if (firstComma === -1) {
-      throw new Error('Invalid metadata string: no files');
+      throw new MetadataParseError('Invalid metadata string: no files', metaString);
     }
     
     const header = metaString.substring(0, firstComma);
@@ -315,7 +316,7 @@ export class BatchMetadataEncoder {
     
     for (let i = 0; i < fileFields.length; i += 4) {
       if (i + 3 >= fileFields.length) {
-        throw new Error('Invalid metadata string: incomplete file data');
+        throw new MetadataParseError('Invalid metadata string: incomplete file data', metaString);
       }
       
       const name = fileFields[i];
@@ -4,9 +4,20 @@
  */
 
 import { StorageProviderSelector } from './provider-selector';
+import { SPKAPI } from '../core/api';
+import { Logger, silentLogger } from '../core/logger';
+import { NetworkProfile, resolveNetwork } from '../core/network';
+import { TransactionTracker, TransactionStatus, TransactionConfirmation, ConfirmationOptions } from '../core/confirmation';
+import { DryRunOptions, DryRun, NoDryRun, ContractPreview, customJsonOperation } from '../core/dry-run';
+import {
+  InsufficientBrocaError,
+  SignerUnavailableError,
+  SignerRejectedError,
+  ContractNotFoundError,
+} from '../core/errors';
 import { Buffer } from 'buffer';
 
-export interface ContractOptions {
+export interface ContractOptions extends DryRunOptions {
   duration?: number;
   beneficiary?: {
     account: string;
@@ -26,6 +37,14 @@ export interface ContractResult {
   brocaCost: number;
   size: number;
   duration: number;
+  /** Hive block of the channel_open transaction, once known */
+  blockNum?: number;
+  status?: TransactionStatus;
+  /**
+   * Wait for the node to process the channel_open transaction, updating
+   * blockNum and status. Set when the account tracks confirmations.
+   */
+  wait?: (options?: ConfirmationOptions) => Promise<TransactionConfirmation>;
 }
 
 export interface DirectUploadResult extends ContractResult {
@@ -38,6 +57,15 @@ export interface DirectUploadResult extends ContractResult {
   }>;
 }
 
+export interface DirectUploadPreview extends ContractPreview {
+  contractId: string;
+  files: Array<{
+    cid: string;
+    size: number;
+    name: string;
+  }>;
+}
+
 export interface FileData {
   name: string;
   size: number;
@@ -46,35 +74,51 @@ export interface FileData {
 
 export class SPKContractCreator {
   private spk: any; // SPK instance
-  private apiUrl: string;
+  private api: SPKAPI;
+  private logger: Logger;
   public selector: StorageProviderSelector;
   private tokenPrefix: string;
+  private network: NetworkProfile;
 
-  constructor(spkInstance: any, apiUrl: string = 'https://spktest.dlux.io') {
+  constructor(spkInstance: any, apiUrl?: string) {
     this.spk = spkInstance;
-    this.apiUrl = apiUrl;
-    this.selector = new StorageProviderSelector(apiUrl);
-    this.tokenPrefix = apiUrl.includes('spktest') ? 'spkccT_' : 'spkcc_dlux_';
+    this.network = spkInstance?.network || resolveNetwork(undefined, apiUrl);
+    // Share the account's API client so transport, interceptors and node failover apply here too
+    this.api = spkInstance?.api instanceof SPKAPI ? spkInstance.api : new SPKAPI(apiUrl || this.network.nodes[0]);
+    this.logger = this.api.logger || silentLogger;
+    this.selector = new StorageProviderSelector(this.api.node, this.api);
+    this.tokenPrefix = this.network.storagePrefix;
   }
 
   /**
-   * Create a storage contract for files
+   * Create a storage contract for files. With `dryRun` the channel_open
+   * operation is returned with its cost and provider instead of broadcast.
    */
-  async createStorageContract(totalSize: number, options: ContractOptions = {}): Promise<ContractResult> {
+  async createStorageContract(totalSize: number, options: ContractOptions & DryRun): Promise<ContractPreview>;
+  async createStorageContract(totalSize: number, options?: ContractOptions & NoDryRun): Promise<ContractResult>;
+  async createStorageContract(totalSize: number, options?: ContractOptions): Promise<ContractResult | ContractPreview>;
+  async createStorageContract(totalSize: number, options: ContractOptions = {}): Promise<ContractResult | ContractPreview> {
     try {
       // Calculate BROCA cost
       const brocaAmount = await this.calculateBrocaCost(totalSize, options.duration || 30);
       
       // Check BROCA balance
       const availableBroca = await this.spk.calculateBroca();
-      if (brocaAmount > availableBroca) {
-        throw new Error(`Insufficient BROCA. Required: ${brocaAmount}, Available: ${availableBroca}`);
+      if (brocaAmount > availableBroca && !options.dryRun) {
+        throw new InsufficientBrocaError(brocaAmount, availableBroca);
       }
       
       // Select best provider
-      console.log('Selecting storage provider for', this.selector.formatBytes(totalSize));
+      this.logger.debug('Selecting storage provider', {
+        operation: 'contract.create',
+        size: this.selector.formatBytes(totalSize),
+      });
       const provider = await this.selector.selectBestProvider(totalSize);
-      console.log('Selected provider:', provider.nodeId, 'with', this.selector.formatBytes(provider.freeSpace), 'free');
+      this.logger.info('Selected storage provider', {
+        operation: 'contract.create',
+        provider: provider.nodeId,
+        freeSpace: this.selector.formatBytes(provider.freeSpace),
+      });
       
       // Prepare contract parameters
       const contractParams: any = {
@@ -91,23 +135,42 @@ export class SPKContractCreator {
       }
       
       // Create the blockchain transaction
-      const customJson = {
-        required_auths: [],
-        required_posting_auths: [this.spk.username],
-        id: `${this.tokenPrefix}channel_open`,
-        json: JSON.stringify(contractParams)
-      };
+      const [, customJson] = customJsonOperation(
+        this.spk.username,
+        `${this.tokenPrefix}channel_open`,
+        'posting',
+        contractParams
+      );
+
+      if (options.dryRun) {
+        return {
+          dryRun: true,
+          transactions: [{ auth: 'posting', operations: [['custom_json', customJson]] }],
+          brocaCost: brocaAmount,
+          availableBroca,
+          provider: {
+            nodeId: provider.nodeId,
+            api: provider.api
+          },
+          size: totalSize,
+          duration: options.duration || 30,
+        };
+      }
       
-      console.log('Creating storage contract:', contractParams);
+      this.logger.info('Creating storage contract', {
+        operation: 'contract.create',
+        provider: provider.nodeId,
+        broca: contractParams.broca,
+      });
       
       // Sign and broadcast the transaction
       const result = await this.broadcastTransaction(customJson);
       
       // Generate contract ID from transaction
       const contractId = this.generateContractId(result.id);
-      
+
       // Return contract details
-      return {
+      const contract: ContractResult = {
         success: true,
         contractId,
         transactionId: result.id,
@@ -117,11 +180,16 @@ export class SPKContractCreator {
         },
         brocaCost: brocaAmount,
         size: totalSize,
-        duration: options.duration || 30
+        duration: options.duration || 30,
+        blockNum: result.block_num,
+        status: result.block_num ? 'included' : 'pending'
       };
+      // The contract exists once the node has processed the channel_open block
+      this.addWait(contract);
+      return contract;
       
     } catch (error) {
-      console.error('Failed to create storage contract:', error);
+      this.logger.error('Failed to create storage contract', { operation: 'contract.create', error });
       throw error;
     }
   }
@@ -131,9 +199,11 @@ export class SPKContractCreator {
    */
   async calculateBrocaCost(sizeInBytes: number, durationInDays: number = 30): Promise<number> {
     try {
-      // Get network stats for accurate calculation
-      const response = await fetch(`${this.apiUrl}/`);
-      const stats = await response.json();
+      // Get network stats for accurate calculation (cached like other node reads)
+      const stats = await this.api.cache.fetch('/', async () => {
+        const response = await this.api.fetch(`${this.api.node}/`);
+        return response.json();
+      });
       
       // Use network's channel_bytes if available (usually 1024 bytes per BROCA)
       const bytesPerBroca = stats.result?.channel_bytes || 1024;
@@ -151,7 +221,7 @@ export class SPKContractCreator {
       return Math.max(brocaCost, minCost);
       
     } catch (error) {
-      console.warn('Failed to get network stats, using defaults:', error);
+      this.logger.warn('Failed to get network stats, using defaults', { operation: 'contract.cost', error });
       // Fallback calculation
       const brocaCost = Math.ceil(sizeInBytes / 1024); // 1 BROCA per KB
       return Math.max(brocaCost, 100); // Minimum 100 BROCA
@@ -164,25 +234,59 @@ export class SPKContractCreator {
   private async broadcastTransaction(customJson: any): Promise<any> {
     // Use spk-js keychain to sign and broadcast
     if (!this.spk.keychainAdapter) {
-      throw new Error('Keychain not available');
+      throw new SignerUnavailableError('Keychain not available');
     }
-    
+    if (this.spk.sync) {
+      await this.spk.sync.check('contract.broadcast');
+    }
+
+    const adapter = this.spk.keychainAdapter;
+
+    // SPKAccount exposes a KeychainAdapter, which broadcasts through a promise
+    if (typeof adapter.requestBroadcast !== 'function' && typeof adapter.broadcast === 'function') {
+      const result = await adapter.broadcast(this.spk.username, [['custom_json', customJson]], 'Posting');
+      this.api.invalidate(`/@${this.spk.username}`);
+      return result;
+    }
+
     return new Promise((resolve, reject) => {
-      this.spk.keychainAdapter.requestBroadcast(
+      adapter.requestBroadcast(
         this.spk.username,
         [['custom_json', customJson]],
         'posting',
         (response: any) => {
           if (response.success) {
+            // New contracts and spent BROCA show up on the account
+            this.api.invalidate(`/@${this.spk.username}`);
             resolve(response.result);
           } else {
-            reject(new Error(response.error || 'Broadcast failed'));
+            reject(new SignerRejectedError(response.error || 'Broadcast failed', response));
           }
         }
       );
     });
   }
 
+  /**
+   * Let the result wait for its broadcast to be processed when the SPK
+   * instance tracks confirmations (SPKAccount does)
+   */
+  private addWait(contract: ContractResult): void {
+    const tracker: TransactionTracker | undefined = this.spk.confirmations;
+    if (!tracker || !contract.transactionId) {
+      return;
+    }
+    contract.wait = async (options: ConfirmationOptions = {}) => {
+      const confirmation = await tracker.confirm(contract.transactionId, { blockNum: contract.blockNum, ...options });
+      contract.blockNum = confirmation.blockNum;
+      contract.status = confirmation.status;
+      if (confirmation.status === 'confirmed') {
+        this.api.invalidate(`/@${this.spk.username}`);
+      }
+      return confirmation;
+    };
+  }
+
   /**
    * Generate contract ID from transaction ID
    */
@@ -198,26 +302,45 @@ export class SPKContractCreator {
    */
   async getContractDetails(contractId: string): Promise<any> {
     try {
-      const response = await fetch(`${this.apiUrl}/api/fileContract/${contractId}`);
+      const response = await this.api.fetch(`${this.api.node}/api/fileContract/${contractId}`);
       if (!response.ok) {
-        throw new Error(`Contract not found: ${contractId}`);
+        throw new ContractNotFoundError(contractId);
       }
-      return await response.json();
+      const data = await response.json();
+      // Honeycomb nodes wrap the contract in `result`
+      return data && typeof data.result === 'object' && data.result !== null ? data.result : data;
     } catch (error) {
-      console.error('Failed to get contract details:', error);
+      this.logger.error('Failed to get contract details', { operation: 'contract.get', contractId, error });
       throw error;
     }
   }
 
   /**
-   * Create a direct upload contract (for trusted uploads)
+   * Create a direct upload contract (for trusted uploads). With `dryRun`
+   * both the channel_open and direct_upload operations are returned.
    */
-  async createDirectUploadContract(files: FileData[], options: ContractOptions = {}): Promise<DirectUploadResult> {
+  async createDirectUploadContract(
+    files: FileData[],
+    options: ContractOptions & DryRun
+  ): Promise<DirectUploadPreview>;
+  async createDirectUploadContract(
+    files: FileData[],
+    options?: ContractOptions & NoDryRun
+  ): Promise<DirectUploadResult>;
+  async createDirectUploadContract(
+    files: FileData[],
+    options?: ContractOptions
+  ): Promise<DirectUploadResult | DirectUploadPreview>;
+  async createDirectUploadContract(
+    files: FileData[],
+    options: ContractOptions = {}
+  ): Promise<DirectUploadResult | DirectUploadPreview> {
     // Calculate total size
     const totalSize = files.reduce((sum, file) => sum + file.size, 0);
     
     // Create base contract first
     const contract = await this.createStorageContract(totalSize, options);
+    const contractId = 'dryRun' in contract ? this.generateContractId('') : contract.contractId;
     
     // Prepare file metadata
     const fileData = files.map(file => ({
@@ -231,7 +354,7 @@ export class SPKContractCreator {
       op: 'direct_upload',
       c: fileData.map(f => f.cid).join(','),
       s: fileData.map(f => f.size).join(','),
-      id: contract.contractId
+      id: contractId
     };
     
     // Add metadata if provided
@@ -239,12 +362,21 @@ export class SPKContractCreator {
       directUploadJson.m = Buffer.from(JSON.stringify(options.metadata)).toString('base64');
     }
     
-    const customJson = {
-      required_auths: [this.spk.username],
-      required_posting_auths: [],
-      id: `${this.tokenPrefix}direct_upload`,
-      json: JSON.stringify(directUploadJson)
-    };
+    const [, customJson] = customJsonOperation(
+      this.spk.username,
+      `${this.tokenPrefix}direct_upload`,
+      'active',
+      directUploadJson
+    );
+
+    if ('dryRun' in contract) {
+      return {
+        ...contract,
+        transactions: [...contract.transactions, { auth: 'active', operations: [['custom_json', customJson]] }],
+        contractId,
+        files: fileData
+      };
+    }
     
     // Broadcast direct upload
     const uploadResult = await this.broadcastTransaction(customJson);
@@ -256,4 +388,4 @@ export class SPKContractCreator {
       files: fileData
     };
   }
-}
\ No newline at end of file
+}
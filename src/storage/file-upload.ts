@@ -1,12 +1,23 @@
 import { SPKAccount } from '../core/account';
+import { NetworkProfile, NETWORKS, DEFAULT_NETWORK } from '../core/network';
+import { Logger, silentLogger } from '../core/logger';
 import { BrocaCalculator } from '../tokens/broca';
 import { SPKFileMetadata } from './file-metadata';
 import { FileMetadataItem, UploadOptions, UploadResult } from './file';
-import { SPKContractCreator } from './contract-creator';
+import { SPKContractCreator, ContractResult } from './contract-creator';
+import { DryRun, NoDryRun, ContractPreview } from '../core/dry-run';
 import { Encryption } from '../crypto/encryption';
 import { KeyManager } from '../crypto/key-management';
 import Hash from 'ipfs-only-hash';
 import { Buffer } from 'buffer';
+import {
+  SPKError,
+  NetworkError,
+  HTTPStatusError,
+  InsufficientBrocaError,
+  ContractNotFoundError,
+  UploadAuthorizationError,
+} from '../core/errors';
 
 export interface BatchUploadResult {
   results: UploadResult[];
@@ -15,6 +26,16 @@ export interface BatchUploadResult {
   contractId: string;
 }
 
+export interface UploadPreview extends ContractPreview {
+  files: Array<{
+    name: string;
+    cid: string;
+    size: number;
+  }>;
+  /** The account's public key would be registered (signed message) first */
+  registerPublicKey: boolean;
+}
+
 export interface FileWithMetadata {
   file: File;
   metadata?: FileMetadataItem;
@@ -27,29 +48,40 @@ export interface FileWithMetadata {
  */
 export class SPKFileUpload {
   private account: SPKAccount;
+  private network: NetworkProfile;
+  private logger: Logger;
   private uploadController?: AbortController;
   private contractCreator: SPKContractCreator;
   private encryption: Encryption;
 
   constructor(account: SPKAccount) {
     this.account = account;
+    this.network = account.network || NETWORKS[DEFAULT_NETWORK];
+    this.logger = account.api?.logger || silentLogger;
     this.contractCreator = new SPKContractCreator(account, account.node);
-    const keyManager = new KeyManager();
+    const keyManager = new KeyManager({ hive: account.hive, logger: this.logger });
     this.encryption = new Encryption(keyManager, account.username);
   }
 
   /**
-   * Upload single or multiple files with metadata support
+   * Upload single or multiple files with metadata support. With `dryRun` the
+   * storage contract is previewed and nothing is signed or uploaded.
    */
+  async upload(files: File | File[], options: UploadOptions & DryRun): Promise<UploadPreview>;
+  async upload(files: File | File[], options?: UploadOptions & NoDryRun): Promise<UploadResult | BatchUploadResult>;
+  async upload(
+    files: File | File[],
+    options?: UploadOptions
+  ): Promise<UploadResult | BatchUploadResult | UploadPreview>;
   async upload(
     files: File | File[], 
     options: UploadOptions = {}
-  ): Promise<UploadResult | BatchUploadResult> {
+  ): Promise<UploadResult | BatchUploadResult | UploadPreview> {
     // Convert single file to array for uniform processing
     const fileArray = Array.isArray(files) ? files : [files];
     
     if (fileArray.length === 0) {
-      throw new Error('No files provided');
+      throw new SPKError('No files provided', 'INVALID_INPUT');
     }
 
     // Validate metadata if provided
@@ -57,8 +89,13 @@ export class SPKFileUpload {
       this.validateMetadata(fileArray, options.metaData);
     }
 
+    const single = fileArray.length === 1 && (!options.metaData || options.metaData.length <= 1);
+    if (options.dryRun) {
+      return this.previewUpload(fileArray, single, options);
+    }
+
     // Single file upload
-    if (fileArray.length === 1 && (!options.metaData || options.metaData.length <= 1)) {
+    if (single) {
       return this.uploadSingleFile(fileArray[0], options);
     }
 
@@ -110,11 +147,11 @@ export class SPKFileUpload {
     });
     
     if (!contractResult.success) {
-      throw new Error('Failed to create storage contract');
+      throw new SPKError('Failed to create storage contract', 'CONTRACT_CREATION_FAILED');
     }
     
     // Wait for contract to be available on the network
-    await this.waitForContract(contractResult.contractId);
+    await this.waitForContract(contractResult);
     
     // Get the full contract details
     const contract = await this.contractCreator.getContractDetails(contractResult.contractId);
@@ -146,7 +183,7 @@ export class SPKFileUpload {
       cid,
       contract,
       size: file.size,
-      url: `https://ipfs.dlux.io/ipfs/${cid}`,
+      url: `${this.network.ipfsGateway}${cid}`,
     };
   }
 
@@ -189,7 +226,7 @@ export class SPKFileUpload {
     // Check if user has enough BROCA
     const availableBroca = await this.account.calculateBroca();
     if (totalBrocaCost > availableBroca) {
-      throw new Error(`Insufficient BROCA. Required: ${totalBrocaCost}, Available: ${availableBroca}`);
+      throw new InsufficientBrocaError(totalBrocaCost, availableBroca);
     }
 
     // Create a single blockchain contract for the entire batch
@@ -198,11 +235,11 @@ export class SPKFileUpload {
     });
     
     if (!contractResult.success) {
-      throw new Error('Failed to create storage contract');
+      throw new SPKError('Failed to create storage contract', 'CONTRACT_CREATION_FAILED');
     }
     
     // Wait for contract to be available on the network
-    await this.waitForContract(contractResult.contractId);
+    await this.waitForContract(contractResult);
     
     // Get the full contract details
     const batchContract = await this.contractCreator.getContractDetails(contractResult.contractId);
@@ -275,7 +312,7 @@ export class SPKFileUpload {
         cid: cid!,
         contract: batchContract,
         size: file.size,
-        url: `https://ipfs.dlux.io/ipfs/${cid}`,
+        url: `${this.network.ipfsGateway}${cid}`,
       });
     }
 
@@ -290,13 +327,44 @@ export class SPKFileUpload {
     };
   }
 
+  /**
+   * Build the storage contract an upload would open: CIDs are computed and
+   * single files encrypted to size the contract like the upload does
+   */
+  private async previewUpload(files: File[], single: boolean, options: UploadOptions): Promise<UploadPreview> {
+    const previewFiles: UploadPreview['files'] = [];
+    for (const file of files) {
+      previewFiles.push({ name: file.name, cid: await this.hashFile(file), size: file.size });
+    }
+
+    let contractSize = previewFiles.reduce((sum, file) => sum + file.size, 0);
+    if (single && options.encrypt && options.encrypt.length > 0) {
+      const encrypted = await this.encrypt(files[0], options.encrypt);
+      contractSize = encrypted.encryptedData.byteLength;
+    }
+
+    const contract = await this.contractCreator.createStorageContract(contractSize, {
+      beneficiary: options.beneficiary,
+      dryRun: true,
+    });
+
+    return {
+      ...contract,
+      files: previewFiles,
+      registerPublicKey: this.account.pubKey === 'NA',
+    };
+  }
+
   /**
    * Validate metadata matches files
    */
   private validateMetadata(files: File[], metadata: FileMetadataItem[]): void {
     for (const meta of metadata) {
       if (meta.FileIndex < 0 || meta.FileIndex >= files.length) {
-        throw new Error(`Invalid FileIndex ${meta.FileIndex}. Must be between 0 and ${files.length - 1}`);
+        throw new SPKError(
+          `Invalid FileIndex ${meta.FileIndex}. Must be between 0 and ${files.length - 1}`,
+          'INVALID_INPUT'
+        );
       }
     }
   }
@@ -328,7 +396,7 @@ export class SPKFileUpload {
    */
   private async hashFile(file: File): Promise<string> {
     if (!file || !(file instanceof File)) {
-      throw new Error('Invalid file');
+      throw new SPKError('Invalid file', 'INVALID_INPUT');
     }
 
     const buffer = Buffer.from(await file.arrayBuffer());
@@ -337,16 +405,19 @@ export class SPKFileUpload {
 
   
   /**
-   * Wait for contract to be available on the network
+   * Wait for contract to be available on the network. A confirmed contract
+   * has been processed by the node, so only an unconfirmed one is polled for.
    */
-  private async waitForContract(contractId: string, maxAttempts: number = 10): Promise<void> {
-    for (let i = 0; i < maxAttempts; i++) {
+  private async waitForContract(contractResult: ContractResult, maxAttempts: number = 10): Promise<void> {
+    const { contractId } = contractResult;
+    const attempts = contractResult.status === 'confirmed' ? 1 : maxAttempts;
+    for (let i = 0; i < attempts; i++) {
       try {
         await this.contractCreator.getContractDetails(contractId);
         return; // Contract found
       } catch (error) {
-        if (i === maxAttempts - 1) {
-          throw new Error(`Contract ${contractId} not found after ${maxAttempts} attempts`);
+        if (i === attempts - 1) {
+          throw new ContractNotFoundError(contractId, `Contract ${contractId} not found after ${attempts} attempts`);
         }
         // Wait 2 seconds before trying again
         await new Promise(resolve => setTimeout(resolve, 2000));
@@ -388,7 +459,7 @@ export class SPKFileUpload {
       let uploaded = 0;
       for (let i = 0; i < chunks; i++) {
         if (this.uploadController.signal.aborted) {
-          throw new Error('Upload cancelled');
+          throw new SPKError('Upload cancelled', 'UPLOAD_CANCELLED');
         }
 
         const start = i * chunkSize;
@@ -405,13 +476,21 @@ export class SPKFileUpload {
     }
   }
 
+  /**
+   * Send a storage provider request through the account's API client, so its
+   * transport, interceptors and timeout apply to uploads too
+   */
+  private providerFetch(url: string, init: any): Promise<Response> {
+    return this.account.api.fetch(url, init);
+  }
+
   /**
    * Authorize upload with TROLE
    */
   private async authorizeUpload(contract: any, cid: string): Promise<any> {
-    const apiUrl = contract.api || 'https://ipfs.dlux.io';
+    const apiUrl = contract.api || this.network.uploadApi;
     
-    const response = await fetch(`${apiUrl}/upload-authorize`, {
+    const response = await this.providerFetch(`${apiUrl}/upload-authorize`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -429,7 +508,7 @@ export class SPKFileUpload {
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Upload authorization failed: ${errorText}`);
+      throw new UploadAuthorizationError(response.status, errorText);
     }
 
     return response.json();
@@ -439,9 +518,9 @@ export class SPKFileUpload {
    * Authorize batch upload with TROLE
    */
   private async authorizeBatchUpload(contract: any, cids: string[], sizes: number[]): Promise<any> {
-    const apiUrl = contract.api || 'https://ipfs.dlux.io';
+    const apiUrl = contract.api || this.network.uploadApi;
     
-    const response = await fetch(`${apiUrl}/upload-authorize`, {
+    const response = await this.providerFetch(`${apiUrl}/upload-authorize`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -460,7 +539,11 @@ export class SPKFileUpload {
 
     if (!response.ok) {
       const errorText = await response.text();
-      throw new Error(`Batch upload authorization failed: ${errorText}`);
+      throw new UploadAuthorizationError(
+        response.status,
+        errorText,
+        `Batch upload authorization failed: ${errorText}`
+      );
     }
 
     return response.json();
@@ -494,19 +577,24 @@ export class SPKFileUpload {
         if (xhr.status === 200) {
           resolve();
         } else {
-          reject(new Error(`Upload failed: ${xhr.status} - ${xhr.responseText}`));
+          reject(new HTTPStatusError(
+            xhr.status,
+            xhr.statusText,
+            `${apiUrl}/upload`,
+            `Upload failed: ${xhr.status} - ${xhr.responseText}`
+          ));
         }
       });
 
       xhr.addEventListener('error', () => {
-        reject(new Error('Upload failed'));
+        reject(new NetworkError('Upload failed', `${apiUrl}/upload`));
       });
 
       xhr.addEventListener('abort', () => {
-        reject(new Error('Upload cancelled'));
+        reject(new SPKError('Upload cancelled', 'UPLOAD_CANCELLED'));
       });
 
-      const apiUrl = contract.api || 'https://ipfs.dlux.io';
+      const apiUrl = contract.api || this.network.uploadApi;
       xhr.open('POST', `${apiUrl}/upload`);
       
       // Set headers from auth data
@@ -550,7 +638,7 @@ export class SPKFileUpload {
       };
     } catch (error) {
       // Fallback for tests or environments without crypto
-      console.warn('Encryption failed, using mock:', error);
+      this.logger.warn('Encryption failed, using mock', { operation: 'upload.encrypt', file: file.name, error });
       // Try to get file data in a way that works in tests
       let data: ArrayBuffer;
       if (file.arrayBuffer) {
@@ -598,7 +686,7 @@ export class SPKFileUpload {
   ): Promise<UploadResult | BatchUploadResult> {
     // Handle null/undefined
     if (!files) {
-      throw new Error('No files provided');
+      throw new SPKError('No files provided', 'INVALID_INPUT');
     }
 
     // Convert single file to array for uniform processing
@@ -607,7 +695,7 @@ export class SPKFileUpload {
     // Handle direct Buffer input
     if (Buffer.isBuffer(files)) {
       if (!options.fileName) {
-        throw new Error('fileName must be specified when uploading a Buffer directly');
+        throw new SPKError('fileName must be specified when uploading a Buffer directly', 'INVALID_INPUT');
       }
       fileArray = [{
         name: options.fileName,
@@ -620,19 +708,19 @@ export class SPKFileUpload {
     }
     
     if (fileArray.length === 0) {
-      throw new Error('No files provided');
+      throw new SPKError('No files provided', 'INVALID_INPUT');
     }
 
     // Validate file structure
     for (const file of fileArray) {
       if (!file || typeof file !== 'object') {
-        throw new Error('Invalid file: must be an object');
+        throw new SPKError('Invalid file: must be an object', 'INVALID_INPUT');
       }
       if (!file.buffer && !Buffer.isBuffer(file)) {
-        throw new Error('Invalid file: must have buffer property or be a Buffer');
+        throw new SPKError('Invalid file: must have buffer property or be a Buffer', 'INVALID_INPUT');
       }
       if (!file.name && !options.fileName) {
-        throw new Error('Invalid file: must have name property');
+        throw new SPKError('Invalid file: must have name property', 'INVALID_INPUT');
       }
     }
 
@@ -700,11 +788,11 @@ export class SPKFileUpload {
     });
     
     if (!contractResult.success) {
-      throw new Error('Failed to create storage contract');
+      throw new SPKError('Failed to create storage contract', 'CONTRACT_CREATION_FAILED');
     }
     
     // Wait for contract to be available on the network
-    await this.waitForContract(contractResult.contractId);
+    await this.waitForContract(contractResult);
     
     // Get the full contract details
     const contract = await this.contractCreator.getContractDetails(contractResult.contractId);
@@ -737,7 +825,7 @@ export class SPKFileUpload {
       cid,
       contract,
       size: originalFileSize,
-      url: `https://ipfs.dlux.io/ipfs/${cid}`,
+      url: `${this.network.ipfsGateway}${cid}`,
     };
   }
 
@@ -781,7 +869,7 @@ export class SPKFileUpload {
     // Check if user has enough BROCA
     const availableBroca = await this.account.calculateBroca();
     if (totalBrocaCost > availableBroca) {
-      throw new Error(`Insufficient BROCA. Required: ${totalBrocaCost}, Available: ${availableBroca}`);
+      throw new InsufficientBrocaError(totalBrocaCost, availableBroca);
     }
 
     // Create a single blockchain contract for the entire batch
@@ -790,11 +878,11 @@ export class SPKFileUpload {
     });
     
     if (!contractResult.success) {
-      throw new Error('Failed to create storage contract');
+      throw new SPKError('Failed to create storage contract', 'CONTRACT_CREATION_FAILED');
     }
     
     // Wait for contract to be available on the network
-    await this.waitForContract(contractResult.contractId);
+    await this.waitForContract(contractResult);
     
     // Get the full contract details
     const batchContract = await this.contractCreator.getContractDetails(contractResult.contractId);
@@ -873,7 +961,7 @@ export class SPKFileUpload {
         cid: cid!,
         contract: batchContract,
         size: originalFileSize,
-        url: `https://ipfs.dlux.io/ipfs/${cid}`,
+        url: `${this.network.ipfsGateway}${cid}`,
       });
     }
 
@@ -894,7 +982,10 @@ export class SPKFileUpload {
   private validateNodeMetadata(files: any[], metadata: FileMetadataItem[]): void {
     for (const meta of metadata) {
       if (meta.FileIndex < 0 || meta.FileIndex >= files.length) {
-        throw new Error(`Invalid FileIndex ${meta.FileIndex}. Must be between 0 and ${files.length - 1}`);
+        throw new SPKError(
+          `Invalid FileIndex ${meta.FileIndex}. Must be between 0 and ${files.length - 1}`,
+          'INVALID_INPUT'
+        );
       }
     }
   }
@@ -904,7 +995,7 @@ export class SPKFileUpload {
    */
   private async hashNodeFile(file: any): Promise<string> {
     if (!file) {
-      throw new Error('Invalid file: file is null or undefined');
+      throw new SPKError('Invalid file: file is null or undefined', 'INVALID_INPUT');
     }
 
     let buffer: Buffer;
@@ -916,7 +1007,10 @@ export class SPKFileUpload {
     } else if (file.arrayBuffer && typeof file.arrayBuffer === 'function') {
       buffer = Buffer.from(await file.arrayBuffer());
     } else {
-      throw new Error('Invalid file: must be a Buffer or have buffer/arrayBuffer property');
+      throw new SPKError(
+        'Invalid file: must be a Buffer or have buffer/arrayBuffer property',
+        'INVALID_INPUT'
+      );
     }
 
     return Hash.of(buffer);
@@ -958,7 +1052,7 @@ export class SPKFileUpload {
       
       for (let i = 0; i < chunks; i++) {
         if (this.uploadController.signal.aborted) {
-          throw new Error('Upload cancelled');
+          throw new SPKError('Upload cancelled', 'UPLOAD_CANCELLED');
         }
 
         const start = i * chunkSize;
@@ -993,7 +1087,6 @@ export class SPKFileUpload {
     totalSize: number,
     onProgress?: (percent: number) => void
   ): Promise<void> {
-    const fetch = require('node-fetch');
     const FormData = require('form-data');
     
     const form = new FormData();
@@ -1007,7 +1100,7 @@ export class SPKFileUpload {
       contentType: chunk.type || 'application/octet-stream'
     });
     
-    const apiUrl = contract.api || 'https://ipfs.dlux.io';
+    const apiUrl = contract.api || this.network.uploadApi;
     const chunkSize = chunkBuffer.length;
     
     // Get form headers (includes boundary)
@@ -1021,15 +1114,21 @@ export class SPKFileUpload {
     };
     
     try {
-      const response = await fetch(`${apiUrl}/upload`, {
+      // A buffered body works with every transport, not only stream-aware ones
+      const response = await this.providerFetch(`${apiUrl}/upload`, {
         method: 'POST',
         headers,
-        body: form
+        body: form.getBuffer()
       });
       
       if (!response.ok) {
         const errorText = await response.text();
-        throw new Error(`Upload failed: ${response.status} - ${errorText}`);
+        throw new HTTPStatusError(
+          response.status,
+          response.statusText,
+          `${apiUrl}/upload`,
+          `Upload failed: ${response.status} - ${errorText}`
+        );
       }
       
       // Report progress
@@ -1037,7 +1136,10 @@ export class SPKFileUpload {
         onProgress(100);
       }
     } catch (error: any) {
-      throw new Error(`Upload failed: ${error.message || error}`);
+      if (error instanceof SPKError) {
+        throw error;
+      }
+      throw new NetworkError(`Upload failed: ${error.message || error}`, `${apiUrl}/upload`, error);
     }
   }
 
@@ -1064,7 +1166,7 @@ export class SPKFileUpload {
       };
     } catch (error) {
       // Fallback for tests or environments without crypto
-      console.warn('Node encryption failed, using mock:', error);
+      this.logger.warn('Encryption failed, using mock', { operation: 'upload.encrypt', file: file.name, error });
       const fileBuffer = file.buffer || file;
       return {
         encryptedData: fileBuffer,
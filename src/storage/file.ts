@@ -1,8 +1,10 @@
 import { SPKAccount } from '../core/account';
+import { NetworkProfile, NETWORKS, DEFAULT_NETWORK } from '../core/network';
 import { BrocaCalculator } from '../tokens/broca';
 import Hash from 'ipfs-only-hash';
 import { Buffer } from 'buffer';
 import { Encryption, KeyManager } from '../crypto';
+import { DryRunOptions, DryRunResult, DryRun, NoDryRun } from '../core/dry-run';
 
 export interface FileData {
   cid: string;
@@ -25,7 +27,7 @@ export interface FileMetadataItem {
   onProgress?: (percent: number) => void;
 }
 
-export interface UploadOptions {
+export interface UploadOptions extends DryRunOptions {
   autoRenew?: boolean;
   encrypt?: string[];
   metaData?: FileMetadataItem[];
@@ -44,18 +46,33 @@ export interface UploadResult {
   url: string;
 }
 
+/**
+ * Dry run of SPKFile.upload. The contract is requested from the node with a
+ * signed message rather than a Hive transaction, so `transactions` is empty.
+ */
+export interface FileUploadPreview extends DryRunResult {
+  cid: string;
+  /** Bytes the contract would be requested for, after encryption */
+  size: number;
+  encrypted: boolean;
+  /** The account's public key would be registered (signed message) first */
+  registerPublicKey: boolean;
+}
+
 /**
  * SPK Network file operations
  */
 export class SPKFile {
   private account: SPKAccount;
+  private network: NetworkProfile;
   private uploadController?: AbortController;
   private encryption: Encryption;
   private keyManager: KeyManager;
 
   constructor(account: SPKAccount) {
     this.account = account;
-    this.keyManager = new KeyManager();
+    this.network = account.network || NETWORKS[DEFAULT_NETWORK];
+    this.keyManager = new KeyManager({ hive: account.hive, logger: account.api?.logger });
     this.encryption = new Encryption(this.keyManager, account.username);
   }
 
@@ -73,15 +90,21 @@ export class SPKFile {
 
 
   /**
-   * Upload a file to SPK Network
+   * Upload a file to SPK Network. With `dryRun` the file is hashed (and
+   * encrypted) to size the contract, and nothing is signed or uploaded.
    */
-  async upload(file: File, options: UploadOptions = {}): Promise<UploadResult> {
+  async upload(file: File, options: UploadOptions & DryRun): Promise<FileUploadPreview>;
+  async upload(file: File, options?: UploadOptions & NoDryRun): Promise<UploadResult>;
+  async upload(file: File, options: UploadOptions = {}): Promise<UploadResult | FileUploadPreview> {
     if (!file || !(file instanceof File)) {
       throw new Error('Invalid file');
     }
 
+    const registerPublicKey = this.account.pubKey === 'NA';
     // Ensure account has registered public key
-    await this.account.registerPublicKey();
+    if (!options.dryRun) {
+      await this.account.registerPublicKey();
+    }
 
     // Generate CID
     const cid = await SPKFile.hash(file);
@@ -100,6 +123,17 @@ export class SPKFile {
       };
     }
 
+    if (options.dryRun) {
+      return {
+        dryRun: true,
+        transactions: [],
+        cid,
+        size: uploadFile.size,
+        encrypted: uploadFile !== file,
+        registerPublicKey,
+      };
+    }
+
     // Create contract
     const contract = await this.createContract({
       cid,
@@ -125,7 +159,7 @@ export class SPKFile {
       cid,
       contract,
       size: file.size,
-      url: `https://ipfs.dlux.io/ipfs/${cid}`,
+      url: `${this.network.ipfsGateway}${cid}`,
     };
   }
 
@@ -228,9 +262,9 @@ export class SPKFile {
    * Authorize upload with TROLE
    */
   private async authorizeUpload(contract: any, cid: string): Promise<any> {
-    const apiUrl = contract.api || 'https://ipfs.dlux.io';
+    const apiUrl = contract.api || this.network.uploadApi;
     
-    const response = await fetch(`${apiUrl}/upload-authorize`, {
+    const response = await this.account.api.fetch(`${apiUrl}/upload-authorize`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
@@ -294,7 +328,7 @@ export class SPKFile {
         reject(new Error('Upload cancelled'));
       });
 
-      const apiUrl = contract.api || 'https://ipfs.dlux.io';
+      const apiUrl = contract.api || this.network.uploadApi;
       xhr.open('POST', `${apiUrl}/upload`);
       
       // Set headers from auth data
@@ -415,8 +449,7 @@ export class SPKFile {
       throw new Error('Hive Keychain not available');
     }
 
-    // Determine the correct SPK network ID based on the node being used
-    const spkNetworkId = this.account.node.includes('spktest') ? 'spkcc_spktest' : 'spkcc_dlux';
+    const spkNetworkId = this.network.directUploadId;
 
     return new Promise((resolve, reject) => {
       const keychain = (window as any).hive_keychain;
@@ -443,7 +476,7 @@ export class SPKFile {
                 t: this.account.username,
                 df: fileData.map(f => f.cid),
                 files: cids,
-                api: this.account.node,
+                api: this.account.api.node,
                 fosig: 'direct_upload', // This is a special case for direct uploads
                 m: options.metadata || {}
               };
@@ -459,7 +492,7 @@ export class SPKFile {
                 files: fileData.map(f => ({
                   cid: f.cid,
                   size: f.size,
-                  url: `https://ipfs.dlux.io/ipfs/${f.cid}`
+                  url: `${this.network.ipfsGateway}${f.cid}`
                 })),
                 totalSize,
                 brocaCost,
@@ -3,17 +3,19 @@
  * Finds healthy SPK storage providers with sufficient space
  */
 
+import { SPKAPI } from '../core/api';
+import { Logger, silentLogger } from '../core/logger';
+import { NETWORKS, DEFAULT_NETWORK } from '../core/network';
+import { ServiceEntry, UploadStats, parseServices } from '../core/models';
+import { NoHealthyProviderError } from '../core/errors';
+
 export interface Provider {
   nodeId: string;
   api: string;
   enabled?: boolean;
 }
 
-export interface ProviderStats {
-  node?: string;
-  StorageMax: string;
-  RepoSize: string;
-  NumObjects?: number;
+export interface ProviderStats extends UploadStats {
   api?: string;
   nodeId?: string;
 }
@@ -29,14 +31,16 @@ export interface HealthyProvider {
 }
 
 export class StorageProviderSelector {
-  private apiUrl: string;
+  private api: SPKAPI;
+  private logger: Logger;
   public providers: Record<string, string[]> = {};
-  public services: any[] = [];
+  public services: Array<Record<string, ServiceEntry>> = [];
   public providerStats: Record<string, ProviderStats> = {};
   public skipNodes: Set<string>;
 
-  constructor(apiUrl: string = 'https://spktest.dlux.io') {
-    this.apiUrl = apiUrl;
+  constructor(apiUrl: string = NETWORKS[DEFAULT_NETWORK].nodes[0], api: SPKAPI = new SPKAPI(apiUrl)) {
+    this.api = api;
+    this.logger = api.logger || silentLogger;
     
     // Known problematic nodes to skip
     this.skipNodes = new Set([
@@ -51,26 +55,26 @@ export class StorageProviderSelector {
    */
   async fetchProviders(): Promise<boolean> {
     try {
-      const response = await fetch(`${this.apiUrl}/services/IPFS`);
-      const data = await response.json();
+      const response = await this.api.fetch(`${this.api.node}/services/IPFS`);
+      const data = parseServices(await response.json(), '/services/IPFS');
       
       // Process provider list
-      if (data.providers) {
-        for (const [node, idString] of Object.entries(data.providers)) {
-          const ids = (idString as string).split(',');
-          this.providers[node] = ids;
-        }
+      for (const [node, idString] of Object.entries(data.providers)) {
+        this.providers[node] = idString.split(',');
       }
       
       // Process services
-      if (data.services) {
+      if (data.services.length > 0) {
         this.services = data.services;
       }
       
-      console.log(`Found ${Object.keys(this.providers).length} IPFS providers`);
+      this.logger.debug('Fetched IPFS providers', {
+        operation: 'providers.fetch',
+        count: Object.keys(this.providers).length,
+      });
       return true;
     } catch (error) {
-      console.error('Failed to fetch IPFS providers:', error);
+      this.logger.error('Failed to fetch IPFS providers', { operation: 'providers.fetch', error });
       throw error;
     }
   }
@@ -92,20 +96,28 @@ export class StorageProviderSelector {
     
     for (const serviceGroup of this.services) {
       for (const [nodeId, service] of Object.entries(serviceGroup)) {
-        const providerUrl = (service as any).a || (service as any).api;
+        const providerUrl = service.a || service.api;
         
         if (!providerUrl) continue;
         
         // Skip known problematic nodes
         if (this.shouldSkipProvider(providerUrl)) {
-          console.log(`Skipping known problematic provider: ${providerUrl}`);
+          this.logger.debug('Skipping known problematic provider', {
+            operation: 'providers.stats',
+            provider: nodeId,
+            url: providerUrl,
+          });
           continue;
         }
         
         // Fetch stats with timeout
         const statsPromise = this.fetchProviderStats(nodeId, providerUrl)
           .catch(error => {
-            console.debug(`Provider ${nodeId} stats fetch failed:`, error.message);
+            this.logger.debug('Provider stats fetch failed', {
+              operation: 'providers.stats',
+              provider: nodeId,
+              error,
+            });
             return null;
           });
         
@@ -114,45 +126,27 @@ export class StorageProviderSelector {
     }
     
     await Promise.all(statsPromises);
-    console.log(`Fetched stats for ${Object.keys(this.providerStats).length} providers`);
+    this.logger.debug('Fetched provider stats', {
+      operation: 'providers.stats',
+      count: Object.keys(this.providerStats).length,
+    });
   }
 
   /**
    * Fetch stats for a single provider
    */
-  async fetchProviderStats(nodeId: string, providerUrl: string): Promise<ProviderStats | null> {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), 5000); // 5 second timeout
+  async fetchProviderStats(nodeId: string, providerUrl: string): Promise<UploadStats | null> {
+    const data = await this.api.getUploadStats(providerUrl, 5000); // 5 second timeout
     
-    try {
-      const response = await fetch(`${providerUrl}/upload-stats`, { 
-        signal: controller.signal,
-        headers: {
-          'Accept': 'application/json'
-        }
-      });
-      
-      clearTimeout(timeoutId);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (data && (data.node || nodeId)) {
-        this.providerStats[data.node || nodeId] = {
-          ...data,
-          api: providerUrl,
-          nodeId: nodeId
-        };
-        return data;
-      }
-      return null;
-    } catch (error) {
-      clearTimeout(timeoutId);
-      throw error;
+    if (data.node || nodeId) {
+      this.providerStats[data.node || nodeId] = {
+        ...data,
+        api: providerUrl,
+        nodeId: nodeId
+      };
+      return data;
     }
+    return null;
   }
 
   /**
@@ -182,7 +176,11 @@ export class StorageProviderSelector {
           });
         }
       } catch (error) {
-        console.debug(`Error processing stats for ${nodeId}:`, error);
+        this.logger.debug('Failed to process provider stats', {
+          operation: 'providers.select',
+          provider: nodeId,
+          error,
+        });
       }
     }
     
@@ -205,7 +203,7 @@ export class StorageProviderSelector {
     const healthyProviders = this.getHealthyProviders(requiredSize);
     
     if (healthyProviders.length === 0) {
-      throw new Error('No healthy storage providers with sufficient space available');
+      throw new NoHealthyProviderError(requiredSize);
     }
     
     // Return the best provider (most free space ratio)
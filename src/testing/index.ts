@@ -0,0 +1,7 @@
+/**
+ * SPK-JS testing utilities
+ * Published as the `@spknetwork/spk-js/testing` entry point
+ */
+
+export { MockSPKNode } from './mock-node';
+export type { MockAccount, MockSPKNodeOptions, MockRequestRecord } from './mock-node';
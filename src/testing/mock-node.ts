@@ -0,0 +1,608 @@
+/**
+ * In-process mock SPK node and IPFS storage provider
+ * Serves the honeycomb and TROLE endpoints the SDK uses from in-memory
+ * account, contract and BROCA state, so SPK, SPKDrive and SPKFileUpload
+ * can run end to end without a network
+ */
+
+import { Transport } from '../core/transport';
+import { CustomSigner } from '../core/keychain-adapter';
+import { FileContract } from '../core/models';
+import { DELEGATION_FIELDS, DelegationFields } from '../tokens/delegation';
+import { NumberToBase64 } from '../utils/base64';
+
+export interface MockAccount {
+  name: string;
+  balance: number; // LARYNX in millitokens
+  spk: number;
+  poweredUp: number;
+  broca: number; // Stored BROCA, regenerates from broca_block
+  broca_block: number;
+  pow_broca: number;
+  pubKey: string;
+  [key: string]: any;
+}
+
+export interface MockSPKNodeOptions {
+  /** Base URL of the mock SPK node; the default resolves to the testnet profile */
+  url?: string;
+  /** Base URL of the mock storage provider */
+  providerUrl?: string;
+  /** Account name of the storage provider */
+  providerId?: string;
+  headBlock?: number;
+  channelBytes?: number;
+  channelMin?: number;
+  /** Capacity reported by /upload-stats in bytes */
+  storageMax?: number;
+  /** custom_json prefix of the LARYNX token (spkccT_ on the test network) */
+  jsonPrefix?: string;
+}
+
+export interface MockRequestRecord {
+  method: string;
+  url: string;
+  headers: Record<string, string>;
+  body?: any;
+}
+
+interface UploadState {
+  contractId: string;
+  size: number;
+  received: number;
+}
+
+interface MockResponseInit {
+  status?: number;
+  headers?: Record<string, string>;
+}
+
+const STATUS_TEXT: Record<number, string> = {
+  200: 'OK',
+  400: 'Bad Request',
+  401: 'Unauthorized',
+  403: 'Forbidden',
+  404: 'Not Found',
+};
+
+/**
+ * Build a fetch Response without relying on a global Response constructor
+ */
+function mockResponse(payload: any, init: MockResponseInit = {}): Response {
+  const status = init.status ?? 200;
+  const text = typeof payload === 'string' ? payload : JSON.stringify(payload);
+  const headers = new Map(
+    Object.entries({ 'content-type': 'application/json', ...(init.headers || {}) })
+      .map(([key, value]) => [key.toLowerCase(), value])
+  );
+
+  return {
+    ok: status >= 200 && status < 300,
+    status,
+    statusText: STATUS_TEXT[status] || '',
+    url: '',
+    headers: { get: (name: string) => headers.get(name.toLowerCase()) ?? null },
+    json: async () => JSON.parse(text),
+    text: async () => text,
+  } as unknown as Response;
+}
+
+function normalizeHeaders(headers: any): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!headers) return result;
+
+  const entries: Array<[string, any]> =
+    typeof headers.forEach === 'function' && !Array.isArray(headers) && typeof headers.get === 'function'
+      ? (() => {
+          const list: Array<[string, any]> = [];
+          headers.forEach((value: any, key: string) => list.push([key, value]));
+          return list;
+        })()
+      : Array.isArray(headers)
+        ? headers
+        : Object.entries(headers);
+
+  for (const [key, value] of entries) {
+    result[key.toLowerCase()] = String(value);
+  }
+  return result;
+}
+
+function parseBody(body: any): any {
+  if (typeof body !== 'string') return body;
+  try {
+    return JSON.parse(body);
+  } catch {
+    return body;
+  }
+}
+
+export class MockSPKNode {
+  public readonly url: string;
+  public readonly providerUrl: string;
+  public readonly providerId: string;
+  public headBlock: number;
+  public channelBytes: number;
+  public channelMin: number;
+  public storageMax: number;
+  public readonly jsonPrefix: string;
+
+  public readonly accounts: Map<string, MockAccount> = new Map();
+  public readonly contracts: Map<string, FileContract> = new Map();
+  /** Every request the mock served, in order */
+  public readonly requests: MockRequestRecord[] = [];
+
+  private aliases: Map<string, string> = new Map();
+  private unclaimed: string[] = [];
+  private authorized: Map<string, string> = new Map(); // cid -> contract id
+  private uploads: Map<string, UploadState> = new Map();
+  private stored: Map<string, number> = new Map(); // cid -> size
+  private brocaGrants: Map<string, number> = new Map(); // from:to -> BROCA power granted
+  private txCounter = 0;
+  private restoreFetch?: () => void;
+
+  constructor(options: MockSPKNodeOptions = {}) {
+    this.url = (options.url || 'http://spktest.mock').replace(/\/+$/, '');
+    this.providerUrl = (options.providerUrl || 'http://ipfs.mock').replace(/\/+$/, '');
+    this.providerId = options.providerId || 'mock-provider';
+    this.headBlock = options.headBlock ?? 1000;
+    this.channelBytes = options.channelBytes ?? 1024;
+    this.channelMin = options.channelMin ?? 100;
+    this.storageMax = options.storageMax ?? 1024 * 1024 * 1024 * 1024;
+    this.jsonPrefix = options.jsonPrefix || 'spkccT_';
+  }
+
+  /**
+   * Create or update an account. Unknown accounts are created with zero balances on first use.
+   */
+  addAccount(name: string, state: Partial<Omit<MockAccount, 'name'>> = {}): MockAccount {
+    const account: MockAccount = {
+      ...(this.accounts.get(name) || {
+        name,
+        balance: 0,
+        spk: 0,
+        poweredUp: 0,
+        broca: 0,
+        broca_block: this.headBlock,
+        pow_broca: 0,
+        pubKey: 'NA',
+      }),
+      ...state,
+    };
+    if (state.broca !== undefined && state.broca_block === undefined) {
+      account.broca_block = this.headBlock;
+    }
+    this.accounts.set(name, account);
+    return account;
+  }
+
+  getAccount(name: string): MockAccount {
+    return this.accounts.get(name) || this.addAccount(name);
+  }
+
+  /**
+   * Look up a contract by its id or by an id the client derived for it
+   */
+  getContract(id: string): FileContract | undefined {
+    return this.contracts.get(this.aliases.get(id) || id);
+  }
+
+  /**
+   * Fetch-compatible handler. Pass it as the `transport` option of SPK / SPKAPI.
+   */
+  public readonly fetch: Transport = async (input, init = {}) => {
+    const url = String(input);
+    const method = (init.method || 'GET').toUpperCase();
+    const headers = normalizeHeaders(init.headers);
+    const body = parseBody(init.body);
+
+    this.requests.push({ method, url, headers, body });
+
+    if (url.startsWith(this.url)) {
+      return this.handleNode(method, url.slice(this.url.length) || '/', body);
+    }
+    if (url.startsWith(this.providerUrl)) {
+      return this.handleProvider(method, url.slice(this.providerUrl.length) || '/', headers, body);
+    }
+    return mockResponse({ error: `No mock route for ${url}` }, { status: 404 });
+  };
+
+  /**
+   * Signer that accepts every request and applies broadcast operations to
+   * the mock state. Use it as the `keychain` option of SPK.
+   */
+  public readonly signer: CustomSigner = {
+    requestSignature: (account, challenge, _keyType, callback) => {
+      const { pubKey } = this.getAccount(account);
+      callback({
+        success: true,
+        signature: `mock-signature:${account}:${challenge}`,
+        publicKey: pubKey !== 'NA' ? pubKey : `STM8Mock${account}`,
+      });
+    },
+    requestBroadcast: (account, operations, _keyType, callback) => {
+      try {
+        const id = this.broadcast(account, operations);
+        // Included in the block the node just processed; its head is now past it
+        callback({ success: true, result: { id, block_num: this.headBlock - 1 } });
+      } catch (error: any) {
+        callback({ success: false, error: error.message });
+      }
+    },
+  };
+
+  /**
+   * Route global fetch through the mock for its URLs; other URLs fall
+   * through to the original fetch. Returns a function that restores it.
+   */
+  install(): () => void {
+    this.uninstall();
+    const target = globalThis as any;
+    const original = target.fetch;
+
+    target.fetch = (input: any, init?: RequestInit) => {
+      const url = String(input?.url || input);
+      if (url.startsWith(this.url) || url.startsWith(this.providerUrl)) {
+        return this.fetch(url, init || {});
+      }
+      return original(input, init);
+    };
+
+    this.restoreFetch = () => {
+      target.fetch = original;
+      this.restoreFetch = undefined;
+    };
+    return this.restoreFetch;
+  }
+
+  uninstall(): void {
+    this.restoreFetch?.();
+  }
+
+  /**
+   * Drop all accounts, contracts, uploads and recorded requests
+   */
+  reset(): void {
+    this.accounts.clear();
+    this.contracts.clear();
+    this.requests.length = 0;
+    this.aliases.clear();
+    this.unclaimed = [];
+    this.authorized.clear();
+    this.uploads.clear();
+    this.stored.clear();
+  }
+
+  /**
+   * Apply custom_json operations and advance one block
+   */
+  broadcast(account: string, operations: any[]): string {
+    this.headBlock++;
+    const txId = `mocktx${++this.txCounter}`;
+
+    for (const [type, op] of operations) {
+      if (type !== 'custom_json') continue;
+      const json = typeof op.json === 'string' ? JSON.parse(op.json) : op.json;
+      this.applyCustomJson(account, String(op.id), json || {});
+    }
+    return txId;
+  }
+
+  private applyCustomJson(account: string, id: string, json: any): void {
+    if (!id.startsWith(this.jsonPrefix)) return;
+    const action = id.slice(this.jsonPrefix.length);
+    const from = this.getAccount(account);
+    const amount = Number(json.amount) || 0;
+
+    switch (action) {
+      case 'channel_open':
+        this.openChannel(account, json);
+        break;
+      case 'send':
+        this.transfer(from, 'balance', json.to, amount);
+        break;
+      case 'spk_send':
+        this.transfer(from, 'spk', json.to, amount);
+        break;
+      case 'broca_send':
+        this.transfer(from, 'broca', json.to, amount);
+        break;
+      case 'power_up':
+        this.debit(from, 'balance', amount);
+        from.poweredUp += amount;
+        break;
+      case 'power_down':
+        // A power down of 0 cancels the pending installments
+        if (!amount) from.power_downs = {};
+        this.debit(from, 'poweredUp', amount);
+        from.balance += amount;
+        break;
+      case 'gov_up':
+        this.debit(from, 'balance', amount);
+        from.gov = (from.gov || 0) + amount;
+        break;
+      case 'gov_down':
+        from.gov = from.gov || 0;
+        this.debit(from, 'gov', amount);
+        from.balance += amount;
+        break;
+      case 'spk_power_grant':
+        this.grant(from, DELEGATION_FIELDS.SPK, json.to, amount);
+        break;
+      case 'broca_power_grant':
+        this.grantBroca(from, json.to, amount);
+        break;
+    }
+  }
+
+  /**
+   * Set the power `from` delegates to `to`; the amount replaces any earlier grant
+   */
+  private grant(from: MockAccount, fields: DelegationFields, to: string, amount: number): void {
+    const recipient = this.getAccount(to);
+    const granting = from[fields.granting] || { t: 0 };
+    const granted = recipient[fields.granted] || { t: 0 };
+    const delta = amount - (granting[to] || 0);
+
+    from[fields.power] = from[fields.power] || 0;
+    this.debit(from, fields.power, delta);
+    granting.t += delta;
+    granted.t += delta;
+    if (amount) {
+      granting[to] = amount;
+      granted[from.name] = amount;
+    } else {
+      delete granting[to];
+      delete granted[from.name];
+    }
+    from[fields.granting] = granting;
+    recipient[fields.granted] = granted;
+  }
+
+  /**
+   * Move BROCA power for a grant; the grant itself is not reported on the account
+   */
+  private grantBroca(from: MockAccount, to: string, amount: number): void {
+    const key = `${from.name}:${to}`;
+    const delta = amount - (this.brocaGrants.get(key) || 0);
+
+    from.pow_broca = from.pow_broca || 0;
+    this.debit(from, 'pow_broca', delta);
+    if (amount) {
+      this.brocaGrants.set(key, amount);
+    } else {
+      this.brocaGrants.delete(key);
+    }
+  }
+
+  private openChannel(from: string, json: any): void {
+    const broca = Number(json.broca) || 0;
+    const owner = json.to || from;
+    this.debit(this.getAccount(from), 'broca', broca);
+
+    const id = `${owner}:0:${this.headBlock}-${this.txCounter}`;
+    this.contracts.set(id, {
+      i: id,
+      t: owner,
+      f: from,
+      b: json.broker || this.providerId,
+      a: broca * this.channelBytes,
+      c: 1,
+      e: `${this.headBlock + 864000}:QmMockExpiry`,
+      m: '',
+      n: {},
+      p: 3,
+      r: broca,
+      u: 0,
+      df: {},
+      api: this.providerUrl,
+    });
+    this.unclaimed.push(id);
+  }
+
+  private transfer(from: MockAccount, field: 'balance' | 'spk' | 'broca', to: string, amount: number): void {
+    this.debit(from, field, amount);
+    const recipient = this.getAccount(to);
+    recipient[field] += amount;
+    if (field === 'broca') recipient.broca_block = this.headBlock;
+  }
+
+  private debit(account: MockAccount, field: string, amount: number): void {
+    if (account[field] < amount) {
+      throw new Error(`Insufficient ${field} for ${account.name}`);
+    }
+    account[field] -= amount;
+    if (field === 'broca') account.broca_block = this.headBlock;
+  }
+
+  /**
+   * SPKContractCreator derives contract ids on the client, so the first lookup
+   * of an unknown `user_...` id is bound to that user's oldest unclaimed contract
+   */
+  private resolveContract(id: string): FileContract | undefined {
+    const existing = this.getContract(id);
+    if (existing) return existing;
+
+    const owner = id.split('_')[0];
+    const index = this.unclaimed.findIndex(key => this.contracts.get(key)?.t === owner);
+    if (index === -1) return undefined;
+
+    const [contractId] = this.unclaimed.splice(index, 1);
+    this.aliases.set(id, contractId);
+    return this.contracts.get(contractId);
+  }
+
+  private accountPayload(name: string): Record<string, any> {
+    const { broca, broca_block, ...account } = this.getAccount(name);
+    const owned: Record<string, FileContract> = {};
+    this.contracts.forEach((contract, id) => {
+      if (contract.t === name) owned[id] = contract;
+    });
+
+    return {
+      spk_power: 0,
+      gov: 0,
+      granted: { t: 0 },
+      granting: { t: 0 },
+      power_downs: {},
+      contracts: [],
+      ...account,
+      account: name,
+      broca: `${broca},${NumberToBase64(broca_block)}`,
+      file_contracts: owned,
+      channels: {},
+      head_block: this.headBlock,
+      behind: 0,
+      tick: 0.01,
+      node: 'mock',
+    };
+  }
+
+  private statsPayload(): Record<string, any> {
+    return {
+      result: {
+        channel_bytes: this.channelBytes,
+        channel_min: this.channelMin,
+        spk_rate_lgov: '0.001',
+        spk_rate_ldel: '0.00015',
+        spk_rate_uown: '0.0001',
+      },
+      head_block: this.headBlock,
+      behind: 0,
+      node: 'mock',
+    };
+  }
+
+  private handleNode(method: string, path: string, body: any): Response {
+    const [route] = path.split('?');
+
+    if (method === 'GET') {
+      if (route === '/' || route === '/stats') {
+        return mockResponse(this.statsPayload());
+      }
+
+      const prefixes: Record<string, string> = {
+        '/api/protocol': this.jsonPrefix,
+        '/spk/api/protocol': `${this.jsonPrefix}spk_`,
+        '/broca/api/protocol': `${this.jsonPrefix}broca_`,
+      };
+      if (prefixes[route]) {
+        return mockResponse({
+          precision: 3,
+          json_prefix: prefixes[route],
+          api_health: { head_block: this.headBlock, behind: 0 },
+        });
+      }
+
+      if (route === '/services/IPFS') {
+        return mockResponse({
+          providers: { [this.providerId]: 'QmMockPeer' },
+          services: [{ [this.providerId]: { a: this.providerUrl, b: this.providerId, c: 0, e: true } }],
+        });
+      }
+
+      const contractMatch = route.match(/^\/api\/fileContract\/([^/]+)$/);
+      if (contractMatch) {
+        const contract = this.resolveContract(decodeURIComponent(contractMatch[1]));
+        return contract
+          ? mockResponse({ result: contract, head_block: this.headBlock, behind: 0 })
+          : mockResponse({ error: 'Contract not found' }, { status: 404 });
+      }
+
+      const fileMatch = route.match(/^\/api\/file\/([^/]+)$/);
+      if (fileMatch) {
+        const contract = Array.from(this.contracts.values()).find(entry => entry.df?.[fileMatch[1]] !== undefined);
+        return contract
+          ? mockResponse({ result: contract, head_block: this.headBlock, behind: 0 })
+          : mockResponse({ error: 'File not found' }, { status: 404 });
+      }
+
+      const accountMatch = route.match(/^\/@([^/]+)$/);
+      if (accountMatch) {
+        return mockResponse(this.accountPayload(decodeURIComponent(accountMatch[1])));
+      }
+    }
+
+    if (method === 'POST' && route === '/api/register') {
+      this.getAccount(body?.account).pubKey = body?.pubKey || 'NA';
+      return mockResponse({ success: true });
+    }
+
+    return mockResponse({ error: `No mock route for ${method} ${route}` }, { status: 404 });
+  }
+
+  private handleProvider(method: string, path: string, headers: Record<string, string>, body: any): Response {
+    const [route] = path.split('?');
+
+    if (method === 'GET' && route === '/upload-stats') {
+      let repoSize = 0;
+      this.stored.forEach(size => (repoSize += size));
+      return mockResponse({
+        node: this.providerId,
+        StorageMax: String(this.storageMax),
+        RepoSize: String(repoSize),
+        NumObjects: this.stored.size,
+      });
+    }
+
+    if (method === 'POST' && route === '/upload-authorize') {
+      return this.authorizeUpload(headers, body);
+    }
+
+    if (method === 'POST' && route === '/upload') {
+      return this.receiveChunk(headers);
+    }
+
+    return mockResponse({ error: `No mock route for ${method} ${route}` }, { status: 404 });
+  }
+
+  private authorizeUpload(headers: Record<string, string>, _body: any): Response {
+    const contract = this.resolveContract(headers['x-contract'] || '');
+    if (!contract || !headers['x-sig'] || !headers['x-account']) {
+      return mockResponse({ message: 'Missing required data' }, { status: 400 });
+    }
+    if (contract.t !== headers['x-account']) {
+      return mockResponse({ message: 'Account does not own contract' }, { status: 401 });
+    }
+
+    const cids = (headers['x-cids'] || headers['x-cid'] || '').split(',').filter(Boolean);
+    cids.forEach(cid => this.authorized.set(cid, contract.i));
+    return mockResponse({ authorized: cids, cid: cids[0] });
+  }
+
+  private receiveChunk(headers: Record<string, string>): Response {
+    const cid = headers['x-cid'];
+    const contract = this.resolveContract(headers['x-contract'] || '');
+    if (!cid || !contract || this.authorized.get(cid) !== contract.i) {
+      return mockResponse({ message: 'No file with such credentials' }, { status: 401 });
+    }
+
+    const range = (headers['content-range'] || '').match(/bytes\s+(\d+)-(\d+)\/(\d+)/);
+    if (!range) {
+      return mockResponse({ message: 'Invalid Content-Range format' }, { status: 400 });
+    }
+    const [start, end, total] = range.slice(1).map(Number);
+
+    const upload = this.uploads.get(cid) || { contractId: contract.i, size: total, received: 0 };
+    if (start !== upload.received) {
+      return mockResponse(
+        { message: 'Bad chunk provided', startByte: start, haveByte: upload.received },
+        { status: 403 }
+      );
+    }
+
+    upload.received = end + 1;
+    this.uploads.set(cid, upload);
+
+    if (upload.received >= upload.size) {
+      this.uploads.delete(cid);
+      this.stored.set(cid, upload.size);
+      contract.df = { ...(contract.df || {}), [cid]: upload.size };
+      contract.u = (contract.u || 0) + upload.size;
+      contract.n = { ...(contract.n || {}), '1': this.providerId };
+      contract.c = 2;
+    }
+
+    return mockResponse({ success: true, received: upload.received });
+  }
+}
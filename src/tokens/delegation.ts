@@ -0,0 +1,137 @@
+/**
+ * Delegation and governance
+ * Reads the power grants an account reports and projects what delegating
+ * power or locking governance stake does to its balances
+ */
+
+import { SPKError } from '../core/errors';
+import { SPKAccountData } from '../core/models';
+
+export interface Delegation {
+  account: string;
+  /** Power in base units */
+  amount: number;
+}
+
+export interface Delegations {
+  /** Token whose power is delegated */
+  token: string;
+  /** Power granted to the account */
+  incoming: Delegation[];
+  /** Power the account grants to others */
+  outgoing: Delegation[];
+  totalIn: number;
+  totalOut: number;
+}
+
+export interface ProjectedField {
+  field: string;
+  current: number;
+  projected: number;
+}
+
+export interface BalanceProjection {
+  /** Account fields the operation changes, in base units */
+  changes: ProjectedField[];
+  /** False when the account lacks the balance the operation spends */
+  sufficient: boolean;
+}
+
+export interface DelegationFields {
+  /** Delegable power */
+  power: string;
+  /** Grants received, `{ t: total, [from]: amount }` */
+  granted: string;
+  /** Grants made, `{ t: total, [to]: amount }` */
+  granting: string;
+}
+
+/**
+ * Account fields of each token's power and grants. The node reports grants
+ * of SPK power only; BROCA grants are not in the account data, so they can
+ * be broadcast but not listed or projected.
+ */
+export const DELEGATION_FIELDS: Record<string, DelegationFields> = {
+  SPK: { power: 'spk_power', granted: 'granted', granting: 'granting' },
+};
+
+/**
+ * Delegations of a token's power in and out of an account, largest first
+ */
+export function parseDelegations(data: SPKAccountData, token = 'SPK'): Delegations {
+  const fields = delegationFields(token);
+  const incoming = grants(data[fields.granted]);
+  const outgoing = grants(data[fields.granting]);
+  return {
+    token: token.toUpperCase(),
+    incoming,
+    outgoing,
+    totalIn: data[fields.granted]?.t ?? sum(incoming),
+    totalOut: data[fields.granting]?.t ?? sum(outgoing),
+  };
+}
+
+/**
+ * Balances after delegating `amount` of a token's power to `to`. The amount
+ * replaces any delegation to `to`, so 0 removes it and returns the power.
+ */
+export function projectDelegation(
+  data: SPKAccountData,
+  token: string,
+  to: string,
+  amount: number
+): BalanceProjection {
+  const fields = delegationFields(token);
+  const power = Number(data[fields.power]) || 0;
+  const granting = parseDelegations(data, token);
+  const existing = granting.outgoing.find(delegation => delegation.account === to)?.amount || 0;
+  const delta = amount - existing;
+
+  return {
+    changes: [
+      { field: fields.power, current: power, projected: power - delta },
+      { field: fields.granting, current: granting.totalOut, projected: granting.totalOut + delta },
+    ],
+    sufficient: power - delta >= 0,
+  };
+}
+
+/**
+ * Balances after locking LARYNX for governance or unlocking it
+ */
+export function projectGovernance(data: SPKAccountData, direction: 'lock' | 'unlock', amount: number): BalanceProjection {
+  const balance = Number(data.balance) || 0;
+  const gov = Number(data.gov) || 0;
+  const delta = direction === 'lock' ? amount : -amount;
+
+  return {
+    changes: [
+      { field: 'balance', current: balance, projected: balance - delta },
+      { field: 'gov', current: gov, projected: gov + delta },
+    ],
+    sufficient: direction === 'lock' ? balance >= amount : gov >= amount,
+  };
+}
+
+/**
+ * Power and grant fields of a token, UNSUPPORTED_TOKEN for tokens whose
+ * grants the account data does not report
+ */
+export function delegationFields(token: string): DelegationFields {
+  const fields = DELEGATION_FIELDS[token.toUpperCase()];
+  if (!fields) {
+    throw new SPKError(`Delegations of ${token} are not reported by the node`, 'UNSUPPORTED_TOKEN');
+  }
+  return fields;
+}
+
+function grants(map?: { t: number; [account: string]: number }): Delegation[] {
+  return Object.entries(map || {})
+    .filter(([account, amount]) => account !== 't' && Number(amount) > 0)
+    .map(([account, amount]) => ({ account, amount: Number(amount) }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+function sum(delegations: Delegation[]): number {
+  return delegations.reduce((total, { amount }) => total + amount, 0);
+}
@@ -6,163 +6,351 @@
 import { KeychainAdapter } from '../core/keychain-adapter';
 import { SPKAPI } from '../core/api';
 import { ProtocolManager } from '../core/protocol';
+import { SPKError, SignerUnavailableError, SignerRejectedError, HTTPStatusError } from '../core/errors';
+import {
+  TransactionTracker,
+  TransactionStatus,
+  TransactionConfirmation,
+  ConfirmationOptions,
+} from '../core/confirmation';
+import { DryRunOptions, DryRunResult, DryRun, NoDryRun, customJsonOperation } from '../core/dry-run';
+import { TokenBalance } from '../core/token-registry';
+import { NodeSyncGuard } from '../core/node-sync';
+import {
+  Delegations,
+  BalanceProjection,
+  parseDelegations,
+  projectDelegation,
+  projectGovernance,
+} from './delegation';
 
 export interface TokenOperationResult {
   id: string;
+  /** Hive block of the transaction, once known */
   block?: number;
   success: boolean;
+  status?: TransactionStatus;
+  /**
+   * Wait for the node to process the transaction, updating block and status.
+   * Set when the operations were created with a TransactionTracker.
+   */
+  wait?: (options?: ConfirmationOptions) => Promise<TransactionConfirmation>;
 }
 
+/**
+ * Options of every token operation; `{ dryRun: true }` returns a DryRunResult
+ */
+export type TokenOperationOptions = DryRunOptions;
+
 export class TokenOperations {
   private keychainAdapter: KeychainAdapter | null;
   private api: SPKAPI;
   private protocol: ProtocolManager;
   private username: string;
+  private tracker?: TransactionTracker;
+  private sync?: NodeSyncGuard;
 
   constructor(
     username: string,
     keychainAdapter: KeychainAdapter | null,
     api: SPKAPI,
-    protocol: ProtocolManager
+    protocol: ProtocolManager,
+    tracker?: TransactionTracker,
+    sync?: NodeSyncGuard
   ) {
     this.username = username;
     this.keychainAdapter = keychainAdapter;
     this.api = api;
     this.protocol = protocol;
+    this.tracker = tracker;
+    this.sync = sync;
   }
 
   /**
    * Send any token using amount string format (e.g., "50.000 BROCA")
    */
-  async send(amountStr: string, to: string, memo = ''): Promise<TokenOperationResult> {
+  async send(amountStr: string, to: string, memo: string, options: DryRun): Promise<DryRunResult>;
+  async send(amountStr: string, to: string, memo?: string, options?: NoDryRun): Promise<TokenOperationResult>;
+  async send(amountStr: string, to: string, memo?: string, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async send(
+    amountStr: string,
+    to: string,
+    memo = '',
+    options: TokenOperationOptions = {}
+  ): Promise<TokenOperationResult | DryRunResult> {
     const { amount, token } = this.protocol.parseAmount(amountStr);
     
     switch (token) {
       case 'LARYNX':
-        return this.sendLarynx(amount, to, memo);
+        return this.sendLarynx(amount, to, memo, options);
       case 'SPK':
-        return this.sendSpk(amount, to, memo);
+        return this.sendSpk(amount, to, memo, options);
       case 'BROCA':
-        return this.sendBroca(amount, to, memo);
+        return this.sendBroca(amount, to, memo, options);
       default:
-        throw new Error(`Unsupported token: ${token}`);
+        // Registered tokens
+        this.requireFeature(token, 'send', 'Send');
+        return this.execute(token, 'send', { to, amount, memo }, options);
     }
   }
 
   /**
    * Send LARYNX tokens
    */
-  async sendLarynx(amount: number, to: string, memo = ''): Promise<TokenOperationResult> {
-    return this.executeTokenOperation('LARYNX', 'send', {
+  async sendLarynx(amount: number, to: string, memo: string, options: DryRun): Promise<DryRunResult>;
+  async sendLarynx(amount: number, to: string, memo?: string, options?: NoDryRun): Promise<TokenOperationResult>;
+  async sendLarynx(amount: number, to: string, memo?: string, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async sendLarynx(
+    amount: number,
+    to: string,
+    memo = '',
+    options: TokenOperationOptions = {}
+  ): Promise<TokenOperationResult | DryRunResult> {
+    return this.execute('LARYNX', 'send', {
       to,
       amount,
       memo
-    });
+    }, options);
   }
 
   /**
    * Send SPK tokens
    */
-  async sendSpk(amount: number, to: string, memo = ''): Promise<TokenOperationResult> {
-    return this.executeTokenOperation('SPK', 'send', {
+  async sendSpk(amount: number, to: string, memo: string, options: DryRun): Promise<DryRunResult>;
+  async sendSpk(amount: number, to: string, memo?: string, options?: NoDryRun): Promise<TokenOperationResult>;
+  async sendSpk(amount: number, to: string, memo?: string, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async sendSpk(
+    amount: number,
+    to: string,
+    memo = '',
+    options: TokenOperationOptions = {}
+  ): Promise<TokenOperationResult | DryRunResult> {
+    return this.execute('SPK', 'send', {
       to,
       amount,
       memo
-    });
+    }, options);
   }
 
   /**
    * Send BROCA tokens
    */
-  async sendBroca(amount: number, to: string, memo = ''): Promise<TokenOperationResult> {
-    return this.executeTokenOperation('BROCA', 'send', {
+  async sendBroca(amount: number, to: string, memo: string, options: DryRun): Promise<DryRunResult>;
+  async sendBroca(amount: number, to: string, memo?: string, options?: NoDryRun): Promise<TokenOperationResult>;
+  async sendBroca(amount: number, to: string, memo?: string, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async sendBroca(
+    amount: number,
+    to: string,
+    memo = '',
+    options: TokenOperationOptions = {}
+  ): Promise<TokenOperationResult | DryRunResult> {
+    return this.execute('BROCA', 'send', {
       to,
       amount,
       memo
-    });
+    }, options);
   }
 
   /**
    * Power up tokens
    */
-  async powerUp(token: string, amount: number): Promise<TokenOperationResult> {
-    if (!['LARYNX', 'SPK', 'BROCA'].includes(token.toUpperCase())) {
-      throw new Error(`Power up not supported for token: ${token}`);
-    }
+  async powerUp(token: string, amount: number, options: DryRun): Promise<DryRunResult>;
+  async powerUp(token: string, amount: number, options?: NoDryRun): Promise<TokenOperationResult>;
+  async powerUp(token: string, amount: number, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async powerUp(
+    token: string,
+    amount: number,
+    options: TokenOperationOptions = {}
+  ): Promise<TokenOperationResult | DryRunResult> {
+    this.requireFeature(token, 'power_up', 'Power up');
     
-    return this.executeTokenOperation(token.toUpperCase(), 'power_up', {
+    return this.execute(token.toUpperCase(), 'power_up', {
       amount
-    });
+    }, options);
   }
 
   /**
    * Power down tokens
    */
-  async powerDown(token: string, amount: number): Promise<TokenOperationResult> {
-    if (!['LARYNX', 'SPK'].includes(token.toUpperCase())) {
-      throw new Error(`Power down not supported for token: ${token}`);
-    }
+  async powerDown(token: string, amount: number, options: DryRun): Promise<DryRunResult>;
+  async powerDown(token: string, amount: number, options?: NoDryRun): Promise<TokenOperationResult>;
+  async powerDown(token: string, amount: number, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async powerDown(
+    token: string,
+    amount: number,
+    options: TokenOperationOptions = {}
+  ): Promise<TokenOperationResult | DryRunResult> {
+    this.requireFeature(token, 'power_down', 'Power down');
     
-    return this.executeTokenOperation(token.toUpperCase(), 'power_down', {
+    return this.execute(token.toUpperCase(), 'power_down', {
       amount
-    });
+    }, options);
   }
 
   /**
    * Claim rewards
    */
-  async claim(token: string): Promise<TokenOperationResult> {
-    if (!['LARYNX', 'SPK'].includes(token.toUpperCase())) {
-      throw new Error(`Claim not supported for token: ${token}`);
-    }
+  async claim(token: string, options: DryRun): Promise<DryRunResult>;
+  async claim(token: string, options?: NoDryRun): Promise<TokenOperationResult>;
+  async claim(token: string, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async claim(token: string, options: TokenOperationOptions = {}): Promise<TokenOperationResult | DryRunResult> {
+    this.requireFeature(token, 'claim', 'Claim');
     
-    return this.executeTokenOperation(token.toUpperCase(), 'claim', {});
+    return this.execute(token.toUpperCase(), 'claim', {}, options);
+  }
+
+  /**
+   * Delegate power of a token (SPK, BROCA) to an account. The amount
+   * replaces any current delegation to that account.
+   */
+  async delegate(token: string, to: string, amount: number, options: DryRun): Promise<DryRunResult>;
+  async delegate(token: string, to: string, amount: number, options?: NoDryRun): Promise<TokenOperationResult>;
+  async delegate(
+    token: string,
+    to: string,
+    amount: number,
+    options?: TokenOperationOptions
+  ): Promise<TokenOperationResult | DryRunResult>;
+  async delegate(
+    token: string,
+    to: string,
+    amount: number,
+    options: TokenOperationOptions = {}
+  ): Promise<TokenOperationResult | DryRunResult> {
+    this.requireFeature(token, 'power_grant', 'Delegation');
+
+    return this.execute(token.toUpperCase(), 'power_grant', {
+      to,
+      amount
+    }, options);
+  }
+
+  /**
+   * Remove a delegation, returning the power to this account
+   */
+  async undelegate(token: string, to: string, options: DryRun): Promise<DryRunResult>;
+  async undelegate(token: string, to: string, options?: NoDryRun): Promise<TokenOperationResult>;
+  async undelegate(token: string, to: string, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async undelegate(token: string, to: string, options: TokenOperationOptions = {}): Promise<TokenOperationResult | DryRunResult> {
+    return this.delegate(token, to, 0, options);
+  }
+
+  /**
+   * Lock LARYNX as governance stake
+   */
+  async lockGov(amount: number, options: DryRun): Promise<DryRunResult>;
+  async lockGov(amount: number, options?: NoDryRun): Promise<TokenOperationResult>;
+  async lockGov(amount: number, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async lockGov(amount: number, options: TokenOperationOptions = {}): Promise<TokenOperationResult | DryRunResult> {
+    this.requireFeature('LARYNX', 'gov_up', 'Governance lock');
+
+    return this.execute('LARYNX', 'gov_up', {
+      amount
+    }, options);
+  }
+
+  /**
+   * Unlock governance stake back to liquid LARYNX
+   */
+  async unlockGov(amount: number, options: DryRun): Promise<DryRunResult>;
+  async unlockGov(amount: number, options?: NoDryRun): Promise<TokenOperationResult>;
+  async unlockGov(amount: number, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async unlockGov(amount: number, options: TokenOperationOptions = {}): Promise<TokenOperationResult | DryRunResult> {
+    this.requireFeature('LARYNX', 'gov_down', 'Governance unlock');
+
+    return this.execute('LARYNX', 'gov_down', {
+      amount
+    }, options);
+  }
+
+  /**
+   * Delegations of a token's power in and out of an account
+   */
+  async getDelegations(account: string = this.username, token = 'SPK'): Promise<Delegations> {
+    return parseDelegations(await this.api.getAccount(account), token);
+  }
+
+  /**
+   * This account's balances after delegate(token, to, amount)
+   */
+  async projectDelegation(token: string, to: string, amount: number): Promise<BalanceProjection> {
+    return projectDelegation(await this.api.getAccount(this.username), token, to, amount);
+  }
+
+  /**
+   * This account's balances after lockGov(amount) or unlockGov(amount)
+   */
+  async projectGovernance(direction: 'lock' | 'unlock', amount: number): Promise<BalanceProjection> {
+    return projectGovernance(await this.api.getAccount(this.username), direction, amount);
   }
 
   /**
    * Register as SPK Network node
    */
+  async registerNode(
+    ipfsId: string,
+    domain: string,
+    bidRate: number,
+    decayMargin: number,
+    options: DryRun
+  ): Promise<DryRunResult>;
+  async registerNode(
+    ipfsId: string,
+    domain: string,
+    bidRate: number,
+    decayMargin: number,
+    options?: NoDryRun
+  ): Promise<TokenOperationResult>;
+  async registerNode(
+    ipfsId: string,
+    domain: string,
+    bidRate: number,
+    decayMargin: number,
+    options?: TokenOperationOptions
+  ): Promise<TokenOperationResult | DryRunResult>;
   async registerNode(
     ipfsId: string, 
     domain: string, 
     bidRate: number, 
-    decayMargin: number
-  ): Promise<TokenOperationResult> {
-    return this.executeTokenOperation('SPK', 'node_add', {
+    decayMargin: number,
+    options: TokenOperationOptions = {}
+  ): Promise<TokenOperationResult | DryRunResult> {
+    return this.execute('SPK', 'node_add', {
       id: ipfsId,
       domain,
       bidRate,
       dm: decayMargin
-    });
+    }, options);
   }
 
   /**
-   * Execute a token operation
+   * Execute any feature the node advertises for a token. Params are
+   * validated and converted against the feature's schema (see
+   * ProtocolManager.prepareOperation) and signed with the feature's auth
+   * level, so new chain features work without an SDK release.
    */
-  private async executeTokenOperation(
+  async execute(token: string, feature: string, params: Record<string, any>, options: DryRun): Promise<DryRunResult>;
+  async execute(
     token: string,
     feature: string,
-    data: any
-  ): Promise<TokenOperationResult> {
-    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
-      throw new Error('Keychain/Signer not available');
-    }
-
-    // Validate transaction data
-    this.protocol.validateTransaction(token, feature, data);
-
-    // Check recipient exists for send operations
-    if (feature === 'send' && data.to) {
-      const recipient = await this.api.get(`/@${data.to}`).catch(() => null);
-      if (!recipient) {
-        throw new Error(`Invalid recipient account: ${data.to}`);
-      }
-    }
+    params?: Record<string, any>,
+    options?: NoDryRun
+  ): Promise<TokenOperationResult>;
+  async execute(
+    token: string,
+    feature: string,
+    params?: Record<string, any>,
+    options?: TokenOperationOptions
+  ): Promise<TokenOperationResult | DryRunResult>;
+  async execute(
+    token: string,
+    feature: string,
+    params: Record<string, any> = {},
+    options: TokenOperationOptions = {}
+  ): Promise<TokenOperationResult | DryRunResult> {
+    const operation = await this.protocol.prepareOperation(token, feature, params);
+    const data = operation.json;
 
-    // Get custom JSON ID and auth type
-    const customJsonId = this.protocol.getCustomJsonId(token, feature);
-    const authType = this.protocol.getAuthType(token, feature);
-    
     // Build transaction JSON
     const json = {
       ...data,
@@ -171,25 +359,116 @@ export class TokenOperations {
 
     // Get token info for display message
     const amountDisplay = data.amount 
-      ? this.protocol.formatAmount(token, data.amount) 
+      ? this.protocol.formatAmount(operation.token, data.amount) 
       : '';
-    const displayMessage = this.buildDisplayMessage(token, feature, data, amountDisplay);
+    const displayMessage = this.buildDisplayMessage(operation.token, feature, data, amountDisplay, operation.desc);
 
+    if (options.dryRun) {
+      return {
+        dryRun: true,
+        transactions: [
+          {
+            auth: operation.auth,
+            operations: [customJsonOperation(this.username, operation.id, operation.auth, json)],
+            displayMessage,
+          },
+        ],
+      };
+    }
+
+    // Only the broadcast needs a signer, not a preview
+    if (!this.keychainAdapter || !this.keychainAdapter.isAvailable()) {
+      throw new SignerUnavailableError();
+    }
+    await this.sync?.check(`tokens.${feature}`);
+
+    let receipt;
     try {
-      const result = await this.keychainAdapter.broadcastCustomJson(
+      receipt = await this.keychainAdapter.broadcastCustomJson(
         this.username,
-        customJsonId,
-        authType === 'active' ? 'Active' : 'Posting',
+        operation.id,
+        operation.auth === 'active' ? 'Active' : 'Posting',
         json,
         displayMessage
       );
+    } catch (error: any) {
+      throw new SignerRejectedError(`Token operation failed: ${error.message}`, error);
+    }
 
-      return {
-        id: result.id,
-        success: true
+    // Balances changed - drop cached account data
+    this.invalidateAccounts(data.to);
+
+    const result: TokenOperationResult = {
+      id: receipt.id,
+      block: receipt.block_num,
+      success: true,
+      status: receipt.block_num ? 'included' : 'pending',
+    };
+
+    const tracker = this.tracker;
+    if (tracker) {
+      result.wait = async (options: ConfirmationOptions = {}) => {
+        const confirmation = await tracker.confirm(result.id, { blockNum: result.block, ...options });
+        result.block = confirmation.blockNum;
+        result.status = confirmation.status;
+        if (confirmation.status === 'confirmed') {
+          // Reads made before the node processed the block cached old balances
+          this.invalidateAccounts(data.to);
+        }
+        return confirmation;
       };
-    } catch (error: any) {
-      throw new Error(`Token operation failed: ${error.message}`);
+    }
+
+    return result;
+  }
+
+  /**
+   * Balances of a registered token, read from the node serving its accounts
+   */
+  async getBalance(token: string, account: string = this.username): Promise<TokenBalance> {
+    const definition = this.protocol.tokens.get(token);
+    const protocol = this.protocol.getProtocol(token);
+    if (!definition || !protocol) {
+      throw new SPKError(`Unsupported token: ${token}`, 'UNSUPPORTED_TOKEN');
+    }
+
+    let data: any;
+    if (definition.api) {
+      const response = await this.api.fetch(`${definition.api}/@${account}`);
+      if (!response.ok) {
+        throw new HTTPStatusError(response.status, response.statusText, `${definition.api}/@${account}`);
+      }
+      data = await response.json();
+    } else {
+      data = await this.api.get(`/@${account}`);
+    }
+
+    const { liquid, powered, claimable } = definition.balances || { liquid: 'balance' };
+    return {
+      symbol: definition.symbol,
+      liquid: readAmount(data, liquid),
+      powered: readAmount(data, powered),
+      claimable: readAmount(data, claimable),
+      precision: protocol.precision,
+    };
+  }
+
+  /**
+   * Reject tokens that are not registered or do not offer a feature
+   */
+  private requireFeature(token: string, feature: string, label: string): void {
+    if (!this.protocol.getProtocol(token)?.features[feature]) {
+      throw new SPKError(`${label} not supported for token: ${token}`, 'UNSUPPORTED_TOKEN');
+    }
+  }
+
+  /**
+   * Drop cached account data touched by a broadcast
+   */
+  private invalidateAccounts(to?: string): void {
+    this.api.invalidate(`/@${this.username}`);
+    if (to) {
+      this.api.invalidate(`/@${to}`);
     }
   }
 
@@ -200,7 +479,8 @@ export class TokenOperations {
     token: string, 
     feature: string, 
     data: any, 
-    amountDisplay: string
+    amountDisplay: string,
+    desc?: string
   ): string {
     switch (feature) {
       case 'send':
@@ -208,13 +488,21 @@ export class TokenOperations {
       case 'power_up':
         return `Power up ${amountDisplay}`;
       case 'power_down':
-        return `Power down ${amountDisplay}`;
+        return data.amount ? `Power down ${amountDisplay}` : `Cancel ${token} power down`;
       case 'claim':
         return `Claim ${token} rewards`;
+      case 'power_grant':
+        return data.amount
+          ? `Delegate ${amountDisplay} Power to ${data.to}`
+          : `Remove ${token} Power delegation to ${data.to}`;
+      case 'gov_up':
+        return `Lock ${amountDisplay} for governance`;
+      case 'gov_down':
+        return `Unlock ${amountDisplay} from governance`;
       case 'node_add':
         return `Register SPK Network node`;
       default:
-        return `${token} ${feature} operation`;
+        return desc || `${token} ${feature} operation`;
     }
   }
 
@@ -229,4 +517,13 @@ export class TokenOperations {
       return false;
     }
   }
-}
\ No newline at end of file
+}
+
+/**
+ * Number at a dot path of an account payload; missing fields count as 0
+ */
+function readAmount(data: any, path?: string): number {
+  if (!path) return 0;
+  const value = path.split('.').reduce((current, key) => (current == null ? undefined : current[key]), data);
+  return Number(value) || 0;
+}
@@ -0,0 +1,178 @@
+/**
+ * Power-down schedules
+ * Parses an account's power_downs into installments with estimated dates,
+ * projects the liquid balance while they pay out and cancels or replaces a
+ * power down in progress where the protocol allows it
+ */
+
+import type { SPKAccount } from '../core/account';
+import type { ProtocolManager } from '../core/protocol';
+import { SPKAccountData } from '../core/models';
+import { SPKError } from '../core/errors';
+import { DryRunResult, DryRun, NoDryRun } from '../core/dry-run';
+import { TokenOperations, TokenOperationOptions, TokenOperationResult } from './operations';
+
+/** One Hive block, in ms */
+export const HIVE_BLOCK_MS = 3000;
+
+export interface PowerDownInstallment {
+  /** power_downs key, "block:txid" */
+  id: string;
+  /** Block the installment pays out at */
+  block: number;
+  /** Base units moved from power to liquid */
+  amount: number;
+  /** From the blocks left at 3s per block; overdue installments are due now */
+  estimatedAt: Date;
+}
+
+export interface PowerDownSchedule {
+  token: string;
+  headBlock: number;
+  /** Pending installments, earliest first */
+  installments: PowerDownInstallment[];
+  /** Base units still to be paid out */
+  total: number;
+  next?: PowerDownInstallment;
+  completesAt?: Date;
+}
+
+export interface BalanceForecastPoint {
+  block: number;
+  at: Date;
+  liquid: number;
+  powered: number;
+}
+
+/**
+ * Account fields of the tokens whose power downs the node schedules
+ */
+export const POWER_DOWN_FIELDS: Record<string, { schedule: string; liquid: string; powered: string }> = {
+  LARYNX: { schedule: 'power_downs', liquid: 'balance', powered: 'poweredUp' },
+};
+
+/**
+ * Installments of a power_downs map, keyed "block:txid" with the amount as
+ * value (a number, numeric string or `{ amount }`)
+ */
+export function parsePowerDowns(
+  powerDowns: Record<string, any> | undefined,
+  headBlock: number,
+  token = 'LARYNX',
+  now = Date.now()
+): PowerDownSchedule {
+  const installments = Object.entries(powerDowns || {})
+    .map(([id, value]): PowerDownInstallment => {
+      const block = parseInt(id.split(':')[0], 10) || 0;
+      const amount = Number(value && typeof value === 'object' ? value.amount : value) || 0;
+      return { id, block, amount, estimatedAt: new Date(now + Math.max(block - headBlock, 0) * HIVE_BLOCK_MS) };
+    })
+    .sort((a, b) => a.block - b.block);
+
+  return {
+    token: token.toUpperCase(),
+    headBlock,
+    installments,
+    total: installments.reduce((total, { amount }) => total + amount, 0),
+    next: installments[0],
+    completesAt: installments.length ? installments[installments.length - 1].estimatedAt : undefined,
+  };
+}
+
+/**
+ * Liquid and powered balance now and after each installment
+ */
+export function forecastBalance(
+  schedule: PowerDownSchedule,
+  liquid: number,
+  powered: number,
+  now = Date.now()
+): BalanceForecastPoint[] {
+  const points: BalanceForecastPoint[] = [{ block: schedule.headBlock, at: new Date(now), liquid, powered }];
+  for (const installment of schedule.installments) {
+    liquid += installment.amount;
+    powered -= installment.amount;
+    points.push({ block: installment.block, at: installment.estimatedAt, liquid, powered });
+  }
+  return points;
+}
+
+export class PowerDownManager {
+  private account: SPKAccount;
+  private tokens: TokenOperations;
+  private protocol: ProtocolManager;
+
+  constructor(account: SPKAccount, tokens: TokenOperations, protocol: ProtocolManager) {
+    this.account = account;
+    this.tokens = tokens;
+    this.protocol = protocol;
+  }
+
+  /**
+   * Pending power-down installments of this account
+   */
+  async getSchedule(token = 'LARYNX'): Promise<PowerDownSchedule> {
+    const { schedule } = this.fields(token);
+    const data = await this.accountData();
+    return parsePowerDowns(data[schedule], data.head_block || 0, token);
+  }
+
+  /**
+   * Liquid balance over time while the power down pays out
+   */
+  async forecast(token = 'LARYNX'): Promise<BalanceForecastPoint[]> {
+    const fields = this.fields(token);
+    const data = await this.accountData();
+    const schedule = parsePowerDowns(data[fields.schedule], data.head_block || 0, token);
+    return forecastBalance(schedule, Number(data[fields.liquid]) || 0, Number(data[fields.powered]) || 0);
+  }
+
+  /**
+   * Whether the node accepts a power down of 0, which cancels the pending one
+   */
+  canCancel(token = 'LARYNX'): boolean {
+    const amount = this.protocol.getProtocol(token)?.features.power_down?.json.amount;
+    return !!amount && (amount.min === undefined || amount.min <= 0);
+  }
+
+  /**
+   * Stop the power down in progress; installments already paid stay liquid
+   */
+  async cancel(token: string, options: DryRun): Promise<DryRunResult>;
+  async cancel(token?: string, options?: NoDryRun): Promise<TokenOperationResult>;
+  async cancel(token?: string, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async cancel(token = 'LARYNX', options: TokenOperationOptions = {}): Promise<TokenOperationResult | DryRunResult> {
+    if (!this.canCancel(token)) {
+      throw new SPKError(`The ${token.toUpperCase()} protocol does not allow cancelling a power down`, 'UNSUPPORTED_FEATURE');
+    }
+    const schedule = await this.getSchedule(token);
+    if (!schedule.installments.length) {
+      throw new SPKError(`No ${schedule.token} power down in progress`, 'INVALID_OPERATION');
+    }
+    return this.tokens.powerDown(token, 0, options);
+  }
+
+  /**
+   * Start a new power down of `amount`; the node replaces the pending
+   * schedule with the new one
+   */
+  async replace(token: string, amount: number, options: DryRun): Promise<DryRunResult>;
+  async replace(token: string, amount: number, options?: NoDryRun): Promise<TokenOperationResult>;
+  async replace(token: string, amount: number, options?: TokenOperationOptions): Promise<TokenOperationResult | DryRunResult>;
+  async replace(token: string, amount: number, options: TokenOperationOptions = {}): Promise<TokenOperationResult | DryRunResult> {
+    this.fields(token);
+    return this.tokens.powerDown(token, amount, options);
+  }
+
+  private fields(token: string): { schedule: string; liquid: string; powered: string } {
+    const fields = POWER_DOWN_FIELDS[token.toUpperCase()];
+    if (!fields) {
+      throw new SPKError(`Power down schedules not supported for token: ${token}`, 'UNSUPPORTED_TOKEN');
+    }
+    return fields;
+  }
+
+  private accountData(): Promise<SPKAccountData> {
+    return this.account.api.getAccount(this.account.username);
+  }
+}
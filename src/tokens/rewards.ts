@@ -0,0 +1,238 @@
+/**
+ * Pending rewards and auto-claim
+ * Calculates the LARYNX and SPK rewards an account can claim from its
+ * account data and the network's reward rates, and claims them on a
+ * threshold or interval with an injected signer
+ */
+
+import { EventEmitter } from 'events';
+import type { SPKAccount } from '../core/account';
+import type { ProtocolManager } from '../core/protocol';
+import { SPKAccountData, SPKStatsResponse, SPKNetworkStats } from '../core/models';
+import { KeychainAdapter } from '../core/keychain-adapter';
+import { SPKError } from '../core/errors';
+import { TokenOperations, TokenOperationResult } from './operations';
+
+/** Hive blocks per day; SPK rewards accrue once per full day */
+export const BLOCKS_PER_DAY = 28800;
+
+export type RewardToken = 'LARYNX' | 'SPK';
+
+export interface PendingRewards {
+  /** Claimable LARYNX in base units */
+  larynx: number;
+  /** SPK accrued since the last SPK claim, in base units */
+  spk: number;
+  /** Full days since the last SPK claim */
+  days: number;
+  headBlock: number;
+}
+
+/**
+ * Interest on `principal` over `days` at the yearly `rate`, as the node pays it
+ */
+function simpleInterest(principal: number, days: number, rate?: string | number): number {
+  const yearly = parseFloat(String(rate ?? 0)) || 0;
+  const interest = principal * (1 + yearly / 365) - principal;
+  return Math.trunc(interest * days);
+}
+
+/**
+ * SPK accrued since `spk_block`: daily interest on governance stake (gov),
+ * LARYNX power (pow) and power granted in and out, at the network's
+ * spk_rate_lgov / spk_rate_lpow / spk_rate_ldel
+ */
+export function calculateSpkReward(data: SPKAccountData, rates: SPKNetworkStats, headBlock: number): number {
+  if (!data.spk_block) return 0;
+  const days = Math.floor((headBlock - data.spk_block) / BLOCKS_PER_DAY);
+  if (days < 1) return 0;
+
+  const delegated = Math.max(data.granted?.t || 0, 0) + Math.max(data.granting?.t || 0, 0);
+  return (
+    simpleInterest(data.gov || 0, days, rates.spk_rate_lgov) +
+    simpleInterest(data.pow || 0, days, rates.spk_rate_lpow) +
+    simpleInterest(delegated, days, rates.spk_rate_ldel)
+  );
+}
+
+/**
+ * Rewards an account can claim now
+ */
+export function calculatePendingRewards(data: SPKAccountData, stats: SPKStatsResponse): PendingRewards {
+  const headBlock = data.head_block || stats.head_block || Number(stats.result?.lastIBlock) || 0;
+  return {
+    larynx: data.claim || 0,
+    spk: calculateSpkReward(data, stats.result || {}, headBlock),
+    days: data.spk_block ? Math.max(Math.floor((headBlock - data.spk_block) / BLOCKS_PER_DAY), 0) : 0,
+    headBlock,
+  };
+}
+
+export interface AutoClaimOptions {
+  /** Tokens to claim (default LARYNX and SPK) */
+  tokens?: RewardToken[];
+  /** Claim a token once its pending rewards reach this many base units */
+  threshold?: Partial<Record<RewardToken, number>>;
+  /** Claim pending rewards at least this often, in ms, below the threshold too */
+  interval?: number;
+  /** How often pending rewards are checked, in ms (default 600000) */
+  checkInterval?: number;
+  /** Keychain or custom signer the claims are signed with (default the account's) */
+  signer?: any;
+}
+
+export interface ClaimReport {
+  token: RewardToken;
+  /** Pending rewards when the claim was sent, in base units */
+  amount: number;
+  reason: 'threshold' | 'interval';
+  success: boolean;
+  result?: TokenOperationResult;
+  error?: unknown;
+}
+
+export interface AutoClaimEvents {
+  check: (pending: PendingRewards) => void;
+  claim: (report: ClaimReport) => void;
+  error: (error: unknown) => void;
+}
+
+type EventName = keyof AutoClaimEvents;
+
+/**
+ * Claims rewards automatically. Created by SPK.autoClaim().
+ */
+export class AutoClaimScheduler extends EventEmitter {
+  private account: SPKAccount;
+  private tokens: TokenOperations;
+  private claimTokens: RewardToken[];
+  private threshold: Partial<Record<RewardToken, number>>;
+  private interval?: number;
+  private checkInterval: number;
+  private lastClaim: Partial<Record<RewardToken, number>> = {};
+  private timer?: ReturnType<typeof setTimeout>;
+  private stopped = true;
+
+  constructor(account: SPKAccount, protocol: ProtocolManager, options: AutoClaimOptions = {}) {
+    super();
+    if (!options.threshold && options.interval === undefined) {
+      throw new SPKError('Auto-claim needs a threshold or an interval', 'INVALID_INPUT');
+    }
+
+    const signer = options.signer
+      ? options.signer instanceof KeychainAdapter
+        ? options.signer
+        : new KeychainAdapter(options.signer)
+      : account.keychainAdapter;
+
+    this.account = account;
+    this.tokens = new TokenOperations(account.username, signer, account.api, protocol, account.confirmations, account.sync);
+    this.claimTokens = options.tokens || ['LARYNX', 'SPK'];
+    this.threshold = options.threshold || {};
+    this.interval = options.interval;
+    this.checkInterval = options.checkInterval ?? 600000;
+  }
+
+  get active(): boolean {
+    return !this.stopped;
+  }
+
+  on<E extends EventName>(event: E, listener: AutoClaimEvents[E]): this {
+    return super.on(event, listener as (...args: any[]) => void);
+  }
+
+  once<E extends EventName>(event: E, listener: AutoClaimEvents[E]): this {
+    return super.once(event, listener as (...args: any[]) => void);
+  }
+
+  off<E extends EventName>(event: E, listener: AutoClaimEvents[E]): this {
+    return super.off(event, listener as (...args: any[]) => void);
+  }
+
+  emit<E extends EventName>(event: E, ...args: Parameters<AutoClaimEvents[E]>): boolean {
+    return super.emit(event, ...args);
+  }
+
+  /**
+   * Start checking; the interval counts from now
+   */
+  start(): this {
+    if (!this.stopped) return this;
+    this.stopped = false;
+    const now = Date.now();
+    this.claimTokens.forEach(token => (this.lastClaim[token] ??= now));
+    this.schedule(0);
+    return this;
+  }
+
+  /**
+   * Stop checking and remove all listeners
+   */
+  stop(): void {
+    this.stopped = true;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.removeAllListeners();
+  }
+
+  /**
+   * Check pending rewards now and claim the tokens that are due. A check
+   * started while the scheduler runs sends no more claims once it is stopped.
+   */
+  async check(): Promise<ClaimReport[]> {
+    const running = this.active;
+    const pending = await this.account.getPendingRewards();
+    this.emit('check', pending);
+
+    const reports: ClaimReport[] = [];
+    for (const token of this.claimTokens) {
+      if (running && this.stopped) break;
+      const amount = token === 'LARYNX' ? pending.larynx : pending.spk;
+      const reason = this.due(token, amount);
+      if (!reason) continue;
+
+      const report: ClaimReport = { token, amount, reason, success: false };
+      try {
+        report.result = await this.tokens.claim(token);
+        report.success = true;
+        this.lastClaim[token] = Date.now();
+      } catch (error) {
+        report.error = error;
+      }
+      reports.push(report);
+      this.emit('claim', report);
+    }
+    return reports;
+  }
+
+  private due(token: RewardToken, amount: number): ClaimReport['reason'] | undefined {
+    if (amount <= 0) return undefined;
+    const threshold = this.threshold[token];
+    if (threshold !== undefined && amount >= threshold) return 'threshold';
+    const last = this.lastClaim[token] ?? Date.now();
+    if (this.interval !== undefined && Date.now() - last >= this.interval) return 'interval';
+    return undefined;
+  }
+
+  private schedule(delay: number): void {
+    if (this.stopped) return;
+    this.timer = setTimeout(() => this.tick(), delay);
+  }
+
+  private async tick(): Promise<void> {
+    this.timer = undefined;
+    try {
+      await this.check();
+    } catch (error) {
+      // Emitting 'error' without a listener would throw from the timer
+      if (!this.stopped && this.listenerCount('error') > 0) {
+        this.emit('error', error);
+      }
+    }
+    // Stopped meanwhile, or restarted with a timer of its own
+    if (this.stopped || this.timer) return;
+    this.schedule(this.checkInterval);
+  }
+}
@@ -0,0 +1,44 @@
+declare module '@hiveio/hive-js/lib/auth/ecc' {
+  class PublicKey {
+    static fromString(key: string, addressPrefix?: string): PublicKey | null;
+    toString(addressPrefix?: string): string;
+  }
+
+  class PrivateKey {
+    static fromWif(wif: string): PrivateKey;
+    toPublic(): PublicKey;
+    toWif(): string;
+  }
+
+  class Signature {
+    static signBuffer(buffer: Buffer, privateKey: PrivateKey | string): Signature;
+    static fromHex(hex: string): Signature;
+    recoverPublicKeyFromBuffer(buffer: Buffer): PublicKey;
+    verifyBuffer(buffer: Buffer, publicKey: PublicKey): boolean;
+    toBuffer(): Buffer;
+    toHex(): string;
+  }
+
+  const ecc: {
+    PublicKey: typeof PublicKey;
+    PrivateKey: typeof PrivateKey;
+    Signature: typeof Signature;
+    hash: {
+      sha256(data: Buffer | string, encoding?: string): Buffer;
+    };
+  };
+  export = ecc;
+}
+
+declare module '@hiveio/hive-js/lib/auth/serializer/src/operations' {
+  interface Serializer {
+    toBuffer(value: any): Buffer;
+    toObject(value: any): any;
+  }
+
+  const operations: {
+    transaction: Serializer;
+    signed_transaction: Serializer;
+  };
+  export = operations;
+}
@@ -79,10 +79,16 @@ function formatSPKAmount(milliunits, precision = 3) {
 /**
  * Get Hive account data
  * @param {string} username - Hive username
- * @param {string} hiveApi - Hive API endpoint
+ * @param {string|Object} hiveApi - Hive API endpoint or a HiveClient
  * @returns {Promise<Object>} - Hive account data
  */
 async function getHiveAccount(username, hiveApi = 'https://api.hive.blog') {
+  if (hiveApi && typeof hiveApi.getAccount === 'function') {
+    const account = await hiveApi.getAccount(username);
+    if (account) return account;
+    throw new Error('Account not found');
+  }
+
   const response = await fetch(hiveApi, {
     method: 'POST',
     headers: {
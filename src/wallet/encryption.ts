@@ -3,6 +3,7 @@
  */
 
 import { HiveCrypto } from '../crypto/hive-crypto';
+import { Logger, silentLogger } from '../core/logger';
 
 export interface EncryptionRequestUI {
   title: string;
@@ -18,6 +19,12 @@ export interface FileInfo {
 }
 
 export class WalletEncryption {
+  public logger: Logger;
+
+  constructor(logger: Logger = silentLogger) {
+    this.logger = logger;
+  }
+
   /**
    * Check if Hive Keychain is available
    */
@@ -133,7 +140,11 @@ export class WalletEncryption {
       try {
         return await this.encryptMemoKeychainMultiSig(account, recipients, message);
       } catch (error) {
-        console.warn('Multi-sig encryption failed, falling back to individual encryption:', error);
+        this.logger.warn('Multi-sig encryption failed, falling back to individual encryption', {
+          operation: 'wallet.encrypt',
+          account,
+          error,
+        });
         // Fall through to individual encryption below
       }
     }
@@ -148,7 +159,7 @@ export class WalletEncryption {
           encryptedKey
         });
       } catch (error) {
-        console.warn(`Failed to encrypt for ${recipient}:`, error);
+        this.logger.warn('Failed to encrypt for recipient', { operation: 'wallet.encrypt', recipient, error });
         // Continue with other recipients
       }
     }
@@ -175,7 +186,11 @@ export class WalletEncryption {
           encryptedKey
         });
       } catch (error) {
-        console.warn(`Failed to encrypt for ${recipient.account}:`, error);
+        this.logger.warn('Failed to encrypt for recipient', {
+          operation: 'wallet.encrypt',
+          recipient: recipient.account,
+          error,
+        });
         // Continue with other recipients
       }
     }
@@ -61,6 +61,7 @@ describe('Batch Metadata Integration - Contract Creation', () => {
       sign: jest.fn().mockResolvedValue('mock-sig'),
       calculateBroca: jest.fn().mockResolvedValue(10000),
       api: {
+        fetch: (url: string, init: any) => global.fetch(url, init),
         post: jest.fn().mockResolvedValue({
           id: 'contract-123',
           df: ['QmTest'],
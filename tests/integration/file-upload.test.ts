@@ -57,6 +57,7 @@ describe('SPKFileUpload Integration', () => {
       sign: jest.fn().mockResolvedValue('mock-sig'),
       calculateBroca: jest.fn().mockResolvedValue(1000),
       api: {
+        fetch: (url: string, init: any) => global.fetch(url, init),
         post: jest.fn().mockResolvedValue({ id: 'contract-123', df: ['QmTest'] }),
         get: jest.fn().mockResolvedValue({ df: ['QmTest'], i: 'contract-123' })
       },
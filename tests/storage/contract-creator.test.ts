@@ -267,7 +267,8 @@ describe('SPKContractCreator', () => {
       
       expect(details).toEqual(mockContract);
       expect(fetchMock).toHaveBeenCalledWith(
-        'https://spktest.dlux.io/api/fileContract/testuser_123_abc'
+        'https://spktest.dlux.io/api/fileContract/testuser_123_abc',
+        expect.objectContaining({ method: 'GET' })
       );
     });
 
@@ -37,7 +37,10 @@ describe('StorageProviderSelector', () => {
         'node2': ['id3']
       });
       expect(selector.services).toEqual(mockResponse.services);
-      expect(fetchMock).toHaveBeenCalledWith('https://spktest.dlux.io/services/IPFS');
+      expect(fetchMock).toHaveBeenCalledWith(
+        'https://spktest.dlux.io/services/IPFS',
+        expect.objectContaining({ method: 'GET' })
+      );
     });
 
     it('should throw error when fetch fails', async () => {
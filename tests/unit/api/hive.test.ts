@@ -0,0 +1,111 @@
+import { HiveClient } from '../../../src/api/hive';
+import { SPKAccount } from '../../../src/core/account';
+import { HiveRPCError, TimeoutError } from '../../../src/core/errors';
+import { KeyManager } from '../../../src/crypto/key-management';
+
+function rpcTransport(results: Record<string, any>) {
+  return jest.fn(async (_url: string, init: RequestInit) => {
+    const { method, params } = JSON.parse(init.body as string);
+    const result = typeof results[method] === 'function' ? results[method](params) : results[method];
+    return { ok: true, status: 200, json: async () => ({ jsonrpc: '2.0', result, id: 1 }) } as Response;
+  });
+}
+
+describe('HiveClient', () => {
+  const fast = { baseDelay: 1, jitter: 0 };
+
+  it('should send JSON-RPC calls through the transport', async () => {
+    const transport = rpcTransport({
+      'condenser_api.get_dynamic_global_properties': { head_block_number: 42 },
+      'condenser_api.get_block': (params: any[]) => ({ block_id: `block-${params[0]}` }),
+      'condenser_api.get_transaction': (params: any[]) => ({ transaction_id: params[0], block_num: 7 }),
+      'condenser_api.get_account_history': (params: any[]) => [[1, { op: ['transfer', {}], params }]],
+    });
+    const client = new HiveClient({ nodes: ['https://hive.local'], transport });
+
+    expect((await client.getDynamicGlobalProperties()).head_block_number).toBe(42);
+    expect((await client.getBlock(10))!.block_id).toBe('block-10');
+    expect((await client.getTransaction('abc')).block_num).toBe(7);
+
+    const history = await client.getAccountHistory('alice', -1, 10, [4, 0]);
+    expect(history[0][1].params).toEqual(['alice', -1, 10, 4, 0]);
+    expect(transport.mock.calls[0][0]).toBe('https://hive.local');
+  });
+
+  it('should rotate nodes and retry reads', async () => {
+    const transport = jest
+      .fn()
+      .mockRejectedValueOnce(new Error('reset'))
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [{ name: 'alice' }] }) });
+    const client = new HiveClient({ nodes: ['https://a.local', 'https://b.local'], transport, retry: fast });
+
+    expect(await client.getAccount('alice')).toEqual({ name: 'alice' });
+    expect(transport.mock.calls.map(call => call[0])).toEqual(['https://a.local', 'https://b.local']);
+  });
+
+  it('should not retry broadcasts', async () => {
+    const transport = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ error: { message: 'missing required active authority' } }),
+    });
+    const client = new HiveClient({ nodes: ['https://a.local', 'https://b.local'], transport, retry: fast });
+
+    await expect(client.broadcastTransactionSynchronous({} as any)).rejects.toBeInstanceOf(HiveRPCError);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw RPC errors without retrying or rotating nodes', async () => {
+    const error = { code: -32003, message: 'Unknown Transaction abc', data: { name: 'assert_exception' } };
+    const transport = jest.fn().mockResolvedValue({ ok: true, json: async () => ({ error }) });
+    const client = new HiveClient({ nodes: ['https://a.local', 'https://b.local'], transport, retry: fast });
+
+    await expect(client.getTransaction('abc')).rejects.toMatchObject({
+      code: 'HIVE_RPC_ERROR',
+      method: 'condenser_api.get_transaction',
+      rpcCode: -32003,
+      message: 'Unknown Transaction abc',
+      data: { name: 'assert_exception' },
+    });
+    expect(transport).toHaveBeenCalledTimes(1);
+    expect(client.node).toBe('https://a.local');
+  });
+
+  it('should report aborted calls as timeouts', async () => {
+    const abort = Object.assign(new Error('aborted'), { name: 'AbortError' });
+    const transport = jest.fn().mockRejectedValue(abort);
+    const client = new HiveClient({ nodes: ['https://a.local'], transport, retry: fast, timeout: 100 });
+
+    await expect(client.getAccount('alice')).rejects.toBeInstanceOf(TimeoutError);
+    expect(transport).toHaveBeenCalledTimes(1);
+  });
+
+  it('should include regeneration in RC mana', async () => {
+    const now = 1_700_000_000_000;
+    const transport = rpcTransport({
+      'rc_api.find_rc_accounts': {
+        rc_accounts: [
+          {
+            account: 'alice',
+            max_rc: '1000',
+            rc_manabar: { current_mana: '100', last_update_time: now / 1000 - 2.5 * 24 * 3600 },
+          },
+        ],
+      },
+    });
+    const client = new HiveClient({ transport });
+
+    expect(await client.getRCMana('alice', now)).toEqual({ current: 600, max: 1000, percent: 60 });
+  });
+
+  it('should share the account transport, logger and network nodes', async () => {
+    const transport = rpcTransport({ 'condenser_api.get_accounts': [{ name: 'bob', memo_key: 'STM1' }] });
+    const account = new SPKAccount('alice', { network: 'mainnet', transport });
+
+    expect(account.hive.nodes).toEqual(account.network.hiveNodes);
+    expect(account.hive.transport).toBe(transport);
+    expect(account.hive.logger).toBe(account.logger);
+
+    const keys = await new KeyManager({ hive: account.hive }).fetchMemoKeys(['bob']);
+    expect(keys).toEqual([{ account: 'bob', memoKey: 'STM1' }]);
+  });
+});
@@ -58,18 +58,19 @@ describe('SPKAccount', () => {
         file_contracts: {}
       };
 
-      mockAPI.get.mockResolvedValue(mockAccountData);
+      mockAPI.getAccount.mockResolvedValue(mockAccountData);
 
       await account.init();
 
-      expect(mockAPI.get).toHaveBeenCalledWith('/@testuser');
+      expect(mockAPI.getAccount).toHaveBeenCalledWith('testuser');
+      expect(account.data).toEqual(mockAccountData);
       expect(account.balance).toBe(1000);
       expect(account.spk).toBe(500);
       expect(account.pubKey).toBe('STM8...');
     });
 
     it('should handle API errors gracefully', async () => {
-      mockAPI.get.mockRejectedValue(new Error('Network error'));
+      mockAPI.getAccount.mockRejectedValue(new Error('Network error'));
 
       await expect(account.init()).rejects.toThrow('Failed to initialize account: Network error');
     });
@@ -82,7 +83,7 @@ describe('SPKAccount', () => {
         }
       };
 
-      mockAPI.get.mockResolvedValue({ balance: 1000 });
+      mockAPI.getAccount.mockResolvedValue({ balance: 1000 });
 
       await account.init();
 
@@ -106,7 +107,7 @@ describe('SPKAccount', () => {
     });
 
     it('should refresh balances if requested', async () => {
-      mockAPI.get.mockResolvedValue({
+      mockAPI.getAccount.mockResolvedValue({
         balance: 2000,
         spk: 1000,
         broca: '500000,2000'
@@ -114,7 +115,7 @@ describe('SPKAccount', () => {
 
       const balances = await account.getBalances(true);
 
-      expect(mockAPI.get).toHaveBeenCalledWith('/@testuser');
+      expect(mockAPI.getAccount).toHaveBeenCalledWith('testuser');
       expect(balances).toEqual({
         larynx: 2000,
         spk: 1000,
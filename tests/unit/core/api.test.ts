@@ -1,4 +1,5 @@
 import { SPKAPI } from '../../../src/core/api';
+import { ResponseValidationError } from '../../../src/core/errors';
 
 // Mock fetch globally
 global.fetch = jest.fn();
@@ -200,11 +201,19 @@ describe('SPKAPI', () => {
   });
 
   describe('specialized endpoints', () => {
+    const payloads: Record<string, any> = {
+      '/@testuser': { balance: 1000, broca: '5000,100' },
+      '/api/fileContract/contract123': { result: { i: 'contract123', t: 'testuser' } },
+      '/api/file/QmXxx': { i: 'contract123', t: 'testuser', df: { QmXxx: 1024 } },
+      '/services/IPFS': { providers: { alice: 'peer1,peer2' } },
+      '/stats': { result: { channel_bytes: 1024 }, head_block: 100 },
+    };
+
     beforeEach(() => {
-      mockFetch.mockResolvedValue({
+      mockFetch.mockImplementation(async (url: any) => ({
         ok: true,
-        json: async () => ({ success: true }),
-      } as Response);
+        json: async () => payloads[String(url).replace('https://test.node', '')],
+      } as Response));
     });
 
     it('should have getAccount method', async () => {
@@ -246,5 +255,230 @@ describe('SPKAPI', () => {
         expect.any(Object)
       );
     });
+
+    it('should return typed payloads', async () => {
+      const contract = await api.getFileContract('contract123');
+      const services = await api.getServices('IPFS');
+      const stats = await api.getStats();
+
+      expect(contract).toEqual({ i: 'contract123', t: 'testuser' });
+      expect(services.services).toEqual([]);
+      expect(services.providers.alice).toBe('peer1,peer2');
+      expect(stats.result.channel_bytes).toBe(1024);
+    });
+
+    it('should reject malformed payloads', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ balance: 'lots' }),
+      } as Response);
+
+      await expect(api.getAccount('testuser')).rejects.toThrow(ResponseValidationError);
+      await expect(api.getAccount('testuser')).rejects.toThrow(
+        'Unexpected response from /@testuser: expected balance to be a number, got string'
+      );
+    });
+  });
+
+  describe('transport and interceptors', () => {
+    it('should use a custom transport instead of global fetch', async () => {
+      const transport = jest.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({ via: 'transport' }),
+      } as Response);
+      const customApi = new SPKAPI('https://test.node', 30000, 0, { transport });
+
+      const result = await customApi.get('/stats');
+
+      expect(result).toEqual({ via: 'transport' });
+      expect(transport).toHaveBeenCalledWith(
+        'https://test.node/stats',
+        expect.objectContaining({ method: 'GET' })
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should run request interceptors in order before sending', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({}),
+      } as Response);
+
+      const order: string[] = [];
+      api.interceptors.request.use((request) => {
+        order.push('first');
+        return { ...request, headers: { ...request.headers, 'x-trace-id': 'abc' } };
+      });
+      api.interceptors.request.use(async (request) => {
+        order.push('second');
+        return { ...request, url: request.url.replace('test.node', 'proxy.node') };
+      });
+
+      await api.get('/stats');
+
+      expect(order).toEqual(['first', 'second']);
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://proxy.node/stats',
+        expect.objectContaining({
+          headers: expect.objectContaining({ 'x-trace-id': 'abc' }),
+        })
+      );
+    });
+
+    it('should pass responses through response interceptors', async () => {
+      const response = { ok: true, json: async () => ({ value: 1 }) } as Response;
+      mockFetch.mockResolvedValueOnce(response);
+
+      const seen = jest.fn((res: Response) => res);
+      api.interceptors.response.use(seen);
+
+      await api.get('/stats');
+
+      expect(seen).toHaveBeenCalledWith(
+        response,
+        expect.objectContaining({ method: 'GET', url: 'https://test.node/stats' })
+      );
+    });
+
+    it('should let error interceptors recover with a response', async () => {
+      api.maxRetries = 0;
+      mockFetch.mockRejectedValueOnce(new Error('Network failure'));
+      api.interceptors.error.use(() => ({
+        ok: true,
+        json: async () => ({ fallback: true }),
+      } as Response));
+
+      await expect(api.get('/stats')).resolves.toEqual({ fallback: true });
+    });
+
+    it('should remove an interceptor when its disposer is called', async () => {
+      mockFetch.mockResolvedValue({ ok: true, json: async () => ({}) } as Response);
+
+      const interceptor = jest.fn((request) => request);
+      const eject = api.interceptors.request.use(interceptor);
+      eject();
+
+      await api.get('/stats');
+
+      expect(interceptor).not.toHaveBeenCalled();
+    });
+
+    it('should accept interceptors through constructor options', async () => {
+      mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+      const request = jest.fn((req) => req);
+      const configured = new SPKAPI('https://test.node', 30000, 0, {
+        interceptors: { request: [request] },
+      });
+
+      await configured.fetch('https://provider.node/upload-stats');
+
+      expect(request).toHaveBeenCalledWith(
+        expect.objectContaining({ url: 'https://provider.node/upload-stats' })
+      );
+    });
+  });
+
+  describe('multi-node failover', () => {
+    let multiApi: SPKAPI;
+
+    beforeEach(() => {
+      multiApi = new SPKAPI('https://a.node', 30000, 0, {
+        nodes: ['https://b.node'],
+      });
+    });
+
+    it('should fail over reads to the next node', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ from: 'b' }),
+        } as Response);
+
+      const result = await multiApi.get('/stats');
+
+      expect(result).toEqual({ from: 'b' });
+      expect(mockFetch).toHaveBeenNthCalledWith(1, 'https://a.node/stats', expect.any(Object));
+      expect(mockFetch).toHaveBeenNthCalledWith(2, 'https://b.node/stats', expect.any(Object));
+      expect(multiApi.node).toBe('https://b.node');
+    });
+
+    it('should fail over on server errors', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Unavailable' } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({}) } as Response);
+
+      await multiApi.get('/stats');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not fail over on client errors', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 404,
+        statusText: 'Not Found',
+      } as Response);
+
+      await expect(multiApi.get('/@nobody')).rejects.toThrow('API Error: 404 Not Found');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should send writes only to the healthiest node', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+
+      await expect(multiApi.post('/api/new_contract', {})).rejects.toThrow('ECONNREFUSED');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should score nodes by the sync state they report', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ head_block: 1000, behind: 120 }),
+        } as Response)
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ head_block: 1120, behind: 0 }),
+        } as Response);
+
+      const health = await multiApi.checkNodes();
+
+      expect(health.map(h => h.headBlock)).toEqual([1000, 1120]);
+      expect(multiApi.node).toBe('https://b.node');
+    });
+
+    it('should pin a node set through node until unpinned', async () => {
+      mockFetch.mockRejectedValueOnce(new Error('ECONNREFUSED'));
+      multiApi.node = 'https://b.node/';
+      multiApi.pool.recordFailure('https://b.node');
+
+      expect(multiApi.node).toBe('https://b.node');
+      await expect(multiApi.get('/stats')).rejects.toThrow('ECONNREFUSED');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      multiApi.unpinNode();
+      expect(multiApi.node).toBe('https://a.node');
+    });
+
+    it('should not serve responses cached from another node', async () => {
+      mockFetch
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ from: 'a' }) } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ from: 'b' }) } as Response)
+        .mockResolvedValueOnce({ ok: true, json: async () => ({ from: 'a' }) } as Response);
+
+      expect(await multiApi.get('/stats')).toEqual({ from: 'a' });
+      expect(await multiApi.get('/stats')).toEqual({ from: 'a' });
+
+      multiApi.node = 'https://b.node';
+      expect(await multiApi.get('/stats')).toEqual({ from: 'b' });
+
+      // b stays the first choice once unpinned, until it starts failing
+      multiApi.unpinNode();
+      expect(await multiApi.get('/stats')).toEqual({ from: 'b' });
+      multiApi.pool.recordFailure('https://b.node');
+      expect(await multiApi.get('/stats')).toEqual({ from: 'a' });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
   });
 });
\ No newline at end of file
@@ -0,0 +1,117 @@
+/**
+ * @jest-environment node
+ */
+import { SPKAccount } from '../../../src/core/account';
+import { AuthVerifier, createAuthMiddleware, readAuthHeaders } from '../../../src/core/auth-verifier';
+import { LocalSigner } from '../../../src/crypto/local-signer';
+import { AuthVerificationError } from '../../../src/core/errors';
+
+// Keys derived from the password 'pass' for the account 'alice'
+const POSTING = '5HzGtb5U9YhhU14ambyf4nXyeC25TwwoTezXbxAJ7GoQmqVHoeu';
+const POSTING_PUBLIC = 'STM4yE9cyqfwMqSy2J9kATvqbu5RrGHRPPZCDWtvqP5U65woPGzAh';
+const ACTIVE = '5JqYpPfCxDQiiiFx1VpsvyswxFqTUwDFiLvJsLTwtoUZFV4xSBE';
+const ACTIVE_PUBLIC = 'STM7Vj5GHmcEBbXDur4h7Pen1ucKN9xSdVZAsb3Xde2PddqeUwPhJ';
+
+const signer = new LocalSigner({ keys: { posting: POSTING, active: ACTIVE } });
+
+// secp256k1 signing and key recovery are slow under jsdom
+jest.setTimeout(30000);
+
+function mockHive() {
+  return {
+    getAccount: jest.fn(async (name: string) =>
+      name === 'alice'
+        ? {
+            name: 'alice',
+            memo_key: 'STM1',
+            posting: { weight_threshold: 1, account_auths: [], key_auths: [[POSTING_PUBLIC, 1]] },
+            active: { weight_threshold: 1, account_auths: [], key_auths: [[ACTIVE_PUBLIC, 1]] },
+          }
+        : null
+    ),
+  };
+}
+
+function headersAt(timestamp: number, message: string, keyType = 'Posting') {
+  const { signature } = signer.signMessage('alice', `${timestamp}:${message}`, keyType);
+  return { account: 'alice', signature, timestamp: String(timestamp) };
+}
+
+async function reason(promise: Promise<unknown>): Promise<string> {
+  const error = (await promise.catch(e => e)) as AuthVerificationError;
+  expect(error).toBeInstanceOf(AuthVerificationError);
+  return error.reason;
+}
+
+describe('AuthVerifier', () => {
+  let hive: ReturnType<typeof mockHive>;
+  let verifier: AuthVerifier;
+
+  beforeEach(() => {
+    hive = mockHive();
+    verifier = new AuthVerifier({ hive });
+  });
+
+  it('should verify headers from SPKAccount.sign and reject replays', async () => {
+    const account = new SPKAccount('alice', { keychain: signer });
+    const auth = await account.sign('list-files');
+
+    const verified = await verifier.verify(auth, 'list-files');
+    expect(verified).toMatchObject({ account: 'alice', publicKey: POSTING_PUBLIC, authority: 'posting' });
+
+    expect(await reason(verifier.verify(auth, 'list-files'))).toBe('replayed');
+    // Upper-case hex decodes to the same signature
+    expect(await reason(verifier.verify({ ...auth, signature: auth.signature.toUpperCase() }, 'list-files'))).toBe('replayed');
+    // Authorities are cached between requests
+    await verifier.verify(await account.sign('list-files'), 'list-files');
+    expect(hive.getAccount).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject stale, malformed and foreign signatures', async () => {
+    const now = Date.now();
+    const fresh = headersAt(now, 'm');
+    const active = headersAt(now, 'm', 'Active');
+
+    expect(await reason(verifier.verify(headersAt(now - 10 * 60 * 1000, 'm'), 'm'))).toBe('expired');
+    expect(await reason(verifier.verify(fresh, 'other message'))).toBe('unauthorized_key');
+    expect(await reason(verifier.verify(active, 'm'))).toBe('unauthorized_key');
+    expect(await reason(verifier.verify({ ...fresh, account: 'bob' }, 'm'))).toBe('unknown_account');
+    expect(await reason(verifier.verify({ ...fresh, signature: 'zz' }, 'm'))).toBe('invalid_signature');
+    expect(await reason(verifier.verify({ ...fresh, timestamp: 'soon' }, 'm'))).toBe('invalid_timestamp');
+    expect(await reason(verifier.verify(null, 'm'))).toBe('missing_headers');
+
+    const withActive = new AuthVerifier({ hive, authorities: ['posting', 'active'] });
+    expect((await withActive.verify(active, 'm')).authority).toBe('active');
+  });
+
+  it('should read headers from plain objects and Fetch headers', () => {
+    expect(readAuthHeaders({ 'X-Account': 'alice', 'x-signature': ['abc'], 'x-timestamp': '1' })).toEqual({
+      account: 'alice',
+      signature: 'abc',
+      timestamp: '1',
+    });
+    const fetchHeaders = { get: (name: string) => (name === 'x-account' ? 'alice' : null) };
+    expect(readAuthHeaders(fetchHeaders)).toBeNull();
+  });
+
+  it('should work as connect-style middleware', async () => {
+    const middleware = createAuthMiddleware(verifier, { message: (request: any) => `${request.method} ${request.url}` });
+    const auth = headersAt(Date.now(), 'GET /files');
+    const request: any = {
+      method: 'GET',
+      url: '/files',
+      headers: { 'x-account': auth.account, 'x-signature': auth.signature, 'x-timestamp': auth.timestamp },
+    };
+    const response = { statusCode: 200, setHeader: jest.fn(), end: jest.fn() };
+    const next = jest.fn();
+
+    await middleware(request, response, next);
+    expect(next).toHaveBeenCalledWith();
+    expect(request.spkAuth.account).toBe('alice');
+
+    await middleware(request, response, next);
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(response.statusCode).toBe(401);
+    expect(JSON.parse(response.end.mock.calls[0][0])).toEqual({ error: 'Signature was already used', reason: 'replayed' });
+  });
+});
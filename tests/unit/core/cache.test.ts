@@ -0,0 +1,133 @@
+import { ResponseCache } from '../../../src/core/cache';
+import { SPKAPI } from '../../../src/core/api';
+
+describe('ResponseCache', () => {
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    cache = new ResponseCache();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should apply per-endpoint TTLs', () => {
+    expect(cache.ttlFor('/stats')).toBe(30000);
+    expect(cache.ttlFor('/@alice')).toBe(10000);
+    expect(cache.ttlFor('/@alice/contracts')).toBe(0);
+    expect(cache.ttlFor('/services/IPFS')).toBe(60000);
+    expect(cache.ttlFor('/unknown')).toBe(0);
+  });
+
+  it('should expire entries after their TTL', () => {
+    jest.useFakeTimers();
+    cache.set('/stats', { result: {} });
+
+    jest.advanceTimersByTime(29999);
+    expect(cache.get('/stats')).toEqual({ result: {} });
+
+    jest.advanceTimersByTime(1);
+    expect(cache.get('/stats')).toBeUndefined();
+  });
+
+  it('should not cache endpoints without a TTL', () => {
+    cache.set('/unknown', { value: 1 });
+    expect(cache.size).toBe(0);
+  });
+
+  it('should coalesce concurrent loads of the same key', async () => {
+    let resolve: (value: any) => void = () => undefined;
+    const loader = jest.fn(() => new Promise(r => (resolve = r)));
+
+    const first = cache.fetch('/unknown', loader);
+    const second = cache.fetch('/unknown', loader);
+    resolve({ value: 1 });
+
+    await expect(first).resolves.toEqual({ value: 1 });
+    await expect(second).resolves.toEqual({ value: 1 });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not cache failed loads', async () => {
+    const loader = jest.fn()
+      .mockRejectedValueOnce(new Error('down'))
+      .mockResolvedValueOnce({ result: {} });
+
+    await expect(cache.fetch('/stats', loader)).rejects.toThrow('down');
+    await expect(cache.fetch('/stats', loader)).resolves.toEqual({ result: {} });
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it('should invalidate whole path segments', () => {
+    cache = new ResponseCache({ ttl: 1000 });
+    cache.set('/@alice', 1);
+    cache.set('/@alice/contracts', 2);
+    cache.set('/@alicia', 3);
+
+    cache.invalidate('/@alice');
+
+    expect(cache.get('/@alice')).toBeUndefined();
+    expect(cache.get('/@alice/contracts')).toBeUndefined();
+    expect(cache.get('/@alicia')).toBe(3);
+  });
+
+  it('should evict the oldest entries beyond maxEntries', () => {
+    cache = new ResponseCache({ ttl: 1000, maxEntries: 2 });
+    cache.set('/a', 1);
+    cache.set('/b', 2);
+    cache.set('/c', 3);
+
+    expect(cache.get('/a')).toBeUndefined();
+    expect(cache.size).toBe(2);
+  });
+});
+
+describe('SPKAPI response caching', () => {
+  let mockFetch: jest.MockedFunction<typeof fetch>;
+
+  beforeEach(() => {
+    mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+    mockFetch.mockReset();
+    mockFetch.mockImplementation(async () => ({
+      ok: true,
+      json: async () => ({ result: { channel_bytes: 1024 } }),
+    } as Response));
+  });
+
+  it('should serve repeated reads from the cache', async () => {
+    const api = new SPKAPI('https://test.node', 30000, 0);
+
+    await api.getStats();
+    await api.getStats();
+
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should share one request between concurrent reads', async () => {
+    const api = new SPKAPI('https://test.node', 30000, 0, { cache: false });
+
+    await Promise.all([api.get('/@alice'), api.get('/@alice'), api.get('/@bob')]);
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should refetch after invalidation', async () => {
+    const api = new SPKAPI('https://test.node', 30000, 0);
+
+    await api.get('/@alice');
+    api.invalidate('/@alice');
+    await api.get('/@alice');
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not cache writes', async () => {
+    const api = new SPKAPI('https://test.node', 30000, 0);
+
+    await api.post('/stats', {});
+    await api.post('/stats', {});
+
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,95 @@
+import SPK from '../../../src';
+import { SPKAPI } from '../../../src/core/api';
+import { HiveClient } from '../../../src/api/hive';
+import { TransactionTracker } from '../../../src/core/confirmation';
+import { SPKContractCreator } from '../../../src/storage/contract-creator';
+import { MockSPKNode } from '../../../src/testing';
+
+describe('TransactionTracker', () => {
+  let node: MockSPKNode;
+  let api: SPKAPI;
+
+  beforeEach(() => {
+    node = new MockSPKNode();
+    node.addAccount('alice', { balance: 5000, broca: 100000, pow_broca: 1000 });
+    node.addAccount('bob');
+    api = new SPKAPI(node.url, 1000, 0, { transport: node.fetch });
+  });
+
+  it('should wait for the Hive block and for the node to process it', async () => {
+    const hive = {
+      getTransaction: jest
+        .fn()
+        .mockRejectedValueOnce(new Error('Unknown Transaction'))
+        .mockResolvedValue({ block_num: 1001 }),
+    };
+    const tracker = new TransactionTracker(hive as any, api, { interval: 5, timeout: 1000 });
+    setTimeout(() => (node.headBlock = 1002), 20);
+
+    const confirmation = await tracker.confirm('tx1');
+
+    expect(confirmation).toEqual({ id: 'tx1', status: 'confirmed', blockNum: 1001, headBlock: 1002 });
+    // The block is only looked up until it is known
+    expect(hive.getTransaction).toHaveBeenCalledTimes(2);
+  });
+
+  it('should look the transaction up once per poll', async () => {
+    const unknown = { error: { code: -32003, message: 'Assert Exception: Unknown Transaction tx1' } };
+    const transport = jest
+      .fn()
+      .mockResolvedValueOnce({ ok: true, json: async () => unknown })
+      .mockResolvedValueOnce({ ok: true, json: async () => unknown })
+      .mockResolvedValue({ ok: true, json: async () => ({ result: { block_num: 999 } }) });
+    const hive = new HiveClient({ nodes: ['https://hive.local'], transport });
+    const call = jest.spyOn(hive, 'call');
+    const tracker = new TransactionTracker(hive, api, { interval: 5, timeout: 1000 });
+
+    const confirmation = await tracker.confirm('tx1');
+
+    expect(confirmation.status).toBe('confirmed');
+    expect(transport).toHaveBeenCalledTimes(3);
+    // Without retries, within the time left before the timeout
+    const [, , options] = call.mock.calls[0];
+    expect(options).toMatchObject({ retry: false });
+    expect(options!.timeout).toBeLessThanOrEqual(1000);
+  });
+
+  it('should resolve with the status reached when the timeout expires', async () => {
+    const hive = { getTransaction: jest.fn() };
+    const tracker = new TransactionTracker(hive as any, api, { interval: 5 });
+
+    const confirmation = await tracker.confirm('tx1', { blockNum: 1000, timeout: 30 });
+
+    // The node has not processed past the block yet
+    expect(confirmation).toEqual({ id: 'tx1', status: 'included', blockNum: 1000, headBlock: 1000 });
+    expect(hive.getTransaction).not.toHaveBeenCalled();
+
+    hive.getTransaction.mockRejectedValue(new Error('Unknown Transaction'));
+    expect((await tracker.confirm('tx2', { timeout: 0 })).status).toBe('pending');
+  });
+
+  it('should let token operation results wait for confirmation', async () => {
+    const spk = new SPK('alice', { node: node.url, transport: node.fetch, keychain: node.signer });
+    await spk.init();
+
+    const result = await spk.sendLarynx(1500, 'bob');
+    expect(result).toMatchObject({ success: true, status: 'included', block: node.headBlock - 1 });
+
+    const confirmation = await result.wait({ interval: 5, timeout: 1000 });
+    expect(confirmation.status).toBe('confirmed');
+    expect(result.status).toBe('confirmed');
+    expect((await spk.getBalances(true)).larynx).toBe(3500);
+  });
+
+  it('should let storage contracts wait for confirmation without blocking creation', async () => {
+    const spk = new SPK('alice', { node: node.url, transport: node.fetch, keychain: node.signer });
+    await spk.init();
+
+    const contract = await new SPKContractCreator(spk.account, spk.account.node).createStorageContract(2048);
+    expect(contract).toMatchObject({ status: 'included', blockNum: node.headBlock - 1 });
+
+    const confirmation = await contract.wait!({ interval: 5, timeout: 1000 });
+    expect(confirmation.status).toBe('confirmed');
+    expect(contract.status).toBe('confirmed');
+  });
+});
@@ -0,0 +1,137 @@
+import SPK from '../../../src';
+import { SPKContractCreator } from '../../../src/storage/contract-creator';
+import { SPKFile } from '../../../src/storage/file';
+import { MockSPKNode } from '../../../src/testing';
+
+function file(name: string, size: number): File {
+  const bytes = new Uint8Array(size).fill(1);
+  const upload = new File([bytes], name, { type: 'application/octet-stream' });
+  // jsdom files have no arrayBuffer()
+  Object.defineProperty(upload, 'arrayBuffer', { value: async () => bytes.buffer });
+  return upload;
+}
+
+describe('dry run', () => {
+  let node: MockSPKNode;
+  let spk: SPK;
+  let signer: { requestSignature: jest.SpyInstance; requestBroadcast: jest.SpyInstance };
+
+  beforeEach(async () => {
+    node = new MockSPKNode();
+    node.addAccount('alice', { balance: 5000, broca: 100000, pow_broca: 1000 });
+    node.addAccount('bob');
+    signer = {
+      requestSignature: jest.spyOn(node.signer, 'requestSignature'),
+      requestBroadcast: jest.spyOn(node.signer, 'requestBroadcast'),
+    };
+    spk = new SPK('alice', { node: node.url, transport: node.fetch, keychain: node.signer });
+    await spk.init();
+  });
+
+  const mutatingRequests = () => node.requests.filter(request => request.method !== 'GET');
+
+  it('should build token operations without signing them', async () => {
+    const preview = await spk.sendLarynx(1500, 'bob', 'hi', { dryRun: true });
+
+    expect(preview).toEqual({
+      dryRun: true,
+      transactions: [
+        {
+          auth: 'active',
+          displayMessage: 'Send 1.500 LARYNX to bob',
+          operations: [
+            [
+              'custom_json',
+              {
+                required_auths: ['alice'],
+                required_posting_auths: [],
+                id: 'spkccT_send',
+                json: JSON.stringify({ to: 'bob', amount: 1500, memo: 'hi', from: 'alice' }),
+              },
+            ],
+          ],
+        },
+      ],
+    });
+    expect((await spk.claim('SPK', { dryRun: true })).transactions[0].auth).toBe('posting');
+    expect(signer.requestBroadcast).not.toHaveBeenCalled();
+    expect(node.getAccount('alice').balance).toBe(5000);
+  });
+
+  it('should preview the account broadcasts and batched transactions', async () => {
+    const send = await spk.account.sendLarynx(1500, 'bob', 'hi', { dryRun: true });
+    expect(send.transactions[0]).toMatchObject({ auth: 'active', displayMessage: 'Send 1.500 LARYNX to bob' });
+    expect((await spk.account.powerUp(100, { dryRun: true })).transactions[0].operations[0][1].id).toBe('spkccT_power_up');
+    await expect(spk.account.sendSpk(1, 'bob', '', { dryRun: true })).rejects.toMatchObject({ code: 'INSUFFICIENT_BALANCE' });
+
+    const batch = spk.transaction().send('1.000 LARYNX', 'bob').claim('LARYNX');
+    const preview = await batch.broadcast({ dryRun: true });
+    expect(preview.transactions.map(({ auth, operations }) => [auth, operations.length])).toEqual([
+      ['active', 1],
+      ['posting', 1],
+    ]);
+    // The operations are kept for the real broadcast
+    expect(batch.size).toBe(2);
+
+    expect(signer.requestBroadcast).not.toHaveBeenCalled();
+    expect(node.getAccount('alice').balance).toBe(5000);
+  });
+
+  it('should preview storage contracts with their cost and provider', async () => {
+    const creator = new SPKContractCreator(spk.account, spk.account.node);
+
+    const preview = await creator.createStorageContract(2048 * 1024, { dryRun: true, duration: 60 });
+
+    expect(preview).toMatchObject({
+      dryRun: true,
+      brocaCost: 4096,
+      availableBroca: 100000,
+      provider: { nodeId: node.providerId },
+      size: 2048 * 1024,
+      duration: 60,
+    });
+    const [[, channelOpen]] = preview.transactions[0].operations;
+    expect(channelOpen.id).toBe('spkccT_channel_open');
+    expect(JSON.parse(channelOpen.json)).toEqual({ to: 'alice', broca: 4096, broker: node.providerId, contract: '0' });
+
+    const direct = await creator.createDirectUploadContract([{ name: 'a.txt', size: 10, cid: 'Qma' }], { dryRun: true });
+    expect(direct.transactions.map(transaction => transaction.auth)).toEqual(['posting', 'active']);
+    expect(JSON.parse(direct.transactions[1].operations[0][1].json)).toMatchObject({ op: 'direct_upload', c: 'Qma', id: direct.contractId });
+
+    expect(signer.requestBroadcast).not.toHaveBeenCalled();
+    expect(node.getAccount('alice').broca).toBe(100000);
+  });
+
+  it('should preview uploads without registering, signing or uploading', async () => {
+    const preview = await spk.upload([file('a.bin', 4096), file('b.bin', 2048)], { dryRun: true });
+
+    expect(preview.files.map(({ name, size }) => ({ name, size }))).toEqual([
+      { name: 'a.bin', size: 4096 },
+      { name: 'b.bin', size: 2048 },
+    ]);
+    expect(preview.files[0].cid).toMatch(/^Qm/);
+    expect(preview.size).toBe(6144);
+    expect(preview.registerPublicKey).toBe(true);
+    expect(signer.requestSignature).not.toHaveBeenCalled();
+    expect(signer.requestBroadcast).not.toHaveBeenCalled();
+    expect(mutatingRequests()).toEqual([]);
+  });
+
+  it('should preview SPKFile uploads without registering or requesting a contract', async () => {
+    const preview = await new SPKFile(spk.account).upload(file('a.bin', 4096), { dryRun: true });
+
+    expect(preview).toMatchObject({ dryRun: true, transactions: [], size: 4096, encrypted: false, registerPublicKey: true });
+    expect(preview.cid).toMatch(/^Qm/);
+    expect(signer.requestSignature).not.toHaveBeenCalled();
+    expect(mutatingRequests()).toEqual([]);
+  });
+
+  it('should report a BROCA shortfall instead of throwing', async () => {
+    node.addAccount('alice', { broca: 0, pow_broca: 0 });
+    await spk.account.refresh();
+
+    const preview = await spk.upload(file('a.bin', 4096), { dryRun: true });
+
+    expect(preview.availableBroca).toBeLessThan(preview.brocaCost);
+  });
+});
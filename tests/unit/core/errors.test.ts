@@ -0,0 +1,107 @@
+import {
+  SPKError,
+  NetworkError,
+  TimeoutError,
+  HTTPStatusError,
+  InsufficientBrocaError,
+  ContractNotFoundError,
+  toSPKError,
+} from '../../../src/core/errors';
+import { SPKAPI } from '../../../src/core/api';
+import { SPKContractCreator } from '../../../src/storage/contract-creator';
+
+describe('SDK errors', () => {
+  it('should keep the class name, code and prototype chain', () => {
+    const error = new TimeoutError('https://test.node/stats', 5000);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error).toBeInstanceOf(SPKError);
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('TimeoutError');
+    expect(error.code).toBe('TIMEOUT');
+    expect(error.message).toBe('Request timeout');
+    expect(error.timeout).toBe(5000);
+  });
+
+  it('should carry structured BROCA amounts', () => {
+    const error = new InsufficientBrocaError(196, 50);
+
+    expect(error.required).toBe(196);
+    expect(error.available).toBe(50);
+    expect(error.message).toBe('Insufficient BROCA. Required: 196, Available: 50');
+  });
+
+  it('should flag retryable HTTP statuses', () => {
+    expect(new HTTPStatusError(503, 'Service Unavailable').retryable).toBe(true);
+    expect(new HTTPStatusError(429, 'Too Many Requests').retryable).toBe(true);
+    expect(new HTTPStatusError(404, 'Not Found').retryable).toBe(false);
+  });
+
+  it('should pass SDK errors through toSPKError and wrap others', () => {
+    const typed = new ContractNotFoundError('c1');
+    const plain = new Error('boom');
+
+    expect(toSPKError(typed, 'Context')).toBe(typed);
+
+    const wrapped = toSPKError(plain, 'Context');
+    expect(wrapped).toBeInstanceOf(SPKError);
+    expect(wrapped.message).toBe('Context: boom');
+    expect(wrapped.cause).toBe(plain);
+  });
+});
+
+describe('typed errors from SDK modules', () => {
+  let mockFetch: jest.MockedFunction<typeof fetch>;
+
+  beforeEach(() => {
+    mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+    mockFetch.mockReset();
+  });
+
+  it('should throw HTTPStatusError with the status from SPKAPI', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' } as Response);
+    const api = new SPKAPI('https://test.node', 30000, 0);
+
+    const error = await api.get('/missing').catch(e => e);
+
+    expect(error).toBeInstanceOf(HTTPStatusError);
+    expect(error.status).toBe(404);
+    expect(error.url).toBe('https://test.node/missing');
+  });
+
+  it('should wrap transport failures in NetworkError', async () => {
+    mockFetch.mockRejectedValue(new TypeError('Failed to fetch'));
+    const api = new SPKAPI('https://test.node', 30000, 0);
+
+    const error = await api.get('/stats').catch(e => e);
+
+    expect(error).toBeInstanceOf(NetworkError);
+    expect(error.message).toBe('Failed to fetch');
+    expect(error.cause).toBeInstanceOf(TypeError);
+  });
+
+  it('should throw TimeoutError when a request is aborted', async () => {
+    const abortError = new Error('The operation was aborted');
+    abortError.name = 'AbortError';
+    mockFetch.mockRejectedValue(abortError);
+    const api = new SPKAPI('https://test.node', 30000, 3);
+
+    await expect(api.get('/slow')).rejects.toBeInstanceOf(TimeoutError);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throw InsufficientBrocaError from SPKContractCreator', async () => {
+    const creator = new SPKContractCreator(
+      { username: 'alice', calculateBroca: jest.fn().mockResolvedValue(50) },
+      'https://test.node'
+    );
+    jest.spyOn(creator, 'calculateBrocaCost').mockResolvedValue(196);
+
+    const error = await creator.createStorageContract(200000).catch(e => e);
+
+    expect(error).toBeInstanceOf(InsufficientBrocaError);
+    expect(error.required).toBe(196);
+    expect(error.available).toBe(50);
+  });
+});
@@ -0,0 +1,90 @@
+import { ProtocolManager } from '../../../src/core/protocol';
+import { NETWORKS } from '../../../src/core/network';
+
+describe('protocol feature descriptors', () => {
+  const protocol = new ProtocolManager('https://spktest.dlux.io', undefined, NETWORKS.testnet);
+
+  it('should describe a feature payload as JSON Schema', () => {
+    expect(protocol.getFeatureSchema('larynx', 'send')).toEqual({
+      $schema: 'http://json-schema.org/draft-07/schema#',
+      title: 'LARYNX send',
+      description: 'Send LARYNX tokens',
+      type: 'object',
+      properties: {
+        to: {
+          type: 'string',
+          title: 'Send To',
+          minLength: 3,
+          maxLength: 16,
+          pattern: expect.any(String),
+          'x-account-check': true,
+        },
+        amount: {
+          type: 'integer',
+          title: 'Amount',
+          minimum: 1,
+          description: 'LARYNX in base units (3 decimals)',
+          'x-precision': 3,
+        },
+        memo: { type: 'string', title: 'Memo' },
+      },
+      required: ['to', 'amount'],
+      additionalProperties: false,
+      'x-auth': 'active',
+    });
+
+    const pattern = new RegExp(protocol.getFeatureSchema('LARYNX', 'send').properties.to.pattern!);
+    expect(['alice', 'dlux-io', 'spk.test'].every(name => pattern.test(name))).toBe(true);
+    expect(['al', 'Alice', '1alice', 'alice-'].some(name => pattern.test(name))).toBe(false);
+  });
+
+  it('should describe form inputs in token units', () => {
+    expect(protocol.getFeatureForm('LARYNX', 'send')).toEqual({
+      token: 'LARYNX',
+      feature: 'send',
+      title: 'Send LARYNX tokens',
+      auth: 'active',
+      fields: [
+        { name: 'to', label: 'Send To', input: 'account', required: true, accountLookup: true, accountCheck: true },
+        { name: 'amount', label: 'Amount', input: 'amount', required: true, min: 0.001, step: 0.001, precision: 3, token: 'LARYNX' },
+        { name: 'memo', label: 'Memo', input: 'text', required: false },
+      ],
+    });
+
+    const node = protocol.getFeatureForm('SPK', 'node_add').fields;
+    expect(node.find(field => field.name === 'bidRate')).toEqual({
+      name: 'bidRate',
+      label: 'Starting Bid Rate (0-1000)',
+      input: 'number',
+      required: true,
+      min: 0,
+      max: 1000,
+      step: 1,
+    });
+    expect(protocol.getFeatureForm('BROCA', 'send').fields[1]).toMatchObject({ min: 1, step: 1, precision: 0 });
+  });
+
+  it('should export every feature', () => {
+    const descriptors = protocol.getFeatureDescriptors();
+
+    expect(descriptors.map(({ token, feature }) => `${token}:${feature}`)).toEqual([
+      'LARYNX:claim',
+      'LARYNX:send',
+      'LARYNX:power_up',
+      'LARYNX:power_down',
+      'LARYNX:gov_up',
+      'LARYNX:gov_down',
+      'SPK:claim',
+      'SPK:send',
+      'SPK:power_up',
+      'SPK:power_down',
+      'SPK:power_grant',
+      'SPK:node_add',
+      'BROCA:send',
+      'BROCA:power_up',
+      'BROCA:power_grant',
+    ]);
+    expect(protocol.getFeatureDescriptors('broca')).toHaveLength(3);
+    expect(() => protocol.getFeatureForm('BROCA', 'claim')).toThrow('Unknown feature: claim for token BROCA');
+  });
+});
@@ -0,0 +1,96 @@
+import { SPKAccount } from '../../../src/core/account';
+import { AccountHistoryEntry } from '../../../src/api/hive';
+import { Transport } from '../../../src/core/transport';
+import fixture from '../../fixtures/account-history.json';
+
+const history = fixture as unknown as AccountHistoryEntry[];
+
+/**
+ * Hive node answering get_account_history from the fixture, the way nodes
+ * page it: entries with index <= start, at most `limit` of them
+ */
+function historyNode(calls: any[][]): Transport {
+  return async (_url, init = {}) => {
+    const { id, params } = JSON.parse(String(init.body));
+    calls.push(params);
+    const [, start, limit] = params;
+    const last = start < 0 ? history.length - 1 : start;
+    const result = history.filter(([index]) => index <= last).slice(-limit);
+    return { ok: true, status: 200, json: async () => ({ jsonrpc: '2.0', id, result }) } as Response;
+  };
+}
+
+describe('Activity history', () => {
+  let calls: any[][];
+  let account: SPKAccount;
+
+  beforeEach(() => {
+    calls = [];
+    account = new SPKAccount('alice', { hive: { nodes: ['http://hive.local'], transport: historyNode(calls) } });
+  });
+
+  it('should decode SPK operations newest first and skip other custom_json', async () => {
+    const { records, next } = await account.getActivity();
+
+    expect(next).toBeNull();
+    expect(records.map(record => [record.type, record.token])).toEqual([
+      ['send', 'BROCA'],
+      ['other', 'SPK'],
+      ['power_down', 'SPK'],
+      ['power_up', 'BROCA'],
+      ['claim', 'LARYNX'],
+      ['send', 'SPK'],
+      ['direct_upload', undefined],
+      ['direct_upload', undefined],
+      ['channel_open', 'BROCA'],
+      ['send', 'LARYNX'],
+      ['power_up', 'LARYNX'],
+    ]);
+    expect(records[9]).toMatchObject({
+      txId: history[2][1].trx_id,
+      index: 2,
+      block: history[2][1].block,
+      account: 'alice',
+      to: 'bob',
+      amount: 1500,
+      memo: 'lunch',
+    });
+    expect(records[6]).toMatchObject({ contractId: 'alice:0:81234-1', cids: ['QmA', 'QmB'], sizes: [100, 200] });
+    expect(records[1]).toMatchObject({ operation: 'node_add' });
+    // Only custom_json operations are requested
+    expect(calls[0]).toEqual(['alice', -1, 1000, 262144, 0]);
+  });
+
+  it('should page through the history', async () => {
+    const first = await account.getActivity({ limit: 4 });
+    expect(first.records.map(record => record.index)).toEqual([12, 11, 9, 8]);
+    expect(first.next).toBe(7);
+
+    const second = await account.getActivity({ start: first.next!, limit: 4 });
+    expect(second.records.map(record => record.index)).toEqual([7, 6, 5, 4]);
+
+    const last = await account.getActivity({ start: second.next!, limit: 4 });
+    expect(last.records.map(record => record.index)).toEqual([3, 2, 0]);
+    expect(last.next).toBeNull();
+    // A limit above start + 1 is rejected by Hive nodes
+    expect(calls[calls.length - 1]).toEqual(['alice', 3, 4, 262144, 0]);
+  });
+
+  it('should filter by token and operation type', async () => {
+    const sends = await account.getActivity({ type: 'send' });
+    expect(sends.records.map(record => record.token)).toEqual(['BROCA', 'SPK', 'LARYNX']);
+
+    const broca = await account.getActivity({ token: 'BROCA', type: ['power_up', 'channel_open'] });
+    expect(broca.records.map(record => record.index)).toEqual([8, 3]);
+  });
+
+  it('should use the prefixes of the account network', async () => {
+    const mainnet = new SPKAccount('alice', {
+      network: 'mainnet',
+      hive: { nodes: ['http://hive.local'], transport: historyNode(calls) },
+    });
+
+    const { records } = await mainnet.getActivity();
+    expect(records).toEqual([]);
+  });
+});
@@ -0,0 +1,76 @@
+import { createConsoleLogger, withLogContext, silentLogger, Logger } from '../../../src/core/logger';
+import { SPKAccount } from '../../../src/core/account';
+import { SPKContractCreator } from '../../../src/storage/contract-creator';
+import { MockSPKNode } from '../../../src/testing';
+
+function memoryLogger(): Logger & { entries: Array<[string, string, any]> } {
+  const entries: Array<[string, string, any]> = [];
+  return {
+    entries,
+    debug: (message, context) => entries.push(['debug', message, context]),
+    info: (message, context) => entries.push(['info', message, context]),
+    warn: (message, context) => entries.push(['warn', message, context]),
+    error: (message, context) => entries.push(['error', message, context]),
+  };
+}
+
+describe('Logger', () => {
+  it('should filter console output by level', () => {
+    const output = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+    const logger = createConsoleLogger('warn', output as unknown as Console);
+
+    logger.info('ignored');
+    logger.warn('careful', { cid: 'Qm1' });
+    logger.error('failed');
+
+    expect(output.info).not.toHaveBeenCalled();
+    expect(output.warn).toHaveBeenCalledWith('[spk-js] careful', { cid: 'Qm1' });
+    expect(output.error).toHaveBeenCalledWith('[spk-js] failed');
+  });
+
+  it('should add base context to every entry', () => {
+    const logger = memoryLogger();
+    withLogContext(logger, { account: 'alice' }).info('hello', { cid: 'Qm1' });
+
+    expect(logger.entries).toEqual([['info', 'hello', { account: 'alice', cid: 'Qm1' }]]);
+  });
+
+  it('should be silent by default', async () => {
+    const spies = (['log', 'debug', 'info', 'warn', 'error'] as const).map(method =>
+      jest.spyOn(console, method).mockImplementation(() => {})
+    );
+    const account = new SPKAccount('alice', {
+      transport: jest.fn().mockRejectedValue(new Error('offline')),
+      retry: { maxRetries: 0 },
+    });
+
+    expect(account.api.logger).not.toBe(silentLogger);
+    await expect(account.getBrocaStorage()).resolves.toBe('0MB');
+    spies.forEach(spy => {
+      expect(spy).not.toHaveBeenCalled();
+      spy.mockRestore();
+    });
+  });
+
+  it('should pass structured context from storage modules', async () => {
+    const node = new MockSPKNode();
+    node.addAccount('alice', { broca: 100000, pow_broca: 1000 });
+    const logger = memoryLogger();
+    const account = new SPKAccount('alice', {
+      node: node.url,
+      transport: node.fetch,
+      keychain: node.signer,
+      logger,
+    });
+    await account.init();
+
+    await new SPKContractCreator(account, account.node).createStorageContract(2048);
+
+    const created = logger.entries.find(([, message]) => message === 'Creating storage contract');
+    expect(created).toEqual([
+      'info',
+      'Creating storage contract',
+      expect.objectContaining({ operation: 'contract.create', provider: node.providerId, account: 'alice' }),
+    ]);
+  });
+});
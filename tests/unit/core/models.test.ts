@@ -0,0 +1,87 @@
+import { ResponseValidationError } from '../../../src/core/errors';
+import {
+  parseAccountData,
+  parseFileContract,
+  parseServices,
+  parseStats,
+  parseUploadStats,
+} from '../../../src/core/models';
+
+describe('response models', () => {
+  describe('parseAccountData', () => {
+    it('should accept a well formed account payload', () => {
+      const payload = {
+        balance: 1000,
+        spk: 500,
+        broca: '250000,1000',
+        file_contracts: { 'alice:0:1': { i: 'alice:0:1', t: 'alice' } },
+        extra_field: true,
+      };
+
+      expect(parseAccountData(payload)).toEqual(payload);
+    });
+
+    it('should reject mistyped fields with a descriptive error', () => {
+      expect(() => parseAccountData({ broca: 250000 }, '/@alice')).toThrow(
+        'Unexpected response from /@alice: expected broca to be a string, got number'
+      );
+    });
+
+    it('should reject non-object payloads', () => {
+      let error: any;
+      try {
+        parseAccountData(null, '/@alice');
+      } catch (e) {
+        error = e;
+      }
+
+      expect(error).toBeInstanceOf(ResponseValidationError);
+      expect(error.endpoint).toBe('/@alice');
+      expect(error.received).toBe('null');
+    });
+
+    it('should validate nested file contracts', () => {
+      expect(() => parseAccountData({ file_contracts: { bad: 'x' } })).toThrow(
+        'expected file_contracts.bad to be an object'
+      );
+    });
+  });
+
+  describe('parseStats', () => {
+    it('should require a result object', () => {
+      expect(parseStats({ result: { channel_bytes: 1024 } }).result.channel_bytes).toBe(1024);
+      expect(() => parseStats({ channel_bytes: 1024 })).toThrow('expected result to be an object');
+    });
+  });
+
+  describe('parseFileContract', () => {
+    it('should unwrap contracts nested in result', () => {
+      expect(parseFileContract({ result: { i: 'c1', t: 'alice' } })).toEqual({ i: 'c1', t: 'alice' });
+    });
+
+    it('should require a contract id', () => {
+      expect(() => parseFileContract({ t: 'alice' })).toThrow('expected i to be a string, got undefined');
+    });
+  });
+
+  describe('parseServices', () => {
+    it('should default missing collections', () => {
+      expect(parseServices({})).toEqual({ providers: {}, services: [] });
+    });
+
+    it('should reject malformed service groups', () => {
+      expect(() => parseServices({ services: ['node'] })).toThrow('expected services[0] to be an object');
+    });
+  });
+
+  describe('parseUploadStats', () => {
+    it('should accept numeric strings', () => {
+      const stats = { StorageMax: '1000000', RepoSize: 500 };
+      expect(parseUploadStats(stats)).toEqual(stats);
+    });
+
+    it('should reject missing capacity fields', () => {
+      expect(() => parseUploadStats({ RepoSize: '10' })).toThrow('expected StorageMax to be a number or numeric string');
+    });
+  });
+});
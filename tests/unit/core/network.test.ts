@@ -0,0 +1,70 @@
+import { NETWORKS, defineNetwork, resolveNetwork } from '../../../src/core/network';
+import { mergeConfig } from '../../../src/core/config';
+import { ProtocolManager } from '../../../src/core/protocol';
+import { SPKAccount } from '../../../src/core/account';
+import { SPKContractCreator } from '../../../src/storage/contract-creator';
+import { SPKError } from '../../../src/core/errors';
+
+describe('Network profiles', () => {
+  it('should resolve names, custom profiles and known nodes', () => {
+    expect(resolveNetwork('mainnet')).toBe(NETWORKS.mainnet);
+    expect(resolveNetwork(undefined, 'https://spkinstant.hivehoneycomb.com/')).toBe(NETWORKS.mainnet);
+    expect(resolveNetwork(undefined, 'https://my.node')).toBe(NETWORKS.mainnet);
+    expect(resolveNetwork(undefined, 'https://spktest.my.node')).toBe(NETWORKS.testnet);
+    expect(resolveNetwork()).toBe(NETWORKS.testnet);
+    expect(() => resolveNetwork('devnet' as any)).toThrow(SPKError);
+
+    const custom = defineNetwork({ name: 'private', nodes: ['https://spk.local'] });
+    expect(resolveNetwork(custom)).toBe(custom);
+  });
+
+  it('should build private networks on top of a built-in profile', () => {
+    const custom = defineNetwork(
+      { nodes: ['https://spk.local'], jsonPrefixes: { BROCA: 'local_broca_' }, multisig: 'local-cc' },
+      'mainnet'
+    );
+
+    expect(custom.name).toBe('custom');
+    expect(custom.jsonPrefixes).toEqual({ LARYNX: 'spkcc_', SPK: 'spkcc_spk_', BROCA: 'local_broca_' });
+    expect(custom.multisig).toBe('local-cc');
+    expect(custom.chainId).toBe(NETWORKS.mainnet.chainId);
+  });
+
+  it('should take the node and gateway from the profile unless given', () => {
+    const config = mergeConfig({ network: 'mainnet' });
+    expect(config.network).toBe(NETWORKS.mainnet);
+    expect(config.node).toBe('https://spkinstant.hivehoneycomb.com');
+    expect(config.ipfsGateway).toBe(NETWORKS.mainnet.ipfsGateway);
+
+    const custom = defineNetwork({ nodes: ['https://a.local', 'https://b.local'], ipfsGateway: 'https://gw.local/ipfs/' });
+    const customConfig = mergeConfig({ network: custom });
+    expect(customConfig.node).toBe('https://a.local');
+    expect(customConfig.nodes).toEqual(['https://b.local']);
+    expect(customConfig.ipfsGateway).toBe('https://gw.local/ipfs/');
+
+    expect(mergeConfig({ network: 'mainnet', node: 'https://own.node' }).node).toBe('https://own.node');
+    expect(mergeConfig().network).toBe(NETWORKS.testnet);
+  });
+
+  it('should use the profile for protocol defaults', () => {
+    const protocol = new ProtocolManager('https://spkinstant.hivehoneycomb.com', undefined, NETWORKS.mainnet);
+
+    expect(protocol.getCustomJsonId('LARYNX', 'send')).toBe('spkcc_send');
+    expect(protocol.getCustomJsonId('SPK', 'send')).toBe('spkcc_spk_send');
+    expect(protocol.getProtocol('BROCA')?.multisig).toBe('spk-cc');
+    // Other instances keep their own network's defaults
+    expect(new ProtocolManager('https://spktest.dlux.io').getCustomJsonId('LARYNX', 'send')).toBe('spkccT_send');
+  });
+
+  it('should share the account network with storage modules', () => {
+    const custom = defineNetwork({ nodes: ['https://spk.local'], storagePrefix: 'local_' });
+    const account = new SPKAccount('alice', { network: custom });
+    const creator = new SPKContractCreator(account, account.node);
+
+    expect(account.network).toBe(custom);
+    expect((creator as any).tokenPrefix).toBe('local_');
+    expect(new SPKContractCreator({ username: 'bob' }, 'https://spkinstant.hivehoneycomb.com')['tokenPrefix']).toBe(
+      'spkcc_dlux_'
+    );
+  });
+});
@@ -0,0 +1,86 @@
+import { SPKNodePool, extractSyncInfo } from '../../../src/core/node-pool';
+
+describe('SPKNodePool', () => {
+  let pool: SPKNodePool;
+
+  beforeEach(() => {
+    pool = new SPKNodePool(['https://a.node', 'https://b.node/', 'https://c.node']);
+  });
+
+  it('should keep configured order while no node is measured', () => {
+    expect(pool.nodes).toEqual(['https://a.node', 'https://b.node', 'https://c.node']);
+    expect(pool.best()).toBe('https://a.node');
+  });
+
+  it('should prefer lower latency nodes', () => {
+    pool.recordSuccess('https://a.node', 800);
+    pool.recordSuccess('https://b.node', 100);
+
+    expect(pool.ranked().slice(0, 2)).toEqual(['https://b.node', 'https://a.node']);
+  });
+
+  it('should keep a measured healthy node ahead of unmeasured ones', () => {
+    pool.recordSuccess('https://a.node', 300);
+
+    expect(pool.best()).toBe('https://a.node');
+  });
+
+  it('should move failing nodes to the back', () => {
+    pool.recordFailure('https://a.node', new Error('ECONNRESET'));
+
+    expect(pool.best()).toBe('https://b.node');
+    expect(pool.ranked()[2]).toBe('https://a.node');
+    expect(pool.getHealth('https://a.node')).toMatchObject({
+      failures: 1,
+      lastError: 'ECONNRESET',
+    });
+  });
+
+  it('should penalize nodes that report being behind', () => {
+    pool.recordSuccess('https://a.node', 100, { head_block: 1000, behind: 50 });
+    pool.recordSuccess('https://b.node', 200, { head_block: 1050, behind: 0 });
+
+    expect(pool.best()).toBe('https://b.node');
+  });
+
+  it('should penalize nodes lagging the highest known head block', () => {
+    pool.recordSuccess('https://a.node', 100, { head_block: 900 });
+    pool.recordSuccess('https://b.node', 200, { head_block: 1000 });
+
+    expect(pool.best()).toBe('https://b.node');
+  });
+
+  it('should recover a node score after successful requests', () => {
+    pool.recordFailure('https://a.node');
+    for (let i = 0; i < 20; i++) {
+      pool.recordSuccess('https://a.node', 100);
+    }
+
+    expect(pool.best()).toBe('https://a.node');
+  });
+
+  it('should move a node to the front when added as primary', () => {
+    pool.add('https://c.node', true);
+
+    expect(pool.nodes[0]).toBe('https://c.node');
+    expect(pool.nodes).toHaveLength(3);
+  });
+});
+
+describe('extractSyncInfo', () => {
+  it('should read top level values', () => {
+    expect(extractSyncInfo({ head_block: 100, behind: 2 })).toEqual({ headBlock: 100, behind: 2 });
+  });
+
+  it('should read values nested in result', () => {
+    expect(extractSyncInfo({ result: { head_block: 100, behind: 0 } })).toEqual({
+      headBlock: 100,
+      behind: 0,
+    });
+  });
+
+  it('should ignore payloads without sync info', () => {
+    expect(extractSyncInfo(null)).toEqual({});
+    expect(extractSyncInfo({ foo: 'bar' })).toEqual({ headBlock: undefined, behind: undefined });
+  });
+});
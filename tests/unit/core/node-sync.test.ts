@@ -0,0 +1,104 @@
+import SPK, { NodeSyncPolicy } from '../../../src';
+import { MockSPKNode } from '../../../src/testing';
+
+const FRESH = 'https://fresh.spk.test';
+
+describe('node sync guard', () => {
+  let node: MockSPKNode;
+  let logger: { debug: jest.Mock; info: jest.Mock; warn: jest.Mock; error: jest.Mock };
+
+  // The mock node's own URL reports being 500 blocks behind; FRESH serves
+  // the same data in sync
+  const transport = async (url: string, init: any) => {
+    if (url.startsWith(FRESH)) {
+      return node.fetch(node.url + url.slice(FRESH.length), init);
+    }
+    const response = await node.fetch(url, init);
+    const payload = await response.json();
+    return { ...response, json: async () => ({ ...payload, behind: 500 }) } as Response;
+  };
+
+  const create = async (sync: NodeSyncPolicy, nodes: string[] = []) => {
+    const spk = new SPK('alice', { node: node.url, nodes, transport, keychain: node.signer, logger, sync });
+    await spk.init();
+    return spk;
+  };
+
+  beforeEach(() => {
+    node = new MockSPKNode();
+    node.addAccount('alice', { balance: 5000 });
+    node.addAccount('bob');
+    logger = { debug: jest.fn(), info: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  });
+
+  it('should refuse to broadcast through a node that is too far behind', async () => {
+    const broadcast = jest.spyOn(node.signer, 'requestBroadcast');
+    const spk = await create({ action: 'refuse' });
+
+    await expect(spk.sendLarynx(100, 'bob')).rejects.toMatchObject({
+      code: 'NODE_BEHIND',
+      node: node.url,
+      behind: 500,
+      maxBehind: 100,
+    });
+    await expect(spk.transaction().send('1.000 LARYNX', 'bob').broadcast()).rejects.toMatchObject({
+      code: 'NODE_BEHIND',
+    });
+    // Previews sign nothing and are not guarded
+    await expect(spk.sendLarynx(100, 'bob', '', { dryRun: true })).resolves.toMatchObject({ dryRun: true });
+    expect(broadcast).not.toHaveBeenCalled();
+  });
+
+  it('should warn and broadcast by default', async () => {
+    const spk = await create({});
+
+    const result = await spk.sendLarynx(100, 'bob');
+
+    expect(result.success).toBe(true);
+    expect(logger.warn).toHaveBeenCalledWith(
+      'SPK node is behind, balances may be stale',
+      expect.objectContaining({ operation: 'tokens.send', behind: 500 })
+    );
+  });
+
+  it('should switch to a fresher node and report sync status', async () => {
+    const spk = await create({ action: 'refuse' }, [FRESH]);
+
+    await expect(spk.sendLarynx(100, 'bob')).resolves.toMatchObject({ success: true });
+
+    const status = await spk.getSyncStatus();
+    expect(status).toMatchObject({ node: FRESH, behind: 0, synced: true });
+    expect(status.nodes.map(({ url, behind }) => ({ url, behind }))).toEqual([
+      { url: node.url, behind: 500 },
+      { url: FRESH, behind: 0 },
+    ]);
+  });
+
+  it('should not trust the last sync state of a node that stopped answering', async () => {
+    let down = false;
+    const flaky = async (url: string, init: any) => {
+      if (down) throw new Error('ECONNREFUSED');
+      return node.fetch(url, init);
+    };
+    const spk = new SPK('alice', {
+      node: node.url,
+      transport: flaky,
+      keychain: node.signer,
+      maxRetries: 0,
+      sync: { action: 'refuse', failover: false, maxAge: 0 },
+    });
+    await spk.init();
+    expect(await spk.getSyncStatus()).toMatchObject({ responding: true, synced: true });
+
+    down = true;
+    await expect(spk.claim('LARYNX')).rejects.toMatchObject({ code: 'NODE_BEHIND', message: expect.stringContaining('not responding') });
+    expect(await spk.getSyncStatus()).toMatchObject({ responding: false, synced: false });
+  });
+
+  it('should skip the check when the policy ignores lag', async () => {
+    const spk = await create({ action: 'ignore' });
+
+    await expect(spk.sendLarynx(100, 'bob')).resolves.toMatchObject({ success: true });
+    expect((await spk.getSyncStatus()).synced).toBe(false);
+  });
+});
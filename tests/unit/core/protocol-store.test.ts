@@ -0,0 +1,164 @@
+import { SPKAPI } from '../../../src/core/api';
+import { ProtocolManager, ProtocolChangeEvent, DEFAULT_PROTOCOLS, TokenProtocol } from '../../../src/core/protocol';
+import { MemoryProtocolStore, diffProtocols, protocolVersion } from '../../../src/core/protocol-store';
+import { NETWORKS } from '../../../src/core/network';
+import { MockSPKNode } from '../../../src/testing';
+
+const copy = (protocols: Record<string, TokenProtocol>): Record<string, TokenProtocol> =>
+  JSON.parse(JSON.stringify(protocols));
+
+describe('protocol store', () => {
+  describe('diffProtocols', () => {
+    it('should report feature, auth, field, prefix and precision changes', () => {
+      const next = copy(DEFAULT_PROTOCOLS);
+      delete next.LARYNX.features.power_down;
+      next.LARYNX.features.dex_vote = { desc: 'Vote', json: {}, auth: 'active' };
+      next.SPK.features.send.auth = 'posting';
+      next.SPK.features.send.json.memo.req = true;
+      next.BROCA.jsonPrefix = 'spkcc2_broca_';
+      next.BROCA.precision = 6;
+
+      expect(diffProtocols(DEFAULT_PROTOCOLS, next)).toEqual([
+        { type: 'featureRemoved', token: 'LARYNX', feature: 'power_down' },
+        { type: 'featureAdded', token: 'LARYNX', feature: 'dex_vote' },
+        { type: 'authChanged', token: 'SPK', feature: 'send', previous: 'active', current: 'posting' },
+        expect.objectContaining({ type: 'fieldsChanged', token: 'SPK', feature: 'send' }),
+        { type: 'prefixChanged', token: 'BROCA', previous: DEFAULT_PROTOCOLS.BROCA.jsonPrefix, current: 'spkcc2_broca_' },
+        { type: 'precisionChanged', token: 'BROCA', previous: DEFAULT_PROTOCOLS.BROCA.precision, current: 6 },
+      ]);
+    });
+
+    it('should version by content, ignoring key order and api_health', () => {
+      const reordered = copy(DEFAULT_PROTOCOLS);
+      const { features, ...rest } = reordered.LARYNX;
+      reordered.LARYNX = { ...rest, features, api_health: { head_block: 99, behind: 2 } };
+      const changed = copy(DEFAULT_PROTOCOLS);
+      changed.SPK.precision = 4;
+
+      expect(protocolVersion(reordered)).toBe(protocolVersion(DEFAULT_PROTOCOLS));
+      expect(protocolVersion(changed)).not.toBe(protocolVersion(DEFAULT_PROTOCOLS));
+      expect(protocolVersion(DEFAULT_PROTOCOLS)).toMatch(/^[0-9a-f]{8}$/);
+    });
+  });
+
+  describe('ProtocolManager', () => {
+    let node: MockSPKNode;
+    let store: MemoryProtocolStore;
+    let advertised: { prefix?: string; sendAuth?: 'posting' | 'active' };
+    let offline: boolean;
+
+    const manager = () => {
+      // The mock advertises no features; serve the defaults with the overrides
+      const transport = async (url: string, init: any) => {
+        if (offline) {
+          throw new Error('ECONNREFUSED');
+        }
+        const response = await node.fetch(url, init);
+        if (url !== `${node.url}/api/protocol`) {
+          return response;
+        }
+        const payload = await response.json();
+        const features = copy(DEFAULT_PROTOCOLS).LARYNX.features;
+        if (advertised.sendAuth) features.send.auth = advertised.sendAuth;
+        const json_prefix = advertised.prefix || payload.json_prefix;
+        return { ...response, json: async () => ({ ...payload, json_prefix, features }) } as Response;
+      };
+      const api = new SPKAPI(node.url, 1000, 0, { transport });
+      return new ProtocolManager(node.url, api, NETWORKS.testnet, { store, cacheDuration: 0 });
+    };
+
+    beforeEach(() => {
+      node = new MockSPKNode();
+      store = new MemoryProtocolStore();
+      advertised = {};
+      offline = false;
+    });
+
+    it('should persist fetched definitions and restore them', async () => {
+      advertised.prefix = 'spkccX_';
+      const first = manager();
+      await first.updateProtocols();
+
+      expect(store.load(node.url)).toMatchObject({ version: first.version, pinned: false });
+
+      const restored = new ProtocolManager(node.url, new SPKAPI(node.url), NETWORKS.testnet, {
+        store,
+        cacheDuration: 60000,
+      });
+      await restored.updateProtocols();
+
+      expect(restored.getCustomJsonId('LARYNX', 'send')).toBe('spkccX_send');
+      expect(restored.version).toBe(first.version);
+    });
+
+    it('should emit changes against the cached definitions, not the defaults', async () => {
+      const events: ProtocolChangeEvent[] = [];
+      const first = manager();
+      first.on('change', event => events.push(event));
+      await first.updateProtocols();
+      expect(events).toEqual([]);
+
+      advertised = { prefix: 'spkccX_', sendAuth: 'posting' };
+      const second = manager();
+      second.on('change', event => events.push(event));
+      await second.updateProtocols();
+
+      expect(events).toEqual([
+        {
+          changes: [
+            { type: 'prefixChanged', token: 'LARYNX', previous: 'spkccT_', current: 'spkccX_' },
+            { type: 'authChanged', token: 'LARYNX', feature: 'send', previous: 'active', current: 'posting' },
+          ],
+          previousVersion: first.version,
+          version: second.version,
+          applied: true,
+        },
+      ]);
+      expect(second.getAuthType('LARYNX', 'send')).toBe('posting');
+    });
+
+    it('should not store the defaults when every fetch fails', async () => {
+      offline = true;
+      const protocol = manager();
+      const listener = jest.fn();
+      protocol.on('change', listener);
+      await protocol.updateProtocols();
+
+      expect(store.load(node.url)).toBeFalsy();
+      await expect(protocol.pin()).rejects.toMatchObject({ code: 'INVALID_OPERATION' });
+
+      offline = false;
+      advertised.prefix = 'spkccX_';
+      await protocol.updateProtocols();
+
+      // Replacing the defaults is no change
+      expect(listener).not.toHaveBeenCalled();
+      expect(protocol.getCustomJsonId('LARYNX', 'send')).toBe('spkccX_send');
+      expect(store.load(node.url)).toMatchObject({ version: protocol.version, pinned: false });
+    });
+
+    it('should keep pinned definitions when the node advertises others', async () => {
+      const protocol = manager();
+      await protocol.updateProtocols();
+      const version = protocol.version;
+      await protocol.pin(version);
+      await expect(protocol.pin('00000000')).rejects.toMatchObject({ code: 'INVALID_OPERATION' });
+
+      const listener = jest.fn();
+      protocol.on('change', listener);
+      advertised.prefix = 'spkccX_';
+      await protocol.updateProtocols();
+
+      expect(listener).toHaveBeenCalledWith(expect.objectContaining({ applied: false, previousVersion: version }));
+      expect(protocol.version).toBe(version);
+      expect(protocol.getCustomJsonId('LARYNX', 'send')).toBe('spkccT_send');
+      expect(store.load(node.url)).toMatchObject({ version, pinned: true });
+
+      await protocol.unpin();
+      await protocol.updateProtocols();
+
+      expect(protocol.getCustomJsonId('LARYNX', 'send')).toBe('spkccX_send');
+      expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ applied: true }));
+    });
+  });
+});
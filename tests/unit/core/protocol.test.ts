@@ -0,0 +1,118 @@
+import { SPKAPI } from '../../../src/core/api';
+import { ProtocolManager, DEFAULT_PROTOCOLS } from '../../../src/core/protocol';
+import { NETWORKS } from '../../../src/core/network';
+import { TokenOperations } from '../../../src/tokens/operations';
+import { KeychainAdapter } from '../../../src/core/keychain-adapter';
+import { MockSPKNode } from '../../../src/testing';
+
+// A feature the SDK has no method for
+const VOTE = {
+  desc: 'Vote on a DEX proposal',
+  json: {
+    proposal: { type: 'I', name: 'Proposal', req: true, min: 1 },
+    delegate: { type: 'AS', name: 'Delegate', check: 'AC' },
+    amount: { type: 'I', name: 'Amount', req: true, min: 1, max: 100000 },
+    note: { type: 'S', name: 'Note' },
+  },
+  auth: 'active',
+};
+
+describe('ProtocolManager.prepareOperation', () => {
+  let node: MockSPKNode;
+  let protocol: ProtocolManager;
+
+  beforeEach(async () => {
+    node = new MockSPKNode();
+    node.addAccount('alice', { balance: 5000 });
+    node.addAccount('bob');
+
+    // The node advertises dex_vote next to the default LARYNX features and
+    // knows no account 'nobody' (the mock creates accounts on first use);
+    // looking up 'flaky' fails
+    const transport = async (url: string, init: any) => {
+      const response = await node.fetch(url, init);
+      if (url === `${node.url}/@nobody`) {
+        return { ...response, ok: false, status: 404, statusText: 'Not Found' } as Response;
+      }
+      if (url === `${node.url}/@flaky`) {
+        return { ...response, ok: false, status: 503, statusText: 'Service Unavailable' } as Response;
+      }
+      if (url !== `${node.url}/api/protocol`) {
+        return response;
+      }
+      const payload = await response.json();
+      const features = { ...DEFAULT_PROTOCOLS.LARYNX.features, dex_vote: VOTE };
+      return { ...response, json: async () => ({ ...payload, features }) } as Response;
+    };
+    const api = new SPKAPI(node.url, 1000, 0, { transport });
+    protocol = new ProtocolManager(node.url, api, NETWORKS.testnet);
+    await protocol.updateProtocols();
+  });
+
+  it('should validate and convert params with the advertised schema', async () => {
+    const operation = await protocol.prepareOperation('larynx', 'dex_vote', {
+      proposal: '7',
+      delegate: '@Bob',
+      amount: '1.5 LARYNX',
+      note: '',
+    });
+
+    expect(operation).toEqual({
+      token: 'LARYNX',
+      feature: 'dex_vote',
+      id: 'spkccT_dex_vote',
+      auth: 'active',
+      desc: 'Vote on a DEX proposal',
+      json: { proposal: 7, delegate: 'bob', amount: 1500, note: '' },
+    });
+    expect((await protocol.prepareOperation('LARYNX', 'dex_vote', { proposal: 1, amount: 25 })).json).toEqual({
+      proposal: 1,
+      amount: 25,
+    });
+  });
+
+  it.each([
+    [{ amount: 1 }, 'Missing required field: proposal'],
+    [{ proposal: 1, amount: 1, weight: 2 }, 'Unknown field weight'],
+    [{ proposal: 1, amount: 1.5 }, 'Field amount must be an integer'],
+    [{ proposal: 1, amount: '1.0005' }, 'at most 3 decimals'],
+    [{ proposal: 1, amount: '1 SPK' }, 'Invalid LARYNX amount'],
+    [{ proposal: 1, amount: '100.001' }, 'Field amount must be at most 100000'],
+    [{ proposal: 0, amount: 1 }, 'Field proposal must be at least 1'],
+    [{ proposal: 1, amount: 1, delegate: 'x' }, 'must be a Hive account name'],
+    [{ proposal: 1, amount: 1, note: 5 }, 'Field note must be a string'],
+  ])('should reject %j', async (params, message) => {
+    await expect(protocol.prepareOperation('LARYNX', 'dex_vote', params)).rejects.toMatchObject({
+      code: 'INVALID_OPERATION',
+      message: expect.stringContaining(message),
+    });
+  });
+
+  it('should check accounts and reject unknown features', async () => {
+    await expect(
+      protocol.prepareOperation('LARYNX', 'dex_vote', { proposal: 1, amount: 1, delegate: 'nobody' })
+    ).rejects.toMatchObject({ code: 'INVALID_ACCOUNT' });
+    await expect(
+      protocol.prepareOperation('LARYNX', 'dex_vote', { proposal: 1, amount: 1, delegate: 'flaky' })
+    ).rejects.toMatchObject({ code: 'HTTP_ERROR', status: 503 });
+    await expect(protocol.prepareOperation('SPK', 'dex_vote', {})).rejects.toMatchObject({
+      code: 'UNSUPPORTED_FEATURE',
+    });
+  });
+
+  it('should let TokenOperations broadcast advertised features', async () => {
+    const broadcast = jest.spyOn(node.signer, 'requestBroadcast');
+    const tokens = new TokenOperations('alice', new KeychainAdapter(node.signer), (protocol as any).api, protocol);
+
+    const result = await tokens.execute('LARYNX', 'dex_vote', { proposal: 3, amount: '2' });
+
+    expect(result.success).toBe(true);
+    const [account, operations, keyType] = broadcast.mock.calls[0];
+    expect([account, keyType]).toEqual(['alice', 'Active']);
+    expect(operations[0][1]).toMatchObject({
+      id: 'spkccT_dex_vote',
+      required_auths: ['alice'],
+      json: JSON.stringify({ proposal: 3, amount: 2000, from: 'alice' }),
+    });
+  });
+});
@@ -0,0 +1,170 @@
+import { RetryPolicy, parseRetryAfter } from '../../../src/core/retry';
+import {
+  HTTPStatusError,
+  NetworkError,
+  TimeoutError,
+  ResponseValidationError,
+} from '../../../src/core/errors';
+import { SPKAPI } from '../../../src/core/api';
+import { HiveAPI } from '../../../src/api/hive';
+
+describe('RetryPolicy', () => {
+  const fast = { baseDelay: 1, maxDelay: 5, jitter: 0 };
+
+  it('should classify errors', () => {
+    const policy = new RetryPolicy();
+
+    expect(policy.isRetryable(new HTTPStatusError(503, 'Service Unavailable'))).toBe(true);
+    expect(policy.isRetryable(new HTTPStatusError(429, 'Too Many Requests'))).toBe(true);
+    expect(policy.isRetryable(new HTTPStatusError(404, 'Not Found'))).toBe(false);
+    expect(policy.isRetryable(new HTTPStatusError(401, 'Unauthorized'))).toBe(false);
+    expect(policy.isRetryable(new NetworkError('reset'))).toBe(true);
+    expect(policy.isRetryable(new TimeoutError())).toBe(false);
+    expect(policy.isRetryable(new ResponseValidationError('/stats', 'result', 'an object', null))).toBe(false);
+    expect(new RetryPolicy({ retryTimeouts: true }).isRetryable(new TimeoutError())).toBe(true);
+  });
+
+  it('should back off exponentially with jitter inside the bounds', () => {
+    const policy = new RetryPolicy({ baseDelay: 1000, maxDelay: 3000, jitter: 0.5 });
+
+    for (let i = 0; i < 20; i++) {
+      const first = policy.delay(0);
+      expect(first).toBeGreaterThanOrEqual(500);
+      expect(first).toBeLessThanOrEqual(1000);
+    }
+    expect(policy.delay(5)).toBeLessThanOrEqual(3000);
+  });
+
+  it('should honour Retry-After', () => {
+    const policy = new RetryPolicy({ maxDelay: 10000 });
+    const error = new HTTPStatusError(429, 'Too Many Requests');
+    error.retryAfter = 7000;
+
+    expect(policy.delay(0, error)).toBe(7000);
+  });
+
+  it('should stop at maxRetries', async () => {
+    const policy = new RetryPolicy({ ...fast, maxRetries: 2 });
+    const operation = jest.fn().mockRejectedValue(new NetworkError('down'));
+
+    await expect(policy.execute(operation)).rejects.toThrow('down');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry non-retryable errors', async () => {
+    const policy = new RetryPolicy(fast);
+    const operation = jest.fn().mockRejectedValue(new HTTPStatusError(400, 'Bad Request'));
+
+    await expect(policy.execute(operation)).rejects.toBeInstanceOf(HTTPStatusError);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('should only retry non-idempotent operations when allowed', async () => {
+    const operation = jest.fn().mockRejectedValue(new NetworkError('down'));
+
+    await expect(new RetryPolicy(fast).execute(operation, { idempotent: false })).rejects.toThrow();
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    operation.mockClear();
+    const lenient = new RetryPolicy({ ...fast, maxRetries: 1, retryNonIdempotent: true });
+    await expect(lenient.execute(operation, { idempotent: false })).rejects.toThrow();
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should give up when the next delay would pass the deadline', async () => {
+    const policy = new RetryPolicy({ baseDelay: 1000, jitter: 0, deadline: 500 });
+    const operation = jest.fn().mockRejectedValue(new NetworkError('down'));
+
+    await expect(policy.execute(operation)).rejects.toThrow('down');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds and HTTP dates', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    expect(parseRetryAfter('3')).toBe(3000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter('soon')).toBeUndefined();
+    expect(parseRetryAfter(null)).toBeUndefined();
+  });
+});
+
+describe('SPKAPI retry policy', () => {
+  let mockFetch: jest.MockedFunction<typeof fetch>;
+
+  beforeEach(() => {
+    mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+    mockFetch.mockReset();
+  });
+
+  it('should not retry client errors', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 404, statusText: 'Not Found' } as Response);
+    const api = new SPKAPI('https://test.node', 30000, 3, { retry: { baseDelay: 1 } });
+
+    await expect(api.get('/missing')).rejects.toThrow('API Error: 404 Not Found');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('should retry 429 responses after Retry-After', async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        statusText: 'Too Many Requests',
+        headers: new Headers({ 'Retry-After': '0' }),
+      } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ ok: 1 }) } as Response);
+    const api = new SPKAPI('https://test.node', 30000, 3);
+
+    await expect(api.get('/limited')).resolves.toEqual({ ok: 1 });
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only retry POSTs that opt in', async () => {
+    mockFetch.mockRejectedValue(new Error('reset'));
+    const api = new SPKAPI('https://test.node', 30000, 1, { retry: { baseDelay: 1 } });
+
+    await expect(api.post('/api/register', {})).rejects.toThrow('reset');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+
+    mockFetch.mockClear();
+    await expect(api.post('/api/register', {}, undefined, { retry: true })).rejects.toThrow('reset');
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('HiveAPI retry policy', () => {
+  const originalPolicy = HiveAPI.retryPolicy;
+  let mockFetch: jest.MockedFunction<typeof fetch>;
+
+  beforeEach(() => {
+    mockFetch = global.fetch as jest.MockedFunction<typeof fetch>;
+    mockFetch.mockReset();
+    HiveAPI.retryPolicy = new RetryPolicy({ maxRetries: 3, baseDelay: 1, jitter: 0 });
+  });
+
+  afterAll(() => {
+    HiveAPI.retryPolicy = originalPolicy;
+  });
+
+  it('should fail over to the next node and retry', async () => {
+    mockFetch
+      .mockResolvedValueOnce({ ok: false, status: 502, statusText: 'Bad Gateway' } as Response)
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ result: [{ name: 'alice' }] }) } as Response);
+
+    const accounts = await HiveAPI.getAccounts(['alice']);
+
+    expect(accounts).toEqual([{ name: 'alice' }]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[0][0]).not.toBe(mockFetch.mock.calls[1][0]);
+  });
+
+  it('should not retry client errors', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 400, statusText: 'Bad Request' } as Response);
+
+    await expect(HiveAPI.getAccounts(['alice'])).rejects.toThrow('HTTP error! status: 400');
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,121 @@
+import { SPKAccount } from '../../../src/core/account';
+import { AccountSubscription } from '../../../src/core/subscription';
+import { MockSPKNode } from '../../../src/testing';
+
+describe('AccountSubscription', () => {
+  let node: MockSPKNode;
+  let account: SPKAccount;
+  let subscription: AccountSubscription;
+
+  beforeEach(() => {
+    node = new MockSPKNode();
+    node.addAccount('alice', { balance: 5000, broca: 1000, pow_broca: 1000, claim: 0 });
+    account = new SPKAccount('alice', { node: node.url, transport: node.fetch });
+    subscription = new AccountSubscription(account, { interval: 5 });
+  });
+
+  afterEach(() => {
+    subscription.unsubscribe();
+  });
+
+  it('should only refresh the account when the head block advances', async () => {
+    const update = jest.fn();
+    subscription.on('update', update);
+
+    await subscription.poll();
+    await subscription.poll();
+    expect(update).toHaveBeenCalledTimes(1);
+    expect(account.balance).toBe(5000);
+
+    node.headBlock++;
+    await subscription.poll();
+    expect(update).toHaveBeenCalledTimes(2);
+    expect(update.mock.calls[1][0].headBlock).toBe(node.headBlock);
+  });
+
+  it('should emit balance, claimable and power-down changes', async () => {
+    const balance = jest.fn();
+    const claimable = jest.fn();
+    const powerDown = jest.fn();
+    subscription.on('balance', balance).on('claimable', claimable).on('powerDown', powerDown);
+    await subscription.poll();
+
+    node.addAccount('alice', {
+      balance: 4000,
+      poweredUp: 1000,
+      claim: 25,
+      power_downs: { '2000:tx1': 250 },
+    });
+    node.headBlock++;
+    await subscription.poll();
+
+    expect(balance).toHaveBeenCalledWith({ field: 'balance', previous: 5000, current: 4000, delta: -1000 });
+    expect(balance).toHaveBeenCalledWith({ field: 'poweredUp', previous: 0, current: 1000, delta: 1000 });
+    expect(claimable).toHaveBeenCalledWith({ larynx: 25, spk: 0, previous: { larynx: 0, spk: 0 } });
+    expect(powerDown).toHaveBeenCalledWith({ pending: { '2000:tx1': 250 }, completed: [], added: ['2000:tx1'] });
+  });
+
+  it('should emit BROCA regeneration and spending', async () => {
+    const broca = jest.fn();
+    subscription.on('broca', broca);
+    await subscription.poll();
+
+    node.headBlock += 1440;
+    await subscription.poll();
+
+    expect(broca).toHaveBeenCalledWith(expect.objectContaining({ previous: 1000, regenerated: true }));
+    expect(broca.mock.calls[0][0].delta).toBeGreaterThan(0);
+
+    node.getAccount('alice').broca = 500;
+    node.getAccount('alice').broca_block = node.headBlock;
+    node.headBlock++;
+    await subscription.poll();
+
+    expect(broca).toHaveBeenLastCalledWith(expect.objectContaining({ current: 500, regenerated: false }));
+  });
+
+  it('should emit added and expired contracts', async () => {
+    const added = jest.fn();
+    const expired = jest.fn();
+    subscription.on('contractAdded', added).on('contractExpired', expired);
+    await subscription.poll();
+
+    node.broadcast('alice', [
+      ['custom_json', { id: 'spkccT_channel_open', json: JSON.stringify({ to: 'alice', broca: 100 }) }],
+    ]);
+    await subscription.poll();
+    expect(added).toHaveBeenCalledTimes(1);
+
+    const [id] = Array.from(node.contracts.keys());
+    node.contracts.get(id)!.e = `${node.headBlock + 1}:QmExpiry`;
+    node.headBlock += 2;
+    await subscription.poll();
+    expect(expired).toHaveBeenCalledTimes(1);
+    expect(expired.mock.calls[0][0].contract.i).toBe(id);
+
+    // Dropping an already reported contract does not report it twice
+    node.contracts.delete(id);
+    node.headBlock++;
+    await subscription.poll();
+    expect(expired).toHaveBeenCalledTimes(1);
+  });
+
+  it('should back off on errors and stop after unsubscribe', async () => {
+    const failing = jest.spyOn(account.api, 'getStats').mockRejectedValue(new Error('down'));
+    const errors: number[] = [];
+
+    subscription.on('error', (_error, attempt) => errors.push(attempt));
+    subscription.start();
+    await new Promise(resolve => setTimeout(resolve, 150));
+
+    expect(errors.slice(0, 3)).toEqual([0, 1, 2]);
+    // 5ms doubling per failure keeps the number of attempts small
+    expect(failing.mock.calls.length).toBeLessThanOrEqual(7);
+
+    subscription.unsubscribe();
+    const calls = failing.mock.calls.length;
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(failing.mock.calls.length).toBe(calls);
+    expect(subscription.active).toBe(false);
+  });
+});
@@ -0,0 +1,79 @@
+import SPK from '../../../src';
+import { TokenRegistry } from '../../../src/core/token-registry';
+import { MockSPKNode } from '../../../src/testing';
+
+const DLUX_NODE = 'https://token.dlux.test';
+
+describe('token registry', () => {
+  let node: MockSPKNode;
+  let spk: SPK;
+
+  beforeEach(async () => {
+    node = new MockSPKNode();
+    node.addAccount('alice', { balance: 5000 });
+    node.addAccount('bob');
+
+    // A honeycomb node of its own serving the DLUX protocol and accounts
+    const dlux = (body: any) => ({ ok: true, status: 200, statusText: 'OK', json: async () => body }) as Response;
+    const transport = async (url: string, init: any) => {
+      if (url === `${DLUX_NODE}/api/protocol`) {
+        return dlux({ precision: 3, json_prefix: 'dlux_', multisig: 'dlux-cc' });
+      }
+      if (url === `${DLUX_NODE}/@alice`) {
+        return dlux({ balance: 12000, poweredUp: 3000, claim: 250 });
+      }
+      return node.fetch(url, init);
+    };
+
+    spk = new SPK('alice', { node: node.url, transport, keychain: node.signer });
+    spk.registerToken({
+      symbol: 'dlux',
+      protocolEndpoint: `${DLUX_NODE}/api/protocol`,
+      api: DLUX_NODE,
+      precision: 3,
+      jsonPrefix: 'dluxT_',
+    });
+    await spk.init();
+  });
+
+  it('should read the protocol of registered tokens', async () => {
+    expect(spk.getTokens()).toEqual(['LARYNX', 'SPK', 'BROCA', 'DLUX']);
+
+    const protocol = spk.account.protocol.getProtocol('DLUX');
+    // The advertised prefix and multisig replace the defaults; no features are advertised, so the defaults stay
+    expect(protocol).toMatchObject({ jsonPrefix: 'dlux_', multisig: 'dlux-cc' });
+    expect(Object.keys(protocol!.features)).toEqual(['claim', 'send', 'power_up', 'power_down']);
+  });
+
+  it('should send, power and claim registered tokens through TokenOperations', async () => {
+    const broadcast = jest.spyOn(node.signer, 'requestBroadcast');
+
+    await spk.send('1.500 DLUX', 'bob', 'hi');
+    await spk.tokenPowerDown('DLUX', 100);
+    await spk.claim('DLUX');
+
+    const calls = broadcast.mock.calls.map(([, operations, keyType]) => [operations[0][1].id, keyType]);
+    expect(calls).toEqual([
+      ['dlux_send', 'Active'],
+      ['dlux_power_down', 'Active'],
+      ['dlux_claim', 'Posting'],
+    ]);
+    expect(JSON.parse(broadcast.mock.calls[0][1][0][1].json)).toEqual({ to: 'bob', amount: 1500, memo: 'hi', from: 'alice' });
+  });
+
+  it('should read balances of every registered token', async () => {
+    const balances = await spk.getTokenBalances();
+
+    expect(Object.keys(balances)).toEqual(['LARYNX', 'SPK', 'BROCA', 'DLUX']);
+    expect(balances.LARYNX).toMatchObject({ liquid: 5000, precision: 3 });
+    expect(balances.DLUX).toEqual({ symbol: 'DLUX', liquid: 12000, powered: 3000, claimable: 250, precision: 3 });
+  });
+
+  it('should reject features a token does not offer and invalid definitions', async () => {
+    await expect(spk.tokenPowerDown('BROCA', 1)).rejects.toMatchObject({ code: 'UNSUPPORTED_TOKEN' });
+    await expect(spk.claim('NOPE')).rejects.toMatchObject({ code: 'UNSUPPORTED_TOKEN' });
+    expect(() => new TokenRegistry().register({ symbol: 'd l', protocolEndpoint: '/x', precision: 0, jsonPrefix: 'x' })).toThrow(
+      'Invalid token symbol'
+    );
+  });
+});
@@ -0,0 +1,119 @@
+import SPK from '../../../src';
+import { TransactionBuilder } from '../../../src/core/transaction-builder';
+import { KeychainAdapter } from '../../../src/core/keychain-adapter';
+import { ProtocolManager } from '../../../src/core/protocol';
+import { SPKAPI } from '../../../src/core/api';
+import { NETWORKS } from '../../../src/core/network';
+import { SPKError, SignerRejectedError, SignerUnavailableError } from '../../../src/core/errors';
+import { MockSPKNode } from '../../../src/testing';
+
+const TRANSFER: [string, Record<string, any>] = [
+  'transfer',
+  { from: 'alice', to: 'bob', amount: '1.000 HIVE', memo: '' },
+];
+
+function builder(signer: any = null, options = {}, node = new MockSPKNode(), transport = node.fetch) {
+  const network = NETWORKS.testnet;
+  // Recipient checks go to a mock node that knows every account
+  const api = new SPKAPI(node.url, 1000, 0, { transport });
+  const protocol = new ProtocolManager(node.url, api, network);
+  return new TransactionBuilder('alice', signer && new KeychainAdapter(signer), protocol, network, undefined, options);
+}
+
+describe('TransactionBuilder', () => {
+  it('should start a new transaction whenever the auth level changes', () => {
+    const batch = builder()
+      .send('1.000 LARYNX', 'bob')
+      .claim('LARYNX')
+      .add(TRANSFER)
+      .add(['vote', { voter: 'alice', author: 'bob', permlink: 'post', weight: 10000 }])
+      .openChannel({ broca: 1000, broker: 'dlux-io' });
+
+    expect(batch.plan()).toEqual([
+      { auth: 'active', operations: [0] },
+      { auth: 'posting', operations: [1] },
+      { auth: 'active', operations: [2] },
+      { auth: 'posting', operations: [3, 4] },
+    ]);
+  });
+
+  it('should split transactions at the custom_json, operation and size limits', () => {
+    const batch = builder();
+    for (let i = 0; i < 7; i++) batch.send('1.000 LARYNX', 'bob');
+    expect(batch.plan().map(transaction => transaction.operations.length)).toEqual([5, 2]);
+
+    const small = builder(null, { maxOperations: 2 }).add(TRANSFER).add(TRANSFER).add(TRANSFER);
+    expect(small.plan().map(transaction => transaction.operations)).toEqual([[0, 1], [2]]);
+
+    const memo = 'x'.repeat(3000);
+    const large = builder(null, { maxTransactionSize: 5000 })
+      .send('1.000 LARYNX', 'bob', memo)
+      .send('1.000 LARYNX', 'bob', memo);
+    expect(large.plan()).toHaveLength(2);
+  });
+
+  it('should validate operations as they are added', () => {
+    const batch = builder();
+
+    expect(() => batch.send('1.000 LARYNX', '')).toThrow();
+    expect(() => batch.customJson('x'.repeat(33), {})).toThrow(SPKError);
+    expect(() => batch.customJson('spkccT_send', { memo: 'x'.repeat(9000) })).toThrow('exceeds 8192 bytes');
+    expect(() => batch.tokenOperation('LARYNX', 'send', { to: 'bob', amount: 1, extra: 1 })).toThrow('Unknown field');
+    expect(batch.size).toBe(0);
+  });
+
+  it('should check recipients exist before signing anything', async () => {
+    const signer = { requestSignature: jest.fn(), requestBroadcast: jest.fn() };
+    const node = new MockSPKNode();
+    const transport = async (url: string, init: any) =>
+      url.endsWith('/@nobody') ? ({ ok: false, status: 404, statusText: 'Not Found' } as Response) : node.fetch(url, init);
+    const batch = builder(signer, {}, node, transport).claim('LARYNX').send('1.000 LARYNX', 'nobody');
+
+    await expect(batch.broadcast()).rejects.toMatchObject({ code: 'INVALID_ACCOUNT' });
+    expect(signer.requestBroadcast).not.toHaveBeenCalled();
+  });
+
+  it('should report per operation results when a transaction is rejected', async () => {
+    const signer = {
+      requestSignature: jest.fn(),
+      requestBroadcast: jest.fn((_account: string, _operations: any[], keyType: string, callback: (response: any) => void) =>
+        callback(keyType === 'Active' ? { success: false, error: 'User canceled' } : { success: true, result: { id: 'tx1', block_num: 5 } })
+      ),
+    };
+    const batch = builder(signer).send('1.000 LARYNX', 'bob', '', { label: 'bob' }).claim('LARYNX');
+
+    const result = await batch.broadcast();
+
+    expect(result.success).toBe(false);
+    expect(result.results[0]).toMatchObject({ label: 'bob', auth: 'active', success: false });
+    expect(result.results[0].error).toBeInstanceOf(SignerRejectedError);
+    expect(result.results[1]).toMatchObject({ auth: 'posting', success: true, txId: 'tx1', block: 5 });
+    expect(result.transactions.map(transaction => transaction.id)).toEqual([undefined, 'tx1']);
+    expect(batch.size).toBe(0);
+  });
+
+  it('should refuse to broadcast without a signer or operations', async () => {
+    await expect(builder().add(TRANSFER).broadcast()).rejects.toThrow(SignerUnavailableError);
+    await expect(builder({ requestSignature: jest.fn(), requestBroadcast: jest.fn() }).broadcast()).rejects.toMatchObject({
+      code: 'EMPTY_TRANSACTION',
+    });
+  });
+
+  it('should broadcast several sends with one prompt', async () => {
+    const node = new MockSPKNode();
+    node.addAccount('alice', { balance: 5000 });
+    const broadcast = jest.spyOn(node.signer, 'requestBroadcast');
+    const spk = new SPK('alice', { node: node.url, transport: node.fetch, keychain: node.signer });
+    await spk.init();
+    await spk.getBalances(true);
+
+    const result = await spk.transaction().send('1.000 LARYNX', 'bob').send('2.000 LARYNX', 'carol').broadcast();
+
+    expect(result.success).toBe(true);
+    expect(broadcast).toHaveBeenCalledTimes(1);
+    expect(result.results.map(operation => operation.txId)).toEqual(['mocktx1', 'mocktx1']);
+    // Cached account data was dropped, so a refresh sees the new balances
+    expect((await spk.getBalances(true)).larynx).toBe(2000);
+    expect((await spk.account.api.getAccount('carol')).balance).toBe(2000);
+  });
+});
@@ -0,0 +1,102 @@
+import { Buffer } from 'buffer';
+import ecc from '@hiveio/hive-js/lib/auth/ecc';
+import serializer from '@hiveio/hive-js/lib/auth/serializer/src/operations';
+import { LocalSigner } from '../../../src/crypto/local-signer';
+import { KeychainAdapter } from '../../../src/core/keychain-adapter';
+import { SignerRejectedError, SignerUnavailableError } from '../../../src/core/errors';
+import { NETWORKS } from '../../../src/core/network';
+
+// Keys derived from the password 'pass' for the account 'alice'
+const POSTING = '5HzGtb5U9YhhU14ambyf4nXyeC25TwwoTezXbxAJ7GoQmqVHoeu';
+const POSTING_PUBLIC = 'STM4yE9cyqfwMqSy2J9kATvqbu5RrGHRPPZCDWtvqP5U65woPGzAh';
+const ACTIVE = '5JqYpPfCxDQiiiFx1VpsvyswxFqTUwDFiLvJsLTwtoUZFV4xSBE';
+const ACTIVE_PUBLIC = 'STM7Vj5GHmcEBbXDur4h7Pen1ucKN9xSdVZAsb3Xde2PddqeUwPhJ';
+
+const CUSTOM_JSON = [
+  'custom_json',
+  { required_auths: ['alice'], required_posting_auths: [], id: 'spkccT_send', json: '{"to":"bob","amount":1}' },
+];
+
+function mockHive() {
+  return {
+    getDynamicGlobalProperties: jest.fn().mockResolvedValue({
+      head_block_number: 0x05f5e123,
+      head_block_id: '05f5e1237a8b9c0d1e2f30415263748596a7b8c9',
+    }),
+    broadcastTransaction: jest.fn().mockResolvedValue(undefined),
+    broadcastTransactionSynchronous: jest.fn(async () => ({
+      id: '',
+      block_num: 99999,
+      trx_num: 2,
+      expired: false,
+    })),
+  };
+}
+
+describe('LocalSigner', () => {
+  it('should sign messages that recover to the key of the requested role', () => {
+    const signer = new LocalSigner({ keys: { posting: POSTING, active: ACTIVE } });
+
+    const { signature, publicKey } = signer.requestSignatureSynchronous('alice', '1700000000:login', 'Posting');
+
+    expect(publicKey).toBe(POSTING_PUBLIC);
+    const recovered = ecc.Signature.fromHex(signature).recoverPublicKeyFromBuffer(Buffer.from('1700000000:login'));
+    expect(recovered.toString()).toBe(POSTING_PUBLIC);
+    expect(signer.getPublicKey('Active')).toBe(ACTIVE_PUBLIC);
+  });
+
+  it('should serialize and sign transactions on the head block', async () => {
+    const hive = mockHive();
+    const signer = new LocalSigner({ keys: { active: ACTIVE }, hive });
+
+    const { id, signatures, ...transaction } = await signer.signTransaction('alice', [CUSTOM_JSON], 'Active');
+
+    expect(transaction.ref_block_num).toBe(0xe123);
+    expect(transaction.ref_block_prefix).toBe(Buffer.from('7a8b9c0d', 'hex').readUInt32LE(0));
+    expect(transaction.expiration).toMatch(/^\d{4}-\d\d-\d\dT\d\d:\d\d:\d\d$/);
+
+    const buffer = serializer.transaction.toBuffer(transaction);
+    expect(id).toBe(ecc.hash.sha256(buffer).toString('hex').slice(0, 40));
+    const digest = Buffer.concat([Buffer.from(NETWORKS.mainnet.chainId, 'hex'), buffer]);
+    expect(ecc.Signature.fromHex(signatures[0]).recoverPublicKeyFromBuffer(digest).toString()).toBe(ACTIVE_PUBLIC);
+  });
+
+  it('should broadcast through KeychainAdapter and report the block', async () => {
+    const hive = mockHive();
+    const adapter = new KeychainAdapter(new LocalSigner({ keys: { active: ACTIVE }, hive }));
+
+    const receipt = await adapter.broadcastCustomJson('alice', 'spkccT_send', 'Active', { to: 'bob', amount: 1 }, 'Send');
+
+    expect(receipt.block_num).toBe(99999);
+    expect(receipt.id).toMatch(/^[0-9a-f]{40}$/);
+    const [sent] = hive.broadcastTransactionSynchronous.mock.calls[0] as any[];
+    expect(sent.operations).toEqual([CUSTOM_JSON]);
+    expect(sent).not.toHaveProperty('id');
+  });
+
+  it('should answer the callback variants', async () => {
+    const hive = mockHive();
+    const signer = new LocalSigner({ keys: { posting: POSTING }, hive });
+
+    const response = await new Promise<any>(resolve => signer.requestBroadcast('alice', [CUSTOM_JSON], 'Posting', resolve));
+    expect(response.success).toBe(true);
+    expect(response.result.id).toMatch(/^[0-9a-f]{40}$/);
+    expect(hive.broadcastTransaction).toHaveBeenCalledTimes(1);
+
+    const failed = await new Promise<any>(resolve => signer.requestSignature('alice', 'challenge', 'Active', resolve));
+    expect(failed).toEqual({ success: false, error: 'No active key configured' });
+  });
+
+  it('should only use keys for their role and account', async () => {
+    const signer = new LocalSigner({ keys: { active: ACTIVE }, account: 'alice', hive: mockHive() });
+
+    // Active authority satisfies posting
+    expect(signer.signMessage('alice', 'hello', 'Posting').publicKey).toBe(ACTIVE_PUBLIC);
+    expect(() => signer.signMessage('alice', 'hello', 'Memo')).toThrow(SignerUnavailableError);
+    expect(() => signer.signMessage('bob', 'hello', 'Active')).toThrow('No keys for account bob');
+
+    const adapter = new KeychainAdapter(signer);
+    await expect(adapter.broadcast('bob', [CUSTOM_JSON])).rejects.toThrow(SignerRejectedError);
+    expect(() => new LocalSigner({ keys: { posting: 'not-a-key' } })).toThrow();
+  });
+});
@@ -87,6 +87,7 @@ describe('SPKFileUpload', () => {
       sign: jest.fn().mockResolvedValue('mock-sig'),
       calculateBroca: jest.fn().mockResolvedValue(1000),
       api: {
+        fetch: (url: string, init: any) => global.fetch(url, init),
         post: jest.fn().mockResolvedValue({ 
           id: 'contract-123',
           df: ['QmTestHash123'],
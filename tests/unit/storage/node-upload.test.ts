@@ -39,17 +39,14 @@ jest.mock('../../../src/storage/contract-creator', () => ({
   }))
 }));
 
-// Mock node-fetch for Node.js environment
-jest.mock('node-fetch', () => jest.fn());
-const fetch = require('node-fetch');
-
 // Mock form-data for Node.js environment
 jest.mock('form-data', () => {
   return jest.fn().mockImplementation(() => ({
     append: jest.fn(),
     getHeaders: jest.fn().mockReturnValue({
       'content-type': 'multipart/form-data; boundary=----formdata-boundary'
-    })
+    }),
+    getBuffer: jest.fn().mockReturnValue(Buffer.from('form'))
   }));
 });
 
@@ -62,8 +59,9 @@ interface NodeFileObject {
   arrayBuffer?: () => Promise<ArrayBuffer>;
 }
 
-// Mock global fetch for contract creator
+// Mock global fetch; provider requests reach it through the account's api.fetch
 global.fetch = jest.fn();
+const fetch = global.fetch;
 
 describe('SPKFileUpload - nodeUpload', () => {
   let mockAccount: jest.Mocked<SPKAccount>;
@@ -80,6 +78,7 @@ describe('SPKFileUpload - nodeUpload', () => {
       sign: jest.fn().mockResolvedValue('mock-sig'),
       calculateBroca: jest.fn().mockResolvedValue(1000),
       api: {
+        fetch: (url: string, init: any) => global.fetch(url, init),
         post: jest.fn().mockResolvedValue({ 
           id: 'contract-123',
           df: ['QmTestHash123'],
@@ -105,13 +104,6 @@ describe('SPKFileUpload - nodeUpload', () => {
     (Hash.of as jest.Mock).mockResolvedValue('QmTestHash123');
     
     // Mock fetch for upload operations
-    (fetch as jest.Mock).mockResolvedValue({
-      ok: true,
-      json: jest.fn().mockResolvedValue({ success: true }),
-      text: jest.fn().mockResolvedValue('')
-    });
-    
-    // Also set global fetch
     (global.fetch as jest.Mock).mockResolvedValue({
       ok: true,
       json: jest.fn().mockResolvedValue({ success: true }),
@@ -216,9 +208,9 @@ describe('SPKFileUpload - nodeUpload', () => {
       
       await (fileUpload as any).nodeUpload(file);
       
-      // Should have called fetch for authorization and upload
+      // Authorization, then one request per 1MB chunk
       expect(fetch).toHaveBeenCalled();
-      expect(fetch).toHaveBeenCalledTimes(2); // Authorization + chunk upload
+      expect(fetch).toHaveBeenCalledTimes(3);
     });
 
     it('should validate Node.js file structure', async () => {
@@ -0,0 +1,96 @@
+import SPK from '../../../src';
+import { MockSPKNode } from '../../../src/testing';
+
+describe('MockSPKNode', () => {
+  let node: MockSPKNode;
+  let spk: SPK;
+
+  beforeEach(async () => {
+    node = new MockSPKNode();
+    node.addAccount('alice', { balance: 5000, spk: 2000, broca: 100000, pow_broca: 1000 });
+    node.addAccount('bob');
+
+    spk = new SPK('alice', { node: node.url, transport: node.fetch, keychain: node.signer });
+    await spk.init();
+  });
+
+  it('should serve account, stats and protocol data', async () => {
+    const balances = await spk.getBalances();
+
+    expect(balances.larynx).toBe(5000);
+    expect(balances.spk).toBe(2000);
+    expect(balances.broca).toBe(100000);
+    expect(node.requests.some(request => request.url === `${node.url}/api/protocol`)).toBe(true);
+  });
+
+  it('should apply broadcast token operations to the in-memory state', async () => {
+    await spk.sendLarynx(1500, 'bob');
+    await spk.account.powerUp(500);
+
+    expect(node.getAccount('alice').balance).toBe(3000);
+    expect(node.getAccount('alice').poweredUp).toBe(500);
+    expect(node.getAccount('bob').balance).toBe(1500);
+
+    const balances = await spk.getBalances(true);
+    expect(balances.larynx).toBe(3000);
+  });
+
+  it('should upload a file end to end and show it in the drive', async () => {
+    const buffer = Buffer.alloc(1536 * 1024, 1);
+    const progress: number[] = [];
+
+    const result: any = await (spk as any).fileUpload.nodeUpload(
+      { name: 'photo.bin', size: buffer.length, buffer },
+      { onProgress: (percent: number) => progress.push(percent) }
+    );
+
+    const contract = node.getContract(result.contract.i)!;
+    expect(contract.df).toEqual({ [result.cid]: buffer.length });
+    expect(contract.u).toBe(buffer.length);
+    expect(node.getAccount('alice').broca).toBeLessThan(100000);
+    expect(node.getAccount('alice').pubKey).not.toBe('NA');
+    expect(progress[progress.length - 1]).toBe(100);
+
+    const ranges = node.requests
+      .filter(request => request.url === `${node.providerUrl}/upload`)
+      .map(request => request.headers['content-range']);
+    expect(ranges).toEqual([
+      `bytes 0-1048575/${buffer.length}`,
+      `bytes 1048576-${buffer.length - 1}/${buffer.length}`,
+    ]);
+
+    await spk.drive.loadDrive();
+    expect(spk.drive.getFiles().map(file => file.f)).toContain(result.cid);
+  });
+
+  it('should reject chunks that skip ahead', async () => {
+    await (spk as any).fileUpload.nodeUpload(Buffer.from('hello'), { fileName: 'a.txt' });
+    const [contractId] = Array.from(node.contracts.keys());
+    const headers = {
+      'X-Sig': 'sig',
+      'X-Account': 'alice',
+      'X-Contract': contractId,
+      'X-Cid': 'QmSecond',
+    };
+
+    await node.fetch(`${node.providerUrl}/upload-authorize`, { method: 'POST', headers });
+    const response = await node.fetch(`${node.providerUrl}/upload`, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Range': 'bytes 10-19/20' },
+    });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toMatchObject({ message: 'Bad chunk provided', haveByte: 0 });
+  });
+
+  it('should route global fetch while installed', async () => {
+    const restore = node.install();
+    try {
+      const response = await fetch(`${node.url}/@bob`);
+      expect((await response.json()).account).toBe('bob');
+    } finally {
+      restore();
+    }
+    expect(jest.isMockFunction(global.fetch)).toBe(true);
+  });
+});
@@ -0,0 +1,121 @@
+import SPK from '../../../src';
+import { parseDelegations, projectDelegation, projectGovernance } from '../../../src/tokens/delegation';
+import { MockSPKNode } from '../../../src/testing';
+
+describe('delegation and governance', () => {
+  describe('projections', () => {
+    const account = {
+      balance: 5000,
+      gov: 1000,
+      spk_power: 3000,
+      granting: { t: 700, bob: 500, carol: 200 },
+      granted: { t: 50, dave: 50 },
+      pow_broca: 400,
+    };
+
+    it('should list delegations in and out', () => {
+      expect(parseDelegations(account)).toEqual({
+        token: 'SPK',
+        incoming: [{ account: 'dave', amount: 50 }],
+        outgoing: [
+          { account: 'bob', amount: 500 },
+          { account: 'carol', amount: 200 },
+        ],
+        totalIn: 50,
+        totalOut: 700,
+      });
+      expect(parseDelegations({})).toEqual({ token: 'SPK', incoming: [], outgoing: [], totalIn: 0, totalOut: 0 });
+      expect(() => parseDelegations(account, 'BROCA')).toThrow('not reported by the node');
+    });
+
+    it('should project delegations as replacing the current grant', () => {
+      expect(projectDelegation(account, 'SPK', 'bob', 800)).toEqual({
+        changes: [
+          { field: 'spk_power', current: 3000, projected: 2700 },
+          { field: 'granting', current: 700, projected: 1000 },
+        ],
+        sufficient: true,
+      });
+      expect(projectDelegation(account, 'spk', 'bob', 0).changes[0].projected).toBe(3500);
+      expect(projectDelegation(account, 'SPK', 'erin', 4000).sufficient).toBe(false);
+      expect(() => projectDelegation(account, 'BROCA', 'bob', 300)).toThrow('not reported by the node');
+      expect(() => projectDelegation(account, 'LARYNX', 'bob', 1)).toThrow('not reported by the node');
+    });
+
+    it('should project governance locks', () => {
+      expect(projectGovernance(account, 'lock', 2000)).toEqual({
+        changes: [
+          { field: 'balance', current: 5000, projected: 3000 },
+          { field: 'gov', current: 1000, projected: 3000 },
+        ],
+        sufficient: true,
+      });
+      expect(projectGovernance(account, 'unlock', 1500).sufficient).toBe(false);
+    });
+  });
+
+  describe('SPK', () => {
+    let node: MockSPKNode;
+    let spk: SPK;
+
+    beforeEach(async () => {
+      node = new MockSPKNode();
+      node.addAccount('alice', { balance: 5000, spk_power: 3000, pow_broca: 1000 });
+      node.addAccount('bob');
+      spk = new SPK('alice', { node: node.url, transport: node.fetch, keychain: node.signer });
+      await spk.init();
+    });
+
+    it('should delegate, undelegate and match the projection', async () => {
+      const projection = await spk.projectDelegation('SPK', 'bob', 1200);
+
+      const result = await spk.delegate('SPK', 'bob', 1200);
+      expect(result.success).toBe(true);
+
+      const after = node.getAccount('alice');
+      expect(after.spk_power).toBe(projection.changes[0].projected);
+      expect(await spk.getDelegations()).toMatchObject({ outgoing: [{ account: 'bob', amount: 1200 }], totalOut: 1200 });
+      expect(await spk.getDelegations('bob')).toMatchObject({ incoming: [{ account: 'alice', amount: 1200 }] });
+
+      await spk.undelegate('SPK', 'bob');
+      expect(node.getAccount('alice').spk_power).toBe(3000);
+    });
+
+    it('should keep SPK and BROCA delegations to the same account apart', async () => {
+      await spk.delegate('SPK', 'bob', 100);
+      await spk.delegate('BROCA', 'bob', 100);
+
+      expect(node.getAccount('alice')).toMatchObject({ spk_power: 2900, pow_broca: 900 });
+      expect(await spk.getDelegations()).toMatchObject({ token: 'SPK', outgoing: [{ account: 'bob', amount: 100 }], totalOut: 100 });
+
+      await spk.undelegate('BROCA', 'bob');
+      expect(node.getAccount('alice')).toMatchObject({ spk_power: 2900, pow_broca: 1000 });
+      expect(await spk.getDelegations()).toMatchObject({ totalOut: 100 });
+    });
+
+    it('should lock and unlock governance stake through the protocol features', async () => {
+      const broadcast = jest.spyOn(node.signer, 'requestBroadcast');
+
+      await spk.lockGov(2000);
+      await spk.unlockGov(500);
+
+      expect(broadcast.mock.calls.map(([, operations]) => operations[0][1].id)).toEqual([
+        'spkccT_gov_up',
+        'spkccT_gov_down',
+      ]);
+      expect(node.getAccount('alice')).toMatchObject({ balance: 3500, gov: 1500 });
+      await expect(spk.lockGov(0)).rejects.toMatchObject({ code: 'INVALID_OPERATION' });
+      await expect(spk.delegate('LARYNX' as any, 'bob', 1)).rejects.toMatchObject({ code: 'UNSUPPORTED_TOKEN' });
+    });
+
+    it('should preview delegations', async () => {
+      const preview = await spk.delegate('BROCA', 'bob', 0, { dryRun: true });
+
+      expect(preview.transactions[0]).toMatchObject({
+        auth: 'active',
+        displayMessage: 'Remove BROCA Power delegation to bob',
+      });
+      expect(preview.transactions[0].operations[0][1].id).toBe('spkccT_broca_power_grant');
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import SPK, { DEFAULT_PROTOCOLS } from '../../../src';
+import { parsePowerDowns, forecastBalance, HIVE_BLOCK_MS } from '../../../src/tokens/power-down';
+import { MockSPKNode } from '../../../src/testing';
+
+describe('power downs', () => {
+  const now = Date.UTC(2025, 0, 1);
+
+  it('should parse power_downs into a dated schedule', () => {
+    const schedule = parsePowerDowns({ '1200:tx2': '250', '900:tx1': { amount: 250 }, '1500:tx3': 250 }, 1000, 'larynx', now);
+
+    expect(schedule.installments.map(({ id, block, amount }) => ({ id, block, amount }))).toEqual([
+      { id: '900:tx1', block: 900, amount: 250 },
+      { id: '1200:tx2', block: 1200, amount: 250 },
+      { id: '1500:tx3', block: 1500, amount: 250 },
+    ]);
+    // Overdue installments are due now
+    expect(schedule.next!.estimatedAt.getTime()).toBe(now);
+    expect(schedule.completesAt!.getTime()).toBe(now + 500 * HIVE_BLOCK_MS);
+    expect(schedule).toMatchObject({ token: 'LARYNX', headBlock: 1000, total: 750 });
+    expect(parsePowerDowns(undefined, 1000)).toMatchObject({ installments: [], total: 0, next: undefined });
+  });
+
+  it('should forecast the liquid balance after each installment', () => {
+    const schedule = parsePowerDowns({ '1200:tx1': 300, '1400:tx2': 300 }, 1000, 'LARYNX', now);
+
+    expect(forecastBalance(schedule, 1000, 600, now).map(({ block, liquid, powered }) => [block, liquid, powered])).toEqual([
+      [1000, 1000, 600],
+      [1200, 1300, 300],
+      [1400, 1600, 0],
+    ]);
+  });
+
+  describe('PowerDownManager', () => {
+    let node: MockSPKNode;
+    let powerDownMin: number;
+
+    const create = async () => {
+      // The node advertises power_down with the configured minimum amount
+      const transport = async (url: string, init: any) => {
+        const response = await node.fetch(url, init);
+        if (url !== `${node.url}/api/protocol`) {
+          return response;
+        }
+        const payload = await response.json();
+        const features = JSON.parse(JSON.stringify(DEFAULT_PROTOCOLS.LARYNX.features));
+        features.power_down.json.amount.min = powerDownMin;
+        return { ...response, json: async () => ({ ...payload, features }) } as Response;
+      };
+      const spk = new SPK('alice', { node: node.url, transport, keychain: node.signer });
+      await spk.init();
+      return spk;
+    };
+
+    beforeEach(() => {
+      node = new MockSPKNode();
+      node.addAccount('alice', { balance: 1000, poweredUp: 600, power_downs: { '1200:tx1': 300, '1400:tx2': 300 } });
+      powerDownMin = 1;
+    });
+
+    it('should read the schedule and forecast from the account', async () => {
+      const spk = await create();
+
+      const schedule = await spk.powerDowns.getSchedule();
+      const forecast = await spk.powerDowns.forecast();
+
+      expect(schedule).toMatchObject({ headBlock: node.headBlock, total: 600 });
+      expect(forecast[forecast.length - 1]).toMatchObject({ block: 1400, liquid: 1600, powered: 0 });
+      await expect(spk.powerDowns.getSchedule('BROCA')).rejects.toMatchObject({ code: 'UNSUPPORTED_TOKEN' });
+    });
+
+    it('should only cancel where the protocol accepts a power down of 0', async () => {
+      const spk = await create();
+      expect(spk.powerDowns.canCancel('LARYNX')).toBe(false);
+      await expect(spk.powerDowns.cancel('LARYNX')).rejects.toMatchObject({ code: 'UNSUPPORTED_FEATURE' });
+
+      powerDownMin = 0;
+      const cancelling = await create();
+      const preview = await cancelling.powerDowns.cancel('LARYNX', { dryRun: true });
+
+      expect(preview.transactions[0].displayMessage).toBe('Cancel LARYNX power down');
+      expect(JSON.parse(preview.transactions[0].operations[0][1].json)).toEqual({ amount: 0, from: 'alice' });
+    });
+
+    it('should cancel the power down in progress when the node accepts 0', async () => {
+      const broadcast = jest.spyOn(node.signer, 'requestBroadcast');
+      powerDownMin = 0;
+      const spk = await create();
+
+      const result = await spk.powerDowns.cancel();
+
+      expect(result.success).toBe(true);
+      expect(broadcast.mock.calls[0][1][0][1]).toMatchObject({
+        id: 'spkccT_power_down',
+        json: JSON.stringify({ amount: 0, from: 'alice' }),
+      });
+      expect((await spk.powerDowns.getSchedule()).installments).toEqual([]);
+      await expect(spk.powerDowns.cancel()).rejects.toMatchObject({ code: 'INVALID_OPERATION' });
+    });
+
+    it('should replace a power down in progress', async () => {
+      const broadcast = jest.spyOn(node.signer, 'requestBroadcast');
+      const spk = await create();
+
+      await spk.powerDowns.replace('LARYNX', 200);
+
+      expect(broadcast.mock.calls[0][1][0][1]).toMatchObject({
+        id: 'spkccT_power_down',
+        json: JSON.stringify({ amount: 200, from: 'alice' }),
+      });
+    });
+  });
+});
@@ -0,0 +1,98 @@
+import SPK from '../../../src';
+import { calculateSpkReward, calculatePendingRewards, BLOCKS_PER_DAY, ClaimReport } from '../../../src/tokens/rewards';
+import { MockSPKNode } from '../../../src/testing';
+
+describe('rewards', () => {
+  describe('calculation', () => {
+    const account = {
+      spk_block: 1000,
+      gov: 365000000,
+      pow: 36500000,
+      granted: { t: 3000000 },
+      granting: { t: 650000 },
+      claim: 750,
+    };
+    const rates = { spk_rate_lgov: '0.001', spk_rate_lpow: '0.002', spk_rate_ldel: '0.00015' };
+
+    it('should accrue SPK per full day on gov, pow and delegated power', () => {
+      const headBlock = 1000 + 2 * BLOCKS_PER_DAY + 100;
+
+      expect(calculateSpkReward(account, rates, headBlock)).toBe(2000 + 400 + 2);
+      expect(calculateSpkReward(account, rates, 1000 + BLOCKS_PER_DAY - 1)).toBe(0);
+      expect(calculateSpkReward({ ...account, spk_block: 0 }, rates, headBlock)).toBe(0);
+      expect(calculateSpkReward(account, {}, headBlock)).toBe(0);
+    });
+
+    it('should combine claimable LARYNX with accrued SPK', () => {
+      const headBlock = 1000 + 2 * BLOCKS_PER_DAY;
+
+      expect(calculatePendingRewards({ ...account, head_block: headBlock }, { result: rates })).toEqual({
+        larynx: 750,
+        spk: 2402,
+        days: 2,
+        headBlock,
+      });
+    });
+  });
+
+  describe('AutoClaimScheduler', () => {
+    let node: MockSPKNode;
+
+    beforeEach(() => {
+      node = new MockSPKNode({ headBlock: 1000 + 3 * BLOCKS_PER_DAY });
+      node.addAccount('alice', { claim: 500, gov: 365000000, spk_block: 1000 });
+    });
+
+    it('should report pending rewards for the account', async () => {
+      const spk = new SPK('alice', { node: node.url, transport: node.fetch, keychain: node.signer });
+      await spk.init();
+
+      expect(await spk.getPendingRewards()).toEqual({ larynx: 500, spk: 3000, days: 3, headBlock: node.headBlock });
+    });
+
+    it('should claim the tokens over their threshold with the injected signer', async () => {
+      const broadcast = jest.spyOn(node.signer, 'requestBroadcast');
+      const spk = new SPK('alice', { node: node.url, transport: node.fetch });
+      await spk.init();
+
+      const scheduler = spk.autoClaim({ threshold: { LARYNX: 100, SPK: 5000 }, signer: node.signer });
+      const report = await new Promise<ClaimReport>(resolve => scheduler.on('claim', resolve));
+      scheduler.stop();
+
+      expect(report).toMatchObject({ token: 'LARYNX', amount: 500, reason: 'threshold', success: true });
+      expect(broadcast).toHaveBeenCalledTimes(1);
+      expect(broadcast.mock.calls[0][1][0][1].id).toBe('spkccT_claim');
+      expect(scheduler.active).toBe(false);
+    });
+
+    it('should send no more claims once stopped during a check', async () => {
+      const broadcast = jest.spyOn(node.signer, 'requestBroadcast');
+      const spk = new SPK('alice', { node: node.url, transport: node.fetch, keychain: node.signer });
+      await spk.init();
+
+      const scheduler = spk.autoClaim({ threshold: { LARYNX: 100, SPK: 1000 } }).start();
+      const check = jest.spyOn(scheduler, 'check');
+      // Stop from the first claim, before the next one is sent
+      await new Promise(resolve => scheduler.on('claim', () => resolve(scheduler.stop())));
+      const reports = await check.mock.results[0].value;
+
+      expect(reports.map((report: ClaimReport) => report.token)).toEqual(['LARYNX']);
+      expect(broadcast).toHaveBeenCalledTimes(1);
+    });
+
+    it('should claim anything pending once the interval has passed', async () => {
+      const spk = new SPK('alice', { node: node.url, transport: node.fetch, keychain: node.signer });
+      await spk.init();
+
+      const scheduler = spk.autoClaim({ interval: 0 });
+      scheduler.stop();
+      const reports = await scheduler.check();
+
+      expect(reports.map(({ token, reason }) => [token, reason])).toEqual([
+        ['LARYNX', 'interval'],
+        ['SPK', 'interval'],
+      ]);
+      expect(() => spk.autoClaim({})).toThrow('threshold or an interval');
+    });
+  });
+});